@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import '@openzeppelin/contracts/utils/cryptography/MerkleProof.sol';
+
+import './interfaces/IDataMintable.sol';
+import './Mintable.sol';
+
+/**
+ * @notice A Mintable contract that only allows the collectors of a list to mint copies. The creator sets up the
+ * rule with the Merkle root of the list, on top of the validation info of the {Mintable} contract. Each leaf of
+ * the tree is the double hash of an address and the number of copies it can mint, 0 for no cap. Collectors
+ * supply the proof of their leaf at mint time, see {IDataMintable}.
+ */
+contract AllowlistMintable is Mintable, IDataMintable {
+
+    event SetupAllowlist(bytes32 indexed copyHash, bytes32 merkleRoot);
+
+    // copyHash => merkle root of the allowlist
+    mapping(bytes32 => bytes32) private _merkleRoots;
+    // copyHash => collector => number of copies minted
+    mapping(bytes32 => mapping(address => uint256)) private _minted;
+
+    constructor (address copyContract_) Mintable(copyContract_) {}
+
+    /**
+     * @dev The ruleData is the abi encoded ValidationInfo followed by the merkle root of the allowlist
+     *
+     * @inheritdoc IMintable
+     */
+    function setupRule(bytes32 copyHash, bytes calldata ruleData) public override(IMintable, Mintable) {
+        super.setupRule(copyHash, ruleData);
+        (, bytes32 merkleRoot) = abi.decode(ruleData, (ValidationInfo, bytes32));
+        _merkleRoots[copyHash] = merkleRoot;
+        emit SetupAllowlist(copyHash, merkleRoot);
+    }
+
+    /// @inheritdoc IMintable
+    function isMintable(address, bytes32, uint64) external payable override(IMintable, Mintable) onlyCopy {
+        revert("AllowlistMintable: Proof Required");
+    }
+
+    /**
+     * @dev The mintData is the abi encoded mint cap of the recipient and the merkle proof of its leaf
+     *
+     * @inheritdoc IDataMintable
+     */
+    function isMintable(
+        address to,
+        bytes32 copyHash,
+        uint64 duration,
+        bytes calldata mintData
+    ) external payable override onlyCopy {
+        (uint256 cap, bytes32[] memory proof) = abi.decode(mintData, (uint256, bytes32[]));
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(to, cap))));
+        require(MerkleProof.verify(proof, _merkleRoots[copyHash], leaf), "AllowlistMintable: Invalid Proof");
+
+        // check the cap of the recipient
+        uint256 minted = ++_minted[copyHash][to];
+        require(cap == 0 || minted <= cap, "AllowlistMintable: Mint Cap Reached");
+
+        _registerMint(to, copyHash, duration);
+    }
+
+    /**
+     * @dev Collectors already hold a copy, so the mintData is not checked for extensions
+     *
+     * @inheritdoc IDataMintable
+     */
+    function isExtendable(
+        address to,
+        bytes32 copyHash,
+        uint64 duration,
+        uint64 expireAt,
+        bytes calldata
+    ) external payable override onlyCopy {
+        _validateExtend(to, copyHash, duration, expireAt);
+    }
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IDataMintable).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    function getMerkleRoot(bytes32 copyHash) external view returns (bytes32) {
+        return _merkleRoots[copyHash];
+    }
+
+    function getMintedBy(bytes32 copyHash, address collector) external view returns (uint256) {
+        return _minted[copyHash][collector];
+    }
+}
@@ -0,0 +1,58 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import './Mintable.sol';
+
+/**
+ * @notice A Mintable contract pricing copies on a linear bonding curve. The first copy costs the mintAmount of
+ * the rule, and each copy minted raises the price of the next one by a fixed increment. The creator sets up the
+ * rule with the increment on top of the validation info of the {Mintable} contract. Extensions are charged with
+ * the extendAmount of the rule.
+ */
+contract BondingCurveMintable is Mintable {
+
+    event SetupCurve(bytes32 indexed copyHash, uint256 increment);
+
+    // copyHash => price increase per copy minted
+    mapping(bytes32 => uint256) private _increments;
+
+    constructor (address copyContract_) Mintable(copyContract_) {}
+
+    /**
+     * @dev The ruleData is the abi encoded ValidationInfo followed by the price increment. The increment of a
+     * guarded rule cannot be raised once minting has started
+     *
+     * @inheritdoc IMintable
+     */
+    function setupRule(bytes32 copyHash, bytes calldata ruleData) public override {
+        bool guarded = getValidationInfo(copyHash).guarded;
+        super.setupRule(copyHash, ruleData);
+        (, uint256 increment) = abi.decode(ruleData, (ValidationInfo, uint256));
+        if (guarded && getMintCount(copyHash) > 0) {
+            require(increment <= _increments[copyHash], "Mintable: Price Raised After Minting");
+        }
+        _increments[copyHash] = increment;
+        emit SetupCurve(copyHash, increment);
+    }
+
+    /**
+     * @dev The price of the next copy on the curve, prorated over the duration if the rule is fragmented
+     *
+     * @inheritdoc IPaidMintable
+     */
+    function quote(bytes32 copyHash, uint64 duration) public view override returns (uint256) {
+        ValidationInfo memory valInfo = getValidationInfo(copyHash);
+        return _getFee(valInfo, getPrice(copyHash), duration);
+    }
+
+    /**
+     * @return price the price of the next copy for the full duration of the rule
+     */
+    function getPrice(bytes32 copyHash) public view returns (uint256) {
+        return getValidationInfo(copyHash).mintAmount + _increments[copyHash] * getMintCount(copyHash);
+    }
+
+    function getIncrement(bytes32 copyHash) external view returns (uint256) {
+        return _increments[copyHash];
+    }
+}
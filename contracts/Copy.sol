@@ -1,55 +1,53 @@
 // SPDX-License-Identifier: MIT
 pragma solidity 0.8.10;
 
-import '@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol';
-import '@openzeppelin/contracts/access/Ownable.sol';
+import '@openzeppelin/contracts/interfaces/IERC2981.sol';
 
-import './interfaces/IERC721Copy/IMintable.sol';
+import './interfaces/IPaidMintable.sol';
+import './interfaces/IERC5192.sol';
+import './interfaces/IERC4907.sol';
 import './interfaces/ICopy.sol';
+import './interfaces/ICopyRenderer.sol';
+import './CopyBase.sol';
 
 import 'hardhat/console.sol';
 
 /**
- * @notice This is an implementation of the ICopy interface.
+ * @notice This is an implementation of the ICopy interface. The functions that mint, burn and update the copy NFTs
+ * are run by its extensions in the context of this contract, see {CopyExtension} and {CopyRevocationExtension}
  */
-contract Copy is Ownable, ERC721Enumerable, ICopy {
+contract Copy is CopyBase, ICopy, IERC2981, IERC5192, IERC4907 {
     using Strings for uint256;
 
     event WhiteListMintable(address mitnable, bool state);
+    event WhiteListOperator(address operator, bool state);
+    event SetRenderer(address renderer);
+    event SetCreatorRoyalty(address indexed creatorContract, uint256 indexed creatorId, uint96 royaltyBps);
 
-    uint64 private constant MAX_UINT64 = 0xffffffffffffffff;
-    address internal _creatorContract;
-    // mapping for tokenId generation address => creatorId => tokenId
-    mapping(address=>mapping(uint256=>uint256)) private _tokenCounter;
-
-    // tokenId => CopyInfo
-    mapping(uint256 => CopyInfo) private _copyInfo;
-    // creatorId => index => tokenId
-    mapping(uint256 => mapping(uint256 => uint256)) private _copys;
-    // creatorId => copy_count
-    mapping(uint256 => uint256) private _copyCount;
-    // tokenId => index
-    mapping(uint256 => uint256) private _copyIndex;
-
-    // creatorId => copyRules (For Record Keeping, mint info cannot be deleted once set)
-    mapping(uint256 => bytes32[]) _copyHashes;
-    mapping(bytes32 => MintInfo) private _mintInfo;
-    mapping(bytes32 => State) private _states;
-
-    mapping(address => bool) private _whiteListedMintable;
+    // the contracts running the delegated functions, see {_delegate}
+    address private immutable _extension;
+    address private immutable _revocationExtension;
 
     /**
      * @notice initializer
      *
      * @param creatorContract_ The NFT contract of the creator NFT
+     * @param trustedForwarder_ The ERC-2771 forwarder relaying the requests signed by collectors and creators
+     * @param extension_ The {CopyExtension} deployed with the same trusted forwarder
+     * @param revocationExtension_ The {CopyRevocationExtension} deployed with the same trusted forwarder
      *
      */
     constructor (
         string memory name_, 
         string memory symbol_,
-        address creatorContract_
-    ) ERC721(name_, symbol_) {
+        address creatorContract_,
+        address trustedForwarder_,
+        address extension_,
+        address revocationExtension_
+    ) ERC721(name_, symbol_) ERC2771Context(trustedForwarder_) {
         _creatorContract = creatorContract_;
+        _extension = extension_;
+        _revocationExtension = revocationExtension_;
     }
 
     function whiteListMintableContract(
@@ -66,190 +64,244 @@ contract Copy is Ownable, ERC721Enumerable, ICopy {
         emit WhiteListMintable(mintable, false);
     }
 
-    
-    /// @inheritdoc IERC721Copy
-    function setMintableRule(
-        MintInfo memory mintInfo,
-        bytes calldata mintableInitData
-    ) external virtual override returns (bytes32) {
-        require(
-            _isApprovedOrCreator(_msgSender(), mintInfo.creatorId),
-            'Copy: caller is not creator nor approved'
-        );
-        require(_whiteListedMintable[mintInfo.mintable], 'Copy: Invalid Mintable Rule');
-
-        bytes32 copyHash = _getHash(mintInfo);
-        
-        if ( _states[copyHash] == State.NIL ) {
-            _copyHashes[mintInfo.creatorId].push(copyHash);
-            _mintInfo[copyHash] = mintInfo;
-        }
+    /**
+     * @notice Whitelists a contract that mints and extends copy NFTs on behalf of its callers, such as the Helper.
+     * It must only charge the ERC20 fees of a rule to its own caller, see {_checkPayer}
+     */
+    function whiteListOperator(
+        address operator
+    ) external onlyOwner {
+        _whiteListedOperator[operator] = true;
+        emit WhiteListOperator(operator, true);
+    }
 
-        _states[copyHash] = State.EXIST;
-                
-        IMintable(mintInfo.mintable).setupRule(copyHash, mintableInitData);
-                
-        emit SetMintableRule(copyHash, mintInfo);
-        return copyHash;
+    function removeOperator(
+        address operator
+    ) external onlyOwner {
+        _whiteListedOperator[operator] = false;
+        emit WhiteListOperator(operator, false);
     }
 
-    /// @inheritdoc IERC721Copy
-    function pauseMintableRule(
-        bytes32 copyHash
-    ) external virtual override {
-        require(
-            _isApprovedOrCreator(_msgSender(), _mintInfo[copyHash].creatorId),
-            'Copy: caller is not creator nor approved'
-        );
-        _states[copyHash] = State.PAUSED; // disable copying
-        emit PauseMintableRule(copyHash);
+    /**
+     * @notice Sets the contract that renders the metadata of the copies, see {ICopyRenderer}
+     *
+     * @param renderer The renderer contract, or address(0) to return the copyURI as the tokenURI
+     */
+    function setRenderer(
+        address renderer
+    ) external onlyOwner {
+        _renderer = renderer;
+        emit SetRenderer(renderer);
     }
 
-    /// @inheritdoc IERC721Copy
-    function create(address to, bytes32 copyHash, uint64 duration) external virtual payable override returns (uint256) {
-        require(_states[copyHash] == State.EXIST, 'Copy: Copying Disabled');
-        IMintable(_mintInfo[copyHash].mintable).isMintable{value: msg.value}(to, copyHash, duration);
-        
-        uint256 tokenId = _mintToken(to, _mintInfo[copyHash].creatorId);
-        _register(tokenId, copyHash, duration);
+    function getRenderer() external view returns (address) {
+        return _renderer;
+    }
 
-        emit Create(tokenId, copyHash, _copyInfo[tokenId].expireAt);
-        return tokenId;
+    function getExtensions() external view returns (address, address) {
+        return (_extension, _revocationExtension);
     }
-    
-    /// @inheritdoc IERC721Copy
-    function revoke(uint256 tokenId) external virtual override  {
-        require(isRevokable(tokenId), 'Copy: Non-revokable');
+
+    /**
+     * @notice Sets the default royalty of the copies minted based on a creator token. A rule overrides it by
+     * encoding its own royalty in the mintInfoAdditional, see {getRoyalty}
+     *
+     * @param creatorContract The creator NFT contract
+     * @param creatorId The creator NFT token Id
+     * @param royaltyBps The royalty in basis points of the sale price
+     */
+    function setCreatorRoyalty(
+        address creatorContract,
+        uint256 creatorId,
+        uint96 royaltyBps
+    ) public {
         require(
-            _isApprovedOrCreator(_msgSender(), creatorOf(tokenId)),
+            _isApprovedOrCreator(_msgSender(), creatorContract, creatorId),
             'Copy: caller is not creator nor approved'
         );
-        _deregisterAndBurn(tokenId);
-        emit Revoke(tokenId);
+        require(royaltyBps <= ROYALTY_DENOMINATOR, 'Copy: Invalid Royalty');
+        _creatorRoyalty[_creatorKey(creatorContract, creatorId)] = royaltyBps;
+        emit SetCreatorRoyalty(creatorContract, creatorId, royaltyBps);
     }
 
-    /// @inheritdoc IERC721Copy
-    function destroy(uint256 tokenId) external virtual override {
-        require(
-            _isApprovedOrOwner(_msgSender(), tokenId),
-            'ERC721: caller is not token owner nor approved'
-        );
-        _deregisterAndBurn(tokenId);
-        emit Destroy(tokenId);
+    function setCreatorRoyalty(uint256 creatorId, uint96 royaltyBps) external {
+        setCreatorRoyalty(_creatorContract, creatorId, royaltyBps);
     }
 
-    /// @inheritdoc IERC721Copy
-    function extend(
-        uint256 tokenId,
-        uint64 duration
-    ) external virtual payable override returns (uint64) {
-        bytes32 copyHash = _copyInfo[tokenId].copyHash;
-        require(State.EXIST != State.NIL, 'Copy: Mint info not set'); 
-        require(isExtendable(tokenId), 'Copy: Non-extendable');
-        
-        IMintable(_mintInfo[copyHash].mintable).isExtendable{value: msg.value}(
-            ownerOf(tokenId),
-            copyHash,
-            duration // duration to extend
-        );
-        // The expiration date will be extended by the duration if the token is not yet expired
-        // Else, the expiration date will be added to the current block timestamp
-        _copyInfo[tokenId].expireAt = _copyInfo[tokenId].expireAt < uint64(block.timestamp)
-            ? _add(uint64(block.timestamp), duration)
-            : _add(_copyInfo[tokenId].expireAt, duration);
-        emit Extend(tokenId, _copyInfo[tokenId].expireAt);
-        return _copyInfo[tokenId].expireAt;
+    function getCreatorRoyalty(address creatorContract, uint256 creatorId) public view returns (uint96) {
+        return _creatorRoyalty[_creatorKey(creatorContract, creatorId)];
     }
 
-    /// @inheritdoc IERC721Copy
-    function update(uint256 tokenId) external virtual override returns (string memory) {
-        require(isUpdatable(tokenId), 'Copy: Non-updatable');
-        require(
-            _isApprovedOrOwner(_msgSender(), tokenId),
-            'ERC721: caller is not token owner nor approved'
-        );
-        _copyInfo[tokenId].copyURI = _fetchURIForCopy(creatorOf(tokenId));
-        emit Update(tokenId, _copyInfo[tokenId].copyURI);
-        return _copyInfo[tokenId].copyURI;
+    function getCreatorRoyalty(uint256 creatorId) external view returns (uint96) {
+        return getCreatorRoyalty(_creatorContract, creatorId);
     }
 
     /**
-     * @dev Register the information of a newly minted token Id.
+     * @notice The royalty of the copies minted with a rule. The first word of the mintInfoAdditional of the rule is
+     * the royalty as an abi encoded uint96 in basis points. The royalty of the creator is used if it is empty
      *
-     * @param tokenId The copy NFT token Id
-     * @param copyHash The hash of the copy configuration
+     * @param copyHash The hash of the mintInfo
+     *
+     * @return uint96 Returns the royalty in basis points of the sale price
      */
-    function _register(
-        uint256 tokenId,
-        bytes32 copyHash,
-        uint64 duration
-    ) internal {
-        uint256 creatorId = _mintInfo[copyHash].creatorId;
-        uint256 copyCount = ++_copyCount[creatorId];
-        _copys[creatorId][copyCount] = tokenId;
-        _copyIndex[tokenId] = copyCount;
-
-        _copyInfo[tokenId].copyURI = _fetchURIForCopy(creatorId);
-        _copyInfo[tokenId].expireAt = _add(uint64(block.timestamp), duration);
-        _copyInfo[tokenId].copyHash = copyHash;
+    function getRoyalty(bytes32 copyHash) public view returns (uint96) {
+        MintInfo storage mintInfo = _mintInfo[copyHash];
+        if (mintInfo.mintInfoAdditional.length == 0) {
+            return getCreatorRoyalty(mintInfo.creatorContract, mintInfo.creatorId);
+        }
+        return _decodeRoyalty(mintInfo.mintInfoAdditional);
     }
 
     /**
-     * @dev Remove the copy NFT token from the mappings. And clear the memory of the copy NFT token information
+     * @notice The royalty is paid to the current holder of the creator token, if it has not been burned, or to
+     * the payment splitter of its co-authors, see {ICreator-getSplitter}
      *
-     * @param tokenId The copy NFT token Id
+     * @inheritdoc IERC2981
      */
-    function _deregister(uint256 tokenId) internal virtual {
-        uint256 creatorId = creatorOf(tokenId);
-        uint256 copyIndex = _copyIndex[tokenId];
-        uint256 lastCopyIndex = _copyCount[creatorId]--;
-        if (copyIndex < lastCopyIndex) {
-            _copys[creatorId][copyIndex] = _copys[creatorId][lastCopyIndex];
-            _copyIndex[_copys[creatorId][lastCopyIndex]] = copyIndex;
+    function royaltyInfo(
+        uint256 tokenId,
+        uint256 salePrice
+    ) external view virtual override returns (address, uint256) {
+        require(_exists(tokenId), 'Copy: royalty query for nonexistent token');
+        bytes32 copyHash = _copyInfo[tokenId].copyHash;
+        address receiver = _creatorHolder(_mintInfo[copyHash].creatorContract, _mintInfo[copyHash].creatorId);
+        // no royalty is due once the creator token is burned
+        if (receiver == address(0)) {
+            return (address(0), 0);
+        }
+        address splitter = _fetchSplitter(_mintInfo[copyHash].creatorContract, _mintInfo[copyHash].creatorId);
+        if (splitter != address(0)) {
+            receiver = splitter;
         }
-        delete _copys[creatorId][lastCopyIndex];
-        delete _copyIndex[tokenId];
-        delete _copyInfo[tokenId];
+        return (receiver, salePrice * getRoyalty(copyHash) / ROYALTY_DENOMINATOR);
     }
 
     /**
-     * @notice Deregister, clear up information related to a copy NFT and burn the NFT
-     *
-     * @param tokenId The copy NFT token Id
+     * @notice Rules without a creatorContract are based on a token of the default creator contract. Any other
+     * creator contract must implement {IERC721Metadata}
      *
+     * @inheritdoc IERC721Copy
      */
-    function _deregisterAndBurn(uint256 tokenId) internal virtual {
-        _deregister(tokenId);
-        _burn(tokenId);
+    function setMintableRule(MintInfo memory, bytes calldata) external virtual override returns (bytes32) {
+        _delegate(_extension);
+    }
+
+    /// @inheritdoc IERC721Copy
+    function pauseMintableRule(bytes32) external virtual override {
+        _delegate(_extension);
+    }
+
+    /// @inheritdoc IERC721Copy
+    function resumeMintableRule(bytes32) external virtual override {
+        _delegate(_extension);
+    }
+
+    /// @inheritdoc IERC721Copy
+    function closeMintableRule(bytes32) external virtual override {
+        _delegate(_extension);
+    }
+
+    /// @inheritdoc IERC721Copy
+    function create(address, bytes32, uint64) external virtual payable override returns (uint256) {
+        _delegate(_extension);
+    }
+
+    /// @inheritdoc ICopy
+    function create(address, bytes32, uint64, bytes calldata) external virtual payable override returns (uint256) {
+        _delegate(_extension);
+    }
+
+    /// @inheritdoc IERC721Copy
+    function revoke(uint256) external virtual override {
+        _delegate(_revocationExtension);
+    }
+
+    /// @inheritdoc ICopy
+    function revoke(uint256, uint16, string calldata, uint64, bool) external virtual payable override {
+        _delegate(_revocationExtension);
+    }
+
+    /// @inheritdoc ICopy
+    function executeRevocation(uint256) external virtual payable override {
+        _delegate(_revocationExtension);
+    }
+
+    /// @inheritdoc ICopy
+    function cancelRevocation(uint256) external virtual override {
+        _delegate(_revocationExtension);
+    }
+
+    /// @inheritdoc IERC721Copy
+    function destroy(uint256) external virtual override {
+        _delegate(_revocationExtension);
+    }
+
+    /// @inheritdoc IERC721Copy
+    function extend(uint256, uint64) external virtual payable override returns (uint64) {
+        _delegate(_extension);
+    }
+
+    /// @inheritdoc ICopy
+    function extend(uint256, uint64, bytes calldata) external virtual payable override returns (uint64) {
+        _delegate(_extension);
+    }
+
+    /// @inheritdoc ICopy
+    function setSubscription(uint256, uint64, uint64) external virtual override {
+        _delegate(_extension);
+    }
+
+    /// @inheritdoc ICopy
+    function renew(uint256) external virtual override returns (uint64) {
+        _delegate(_extension);
     }
 
     /**
-     * @notice SafeMint a new copy NFT token
-     *
-     * @param to The address to mint the NFT token tos
-     * @param creatorId The creatorId 
+     * @notice The rental cannot outlast the copy NFT. It ends when the copy NFT is transferred or burnt
      *
-     * @return uint256 Returns the newly minted token Id
+     * @inheritdoc IERC4907
      */
-    function _mintToken(address to, uint256 creatorId) internal returns (uint256) {
-        _tokenCounter[to][creatorId]++;
-        uint256 tokenId = uint256(keccak256(abi.encode(to, creatorId, _tokenCounter[to][creatorId])));
-        _safeMint(to, tokenId);
-        return tokenId;
+    function setUser(uint256, address, uint64) external virtual override {
+        _delegate(_extension);
+    }
+
+    /// @inheritdoc IERC721Copy
+    function update(uint256) external virtual override returns (string memory) {
+        _delegate(_extension);
+    }
+
+    /// @inheritdoc ICopy
+    function update(uint256, uint64) external virtual override returns (string memory) {
+        _delegate(_extension);
+    }
+
+    /// @inheritdoc ICopy
+    function pushUpdate(bytes32, uint64, uint256, uint256) external virtual override returns (uint256) {
+        _delegate(_extension);
     }
 
     /**
-     * @notice Fetch the token URI from the creator token, using the {IERC721Metadata-tokenURI} method
-     * This function can be overriden to fetch contentUri from other functions
-     *
-     * @param creatorId The creator NFT token Id
-     *
-     * @return string Returns the token URI of the creator token
+     * @dev Run the called function with the code of an extension on the storage of this contract, returning
+     * or reverting with its result. The calldata is passed as it is, with the signer appended by the trusted
+     * forwarder if relayed. An extension running out of the gas it was given consumes the rest of it, so that
+     * the check of the trusted forwarder reverts requests relayed with too little gas, see {MinimalForwarder-execute}
      */
-    function _fetchURIForCopy(uint256 creatorId) internal view virtual returns (string memory) {
-        return IERC721Metadata(_creatorContract).tokenURI(creatorId);
+    function _delegate(address extension) internal {
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let available := gas()
+            let result := delegatecall(available, extension, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            if and(iszero(result), iszero(gt(gas(), div(available, 63)))) { invalid() }
+            switch result
+            case 0 { revert(0, returndatasize()) }
+            default { return(0, returndatasize()) }
+        }
     }
 
+    /**
+     * @dev Minted and burnt copies are indexed by the extension, see {CopyExtension-_register}
+     */
     function _beforeTokenTransfer(
         address from,
         address to,
@@ -257,48 +309,52 @@ contract Copy is Ownable, ERC721Enumerable, ICopy {
     ) internal virtual override {
         if (address(0) != from && address(0) != to) {
             // disable transfer if the token is not transferable. It does not apply to mint/burn action
-            require(isTransferable(tokenId), 'Copy: Non-transferable');
+            _checkTransfer(tokenId, to);
+            bytes32 creatorKey = _creatorKeyOf(tokenId);
+            _removeHeldCopy(from, creatorKey, tokenId);
+            _addHeldCopy(to, creatorKey, tokenId);
+            if (_clearUser(tokenId, creatorKey)) {
+                emit UpdateUser(tokenId, address(0), 0);
+            }
         }
         super._beforeTokenTransfer(from, to, tokenId);
     }
 
-    function _isApprovedOrCreator(address spender, uint256 creatorId)
-        internal
-        view
-        virtual
-        returns (bool)
-    {
-        address owner = IERC721(_creatorContract).ownerOf(creatorId);
-        return
-            owner == spender ||
-            IERC721(_creatorContract).getApproved(creatorId) == spender ||
-            IERC721(_creatorContract).isApprovedForAll(owner, spender);
+    /**
+     * @dev Revert if the transfer mode of the rule of a copy NFT does not allow transferring it to the recipient
+     */
+    function _checkTransfer(uint256 tokenId, address to) internal view virtual {
+        require(!isExpired(tokenId), 'Copy: Non-transferable');
+        require(!isPendingRevocation(tokenId), 'Copy: Pending Revocation');
+        bytes32 copyHash = _copyInfo[tokenId].copyHash;
+        (TransferMode mode, uint64 coolingPeriod) = getTransferMode(copyHash);
+        require(mode != TransferMode.SOULBOUND, 'Copy: Non-transferable');
+        if (mode == TransferMode.COOLING_PERIOD) {
+            require(
+                _add(_acquiredAt[tokenId], coolingPeriod) <= uint64(block.timestamp),
+                'Copy: Cooling Period Not Over'
+            );
+        } else if (mode == TransferMode.TOKEN_HOLDERS) {
+            address requiredToken = IPaidMintable(_mintInfo[copyHash].mintable).getValidationInfo(copyHash).requiredERC721Token;
+            require(
+                requiredToken == address(0) || IERC721(requiredToken).balanceOf(to) > 0,
+                'Copy: Recipient Not Token Holder'
+            );
+        }
     }
 
     /**
-     * @dev return MAX_UINT64 if the sum exceed such value
+     * @notice Fetch the payment splitter of the co-authors of the creator token, see {ICreator-getSplitter}
+     *
+     * @return address Returns the splitter, or address(0) if the creator token has a single author
      */
-    function _add(uint64 a, uint64 b) internal pure returns (uint64) {
-        return MAX_UINT64 - a < b ? MAX_UINT64 : a + b;
+    function _fetchSplitter(address creatorContract, uint256 creatorId) internal view virtual returns (address) {
+        if (!ERC165Checker.supportsInterface(creatorContract, type(ICreator).interfaceId)) {
+            return address(0);
+        }
+        return ICreator(creatorContract).getSplitter(creatorId);
     }
 
-    function _getHash(
-        MintInfo memory mintInfo
-    ) internal pure returns (bytes32) {
-        return
-            keccak256(
-                abi.encode(
-                    mintInfo.creatorId,
-                    mintInfo.mintable,
-                    mintInfo.transferable,
-                    mintInfo.revokable,
-                    mintInfo.extendable,
-                    mintInfo.updatable,
-                    mintInfo.statement
-                )
-            );
-    }
-    
     /**
      * @dev See {IERC165-supportsInterface}.
      */
@@ -306,10 +362,15 @@ contract Copy is Ownable, ERC721Enumerable, ICopy {
         public
         view
         virtual
-        override(ERC721Enumerable)
+        override(ERC721Enumerable, IERC165)
         returns (bool)
     {
-        return interfaceId == type(ICopy).interfaceId || super.supportsInterface(interfaceId);
+        return
+            interfaceId == type(ICopy).interfaceId ||
+            interfaceId == type(IERC2981).interfaceId ||
+            interfaceId == type(IERC5192).interfaceId ||
+            interfaceId == type(IERC4907).interfaceId ||
+            super.supportsInterface(interfaceId);
     }
 
     /**
@@ -317,6 +378,9 @@ contract Copy is Ownable, ERC721Enumerable, ICopy {
      */
     function tokenURI(uint256 tokenId) public view virtual override returns (string memory) {
         require(_exists(tokenId), 'ERC721Metadata: URI query for nonexistent token');
+        if (_renderer != address(0)) {
+            return ICopyRenderer(_renderer).tokenURI(address(this), tokenId);
+        }
         return _copyInfo[tokenId].copyURI;
     }
 
@@ -327,7 +391,12 @@ contract Copy is Ownable, ERC721Enumerable, ICopy {
 
     /// @inheritdoc ICopy
     function getCopyCount(uint256 creatorId) external view virtual override returns (uint256) {
-        return _copyCount[creatorId];
+        return getCopyCount(_creatorContract, creatorId);
+    }
+
+    /// @inheritdoc ICopy
+    function getCopyCount(address creatorContract, uint256 creatorId) public view virtual override returns (uint256) {
+        return _copyCount[_creatorKey(creatorContract, creatorId)];
     }
 
     /// @inheritdoc ICopy
@@ -338,8 +407,20 @@ contract Copy is Ownable, ERC721Enumerable, ICopy {
         override 
         returns (uint256)
     {
-        require(index <= _copyCount[creatorId], 'Copy: Index Out Of Bounds');
-        return _copys[creatorId][index];
+        return getCopyByIndex(_creatorContract, creatorId, index);
+    }
+
+    /// @inheritdoc ICopy
+    function getCopyByIndex(address creatorContract, uint256 creatorId, uint256 index)
+        public
+        view
+        virtual
+        override
+        returns (uint256)
+    {
+        bytes32 creatorKey = _creatorKey(creatorContract, creatorId);
+        require(index <= _copyCount[creatorKey], 'Copy: Index Out Of Bounds');
+        return _copys[creatorKey][index];
     }
 
     /// @inheritdoc ICopy
@@ -349,27 +430,52 @@ contract Copy is Ownable, ERC721Enumerable, ICopy {
 
     /// @inheritdoc IERC721Copy
     function isTransferable(uint256 tokenId) public view virtual override returns (bool) {
-        return _mintInfo[_copyInfo[tokenId].copyHash].transferable && !isExpired(tokenId);
+        (TransferMode mode, uint64 coolingPeriod) = getTransferMode(_copyInfo[tokenId].copyHash);
+        if (mode == TransferMode.SOULBOUND || isExpired(tokenId) || isPendingRevocation(tokenId)) {
+            return false;
+        }
+        // copies of the TOKEN_HOLDERS mode are transferable, to holders of the required token only
+        return mode != TransferMode.COOLING_PERIOD || _add(_acquiredAt[tokenId], coolingPeriod) <= uint64(block.timestamp);
+    }
+
+    /**
+     * @notice Copies of rules that are not transferable are soulbound, other copies are never locked even though
+     * they cannot be transferred once expired, see {isTransferable}
+     *
+     * @inheritdoc IERC5192
+     */
+    function locked(uint256 tokenId) external view virtual override returns (bool) {
+        require(_exists(tokenId), 'Copy: lock query for nonexistent token');
+        return !_mintInfo[_copyInfo[tokenId].copyHash].transferable;
     }
 
     /// @inheritdoc IERC721Copy
     function isUpdatable(uint256 tokenId) public view virtual override returns (bool) {
-        return _mintInfo[_copyInfo[tokenId].copyHash].updatable && !isExpired(tokenId);
+        return _isUpdatable(tokenId);
     }
 
-    /// @inheritdoc IERC721Copy
+    /**
+     * @notice The copy NFTs of a burned creator token are revokable only with the FALLBACK_REVOKER policy
+     *
+     * @inheritdoc IERC721Copy
+     */
     function isRevokable(uint256 tokenId) public view virtual override returns (bool) {
-        return _mintInfo[_copyInfo[tokenId].copyHash].revokable || isExpired(tokenId);
+        return _isRevokable(tokenId);
     }
 
-    /// @inheritdoc IERC721Copy
+    /**
+     * @notice The FREEZE and EXPIRE policies override the expiry once the creator token is burned, see
+     * {getOrphanPolicy}. Frozen copies are expired if they had expired at the time of the burn
+     *
+     * @inheritdoc IERC721Copy
+     */
     function isExpired(uint256 tokenId) public view virtual override returns (bool) {
-        return _copyInfo[tokenId].expireAt < uint64(block.timestamp);
+        return _isExpired(tokenId);
     }
 
     /// @inheritdoc IERC721Copy
     function isExtendable(uint256 tokenId) public view virtual override returns (bool) {
-        return _mintInfo[_copyInfo[tokenId].copyHash].extendable;
+        return _isExtendable(tokenId);
     }
 
     /// @inheritdoc IERC721Copy
@@ -377,6 +483,11 @@ contract Copy is Ownable, ERC721Enumerable, ICopy {
         return _mintInfo[_copyInfo[tokenId].copyHash].creatorId;
     }
 
+    /// @inheritdoc ICopy
+    function creatorTokenOf(uint256 tokenId) public view virtual override returns (address, uint256) {
+        return _creatorTokenOf(tokenId);
+    }
+
     /// @inheritdoc IERC721Copy
     function expireAt(uint256 tokenId) external view virtual override returns (uint64) {
         return _copyInfo[tokenId].expireAt;
@@ -397,25 +508,176 @@ contract Copy is Ownable, ERC721Enumerable, ICopy {
         return _mintInfo[copyHash];
     }
 
+    /// @inheritdoc ICopy
+    function getTransferMode(bytes32 copyHash) public view virtual override returns (TransferMode, uint64) {
+        MintInfo storage mintInfo = _mintInfo[copyHash];
+        if (!mintInfo.transferable) {
+            return (TransferMode.SOULBOUND, 0);
+        }
+        return _decodeTransferMode(mintInfo.mintInfoAdditional);
+    }
+
+    /// @inheritdoc ICopy
+    function isRentable(uint256 tokenId) public view virtual override returns (bool) {
+        return _isRentable(tokenId);
+    }
+
+    /// @inheritdoc ICopy
+    function isPushable(bytes32 copyHash) public view virtual override returns (bool) {
+        return _isPushable(copyHash);
+    }
+
+    /// @inheritdoc ICopy
+    function getOrphanPolicy(bytes32 copyHash) public view virtual override returns (OrphanPolicy, address) {
+        return _getOrphanPolicy(copyHash);
+    }
+
+    /// @inheritdoc ICopy
+    function isOrphaned(uint256 tokenId) public view virtual override returns (bool) {
+        return _isOrphaned(tokenId);
+    }
+
+    /// @inheritdoc IERC4907
+    function userOf(uint256 tokenId) external view virtual override returns (address) {
+        UserInfo memory info = _users[tokenId];
+        return info.expires >= uint64(block.timestamp) ? info.user : address(0);
+    }
+
+    /// @inheritdoc IERC4907
+    function userExpires(uint256 tokenId) external view virtual override returns (uint256) {
+        return _users[tokenId].expires;
+    }
+
+    /// @inheritdoc ICopy
+    function acquiredAt(uint256 tokenId) external view virtual override returns (uint64) {
+        return _acquiredAt[tokenId];
+    }
+
+    /// @inheritdoc IERC721Copy
+    function getRuleState(bytes32 copyHash) external view virtual override returns (State) {
+        return _states[copyHash];
+    }
+
     /// @inheritdoc ICopy
     function getCopyHashes(uint256 creatorId) external view virtual override returns (bytes32[] memory) {
-        return _copyHashes[creatorId];
+        return getCopyHashes(_creatorContract, creatorId);
+    }
+
+    /// @inheritdoc ICopy
+    function getCopyHashes(
+        address creatorContract,
+        uint256 creatorId
+    ) public view virtual override returns (bytes32[] memory) {
+        return _copyHashes[_creatorKey(creatorContract, creatorId)];
+    }
+
+    /// @inheritdoc ICopy
+    function getRevocation(uint256 tokenId) external view virtual override returns (Revocation memory) {
+        return _revocations[tokenId];
+    }
+
+    /// @inheritdoc ICopy
+    function isPendingRevocation(uint256 tokenId) public view virtual override returns (bool) {
+        return _isPendingRevocation(tokenId);
+    }
+
+    /// @inheritdoc ICopy
+    function getSubscription(uint256 tokenId) external view virtual override returns (Subscription memory) {
+        return _subscriptions[tokenId];
     }
 
     /// @inheritdoc ICopy
     function hasValidCopy(address collector, uint256 creatorId) external view virtual override returns (bool) {
-        uint256 count = balanceOf(collector);
-        for (uint256 i = 0; i < count; i++) {
-            uint256 copyId = tokenOfOwnerByIndex(collector, i);
-            if (creatorOf(copyId) == creatorId && ! isExpired((copyId))) {
-                return true;
+        return hasValidCopy(collector, _creatorContract, creatorId);
+    }
+
+    /// @inheritdoc ICopy
+    function hasValidCopy(
+        address collector,
+        address creatorContract,
+        uint256 creatorId
+    ) public view virtual override returns (bool) {
+        bytes32 creatorKey = _creatorKey(creatorContract, creatorId);
+        uint64 latestExpiry = _latestExpiry(collector, creatorKey);
+        // the latest expiry is 0 only when the collector holds no copy NFT of the creator token
+        if (latestExpiry == 0) {
+            return false;
+        }
+        if (_creatorHolder(creatorContract, creatorId) == address(0)) {
+            // the orphan policies of the rules override the expiry of the copies, see {isExpired}
+            uint64[3] storage latestExpiries = _latestExpiries[collector][creatorKey];
+            uint64 burnedAt = _fetchBurnedAt(creatorContract, creatorId);
+            return
+                latestExpiries[uint8(OrphanPolicy.FREEZE)] >= (burnedAt > 0 ? burnedAt : uint64(block.timestamp)) ||
+                latestExpiries[uint8(OrphanPolicy.FALLBACK_REVOKER)] >= uint64(block.timestamp);
+        }
+        return latestExpiry >= uint64(block.timestamp);
+    }
+
+    /// @inheritdoc ICopy
+    function hasValidUse(address account, uint256 creatorId) external view virtual override returns (bool) {
+        return hasValidUse(account, _creatorContract, creatorId);
+    }
+
+    /// @inheritdoc ICopy
+    function hasValidUse(
+        address account,
+        address creatorContract,
+        uint256 creatorId
+    ) public view virtual override returns (bool) {
+        bytes32 creatorKey = _creatorKey(creatorContract, creatorId);
+        if (_latestExpiry(account, creatorKey) == 0 && _latestUse[account][creatorKey] == 0) {
+            return false;
+        }
+        if (_creatorHolder(creatorContract, creatorId) == address(0)) {
+            if (hasValidCopy(account, creatorContract, creatorId)) return true;
+            uint256[] storage rented = _rentedCopies[account][creatorKey];
+            for (uint256 i = 0; i < rented.length; i++) {
+                if (_users[rented[i]].expires >= uint64(block.timestamp) && !isExpired(rented[i])) return true;
             }
+            return false;
         }
-        return false;
+        return
+            _latestExpiry(account, creatorKey) >= uint64(block.timestamp) ||
+            _latestUse[account][creatorKey] >= uint64(block.timestamp);
+    }
+
+    /// @inheritdoc ICopy
+    function validCopiesOf(address collector, uint256 creatorId) external view virtual override returns (uint256[] memory) {
+        return validCopiesOf(collector, _creatorContract, creatorId);
+    }
+
+    /// @inheritdoc ICopy
+    function validCopiesOf(
+        address collector,
+        address creatorContract,
+        uint256 creatorId
+    ) public view virtual override returns (uint256[] memory) {
+        uint256[] storage copies = _heldCopies[collector][_creatorKey(creatorContract, creatorId)];
+        uint256 count = 0;
+        for (uint256 i = 0; i < copies.length; i++) {
+            if (!isExpired(copies[i])) count++;
+        }
+
+        uint256[] memory validCopies = new uint256[](count);
+        uint256 index = 0;
+        for (uint256 i = 0; i < copies.length; i++) {
+            if (!isExpired(copies[i])) validCopies[index++] = copies[i];
+        }
+        return validCopies;
     }
 
     /// @inheritdoc ICopy
     function tokenCounter(address collector, uint256 creatorId) external view override returns (uint256) {
-        return _tokenCounter[collector][creatorId];
+        return tokenCounter(collector, _creatorContract, creatorId);
+    }
+
+    /// @inheritdoc ICopy
+    function tokenCounter(
+        address collector,
+        address creatorContract,
+        uint256 creatorId
+    ) public view override returns (uint256) {
+        return _tokenCounter[collector][_creatorKey(creatorContract, creatorId)];
     }
 }
@@ -0,0 +1,396 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.10;
+
+import '@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol';
+import '@openzeppelin/contracts/access/Ownable.sol';
+import '@openzeppelin/contracts/utils/introspection/ERC165Checker.sol';
+import '@openzeppelin/contracts/metatx/ERC2771Context.sol';
+
+import './interfaces/ICopy.sol';
+import './interfaces/ICreator.sol';
+
+/**
+ * @notice The storage and the internal functions shared by the Copy contract and its extensions. The extensions run
+ * the functions that mint, burn and update the copy NFTs in the context of the Copy contract, so they must all keep
+ * the same storage layout, see {CopyExtension} and {CopyRevocationExtension}
+ */
+abstract contract CopyBase is ERC2771Context, Ownable, ERC721Enumerable {
+
+    event SetSubscription(uint256 indexed tokenId, uint64 duration, uint64 periods);
+    event Renew(uint256 indexed tokenId, uint64 expiry, uint64 periods);
+    event ScheduleRevocation(uint256 indexed tokenId, uint16 reason, string reasonURI, uint64 effectiveAt, bool refund);
+    event CancelRevocation(uint256 indexed tokenId);
+    event RevokeReason(uint256 indexed tokenId, uint16 reason, string reasonURI, uint256 refund);
+    event UpdateVersion(uint256 indexed tokenId, uint64 version);
+    event PushUpdate(bytes32 indexed copyHash, uint64 version, uint256 fromIndex, uint256 toIndex);
+
+    uint64 internal constant MAX_UINT64 = 0xffffffffffffffff;
+    uint96 internal constant ROYALTY_DENOMINATOR = 10000;
+    // the default creator NFT contract, used by rules that do not set their own creatorContract
+    address internal _creatorContract;
+    // the creator tokens are keyed by their contract and token Id, see {_creatorKey}
+    // mapping for tokenId generation address => creatorKey => tokenId
+    mapping(address=>mapping(bytes32=>uint256)) internal _tokenCounter;
+
+    // tokenId => CopyInfo
+    mapping(uint256 => ICopy.CopyInfo) internal _copyInfo;
+    // creatorKey => index => tokenId
+    mapping(bytes32 => mapping(uint256 => uint256)) internal _copys;
+    // creatorKey => copy_count
+    mapping(bytes32 => uint256) internal _copyCount;
+    // tokenId => index
+    mapping(uint256 => uint256) internal _copyIndex;
+
+    // creatorKey => copyRules (For Record Keeping, mint info cannot be deleted once set)
+    mapping(bytes32 => bytes32[]) _copyHashes;
+    mapping(bytes32 => IERC721Copy.MintInfo) internal _mintInfo;
+    mapping(bytes32 => IERC721Copy.State) internal _states;
+
+    mapping(address => bool) internal _whiteListedMintable;
+    // contracts minting and extending copy NFTs on behalf of their callers, see {CopyExtension-_checkPayer}
+    mapping(address => bool) internal _whiteListedOperator;
+
+    // metadata renderer, tokenURI returns the raw copyURI if unset
+    address internal _renderer;
+
+    // creatorKey => default royalty in basis points, used by rules without a royalty in mintInfoAdditional
+    mapping(bytes32 => uint96) internal _creatorRoyalty;
+
+    // tokenId => subscription set by the holder
+    mapping(uint256 => ICopy.Subscription) internal _subscriptions;
+
+    // collector => creatorKey => copies held
+    mapping(address => mapping(bytes32 => uint256[])) internal _heldCopies;
+    // tokenId => index in the copies held by its holder
+    mapping(uint256 => uint256) internal _heldIndex;
+    // collector => creatorKey => latest expiry of the copies held, by the orphan policy of their rules
+    mapping(address => mapping(bytes32 => uint64[3])) internal _latestExpiries;
+
+    // tokenId => timestamp at which the holder received the copy, for the cooling period of its rule
+    mapping(uint256 => uint64) internal _acquiredAt;
+
+    // tokenId => user renting the copy from its holder
+    mapping(uint256 => ICopy.UserInfo) internal _users;
+    // user => creatorKey => copies rented
+    mapping(address => mapping(bytes32 => uint256[])) internal _rentedCopies;
+    // tokenId => index in the copies rented by its user
+    mapping(uint256 => uint256) internal _rentedIndex;
+    // user => creatorKey => latest end of the rentals
+    mapping(address => mapping(bytes32 => uint64)) internal _latestUse;
+
+    // tokenId => revocation pending until the end of its grace period
+    mapping(uint256 => ICopy.Revocation) internal _revocations;
+
+    /**
+     * @dev See {Copy-isUpdatable}
+     */
+    function _isUpdatable(uint256 tokenId) internal view returns (bool) {
+        return _mintInfo[_copyInfo[tokenId].copyHash].updatable && !_isExpired(tokenId) && !_isOrphaned(tokenId);
+    }
+
+    /**
+     * @dev See {Copy-isRevokable}
+     */
+    function _isRevokable(uint256 tokenId) internal view returns (bool) {
+        if (_isOrphaned(tokenId)) {
+            (ICopy.OrphanPolicy policy, ) = _getOrphanPolicy(_copyInfo[tokenId].copyHash);
+            return policy == ICopy.OrphanPolicy.FALLBACK_REVOKER;
+        }
+        return _mintInfo[_copyInfo[tokenId].copyHash].revokable || _isExpired(tokenId);
+    }
+
+    /**
+     * @dev See {Copy-isExpired}
+     */
+    function _isExpired(uint256 tokenId) internal view returns (bool) {
+        uint64 expiry = _copyInfo[tokenId].expireAt;
+        (ICopy.OrphanPolicy policy, ) = _getOrphanPolicy(_copyInfo[tokenId].copyHash);
+        if (policy != ICopy.OrphanPolicy.FALLBACK_REVOKER && _isOrphaned(tokenId)) {
+            if (policy == ICopy.OrphanPolicy.EXPIRE) {
+                return true;
+            }
+            (address creatorContract, uint256 creatorId) = _creatorTokenOf(tokenId);
+            uint64 burnedAt = _fetchBurnedAt(creatorContract, creatorId);
+            if (burnedAt > 0) {
+                return expiry < burnedAt;
+            }
+        }
+        return expiry < uint64(block.timestamp);
+    }
+
+    function _isExtendable(uint256 tokenId) internal view returns (bool) {
+        return _mintInfo[_copyInfo[tokenId].copyHash].extendable && !_isOrphaned(tokenId);
+    }
+
+    function _creatorTokenOf(uint256 tokenId) internal view returns (address, uint256) {
+        IERC721Copy.MintInfo storage mintInfo = _mintInfo[_copyInfo[tokenId].copyHash];
+        return (mintInfo.creatorContract, mintInfo.creatorId);
+    }
+
+    function _isRentable(uint256 tokenId) internal view returns (bool) {
+        return _decodeRentable(_mintInfo[_copyInfo[tokenId].copyHash].mintInfoAdditional) && !_isExpired(tokenId);
+    }
+
+    function _isPushable(bytes32 copyHash) internal view returns (bool) {
+        return _decodePushable(_mintInfo[copyHash].mintInfoAdditional);
+    }
+
+    function _getOrphanPolicy(bytes32 copyHash) internal view returns (ICopy.OrphanPolicy, address) {
+        return _decodeOrphanPolicy(_mintInfo[copyHash].mintInfoAdditional);
+    }
+
+    function _isOrphaned(uint256 tokenId) internal view returns (bool) {
+        return _isBurned(_copyInfo[tokenId].copyHash);
+    }
+
+    /**
+     * @dev See {Copy-isPendingRevocation}
+     */
+    function _isPendingRevocation(uint256 tokenId) internal view returns (bool) {
+        // a copy NFT no longer revokable since its creator token was burned is no longer pending revocation
+        return _revocations[tokenId].effectiveAt > 0 && _isRevokable(tokenId);
+    }
+
+    /**
+     * @dev Add a copy NFT to the index of the copies held by a collector, which keeps the latest expiry of
+     * the copies of each creator token by orphan policy for {Copy-hasValidCopy}. The copy NFT must be registered
+     */
+    function _addHeldCopy(address holder, bytes32 creatorKey, uint256 tokenId) internal {
+        _heldIndex[tokenId] = _heldCopies[holder][creatorKey].length;
+        _heldCopies[holder][creatorKey].push(tokenId);
+        _updateLatestExpiry(holder, creatorKey, tokenId);
+    }
+
+    /**
+     * @dev Remove a copy NFT from the index of the copies held by a collector. The latest expiries are
+     * recomputed from the remaining copies if the copy NFT held the one of its orphan policy
+     */
+    function _removeHeldCopy(address holder, bytes32 creatorKey, uint256 tokenId) internal {
+        uint256[] storage copies = _heldCopies[holder][creatorKey];
+        uint256 index = _heldIndex[tokenId];
+        uint256 lastTokenId = copies[copies.length - 1];
+        copies[index] = lastTokenId;
+        _heldIndex[lastTokenId] = index;
+        copies.pop();
+        delete _heldIndex[tokenId];
+
+        (ICopy.OrphanPolicy policy, ) = _getOrphanPolicy(_copyInfo[tokenId].copyHash);
+        uint64[3] storage latestExpiries = _latestExpiries[holder][creatorKey];
+        if (_copyInfo[tokenId].expireAt >= latestExpiries[uint8(policy)]) {
+            uint64[3] memory expiries;
+            for (uint256 i = 0; i < copies.length; i++) {
+                (ICopy.OrphanPolicy copyPolicy, ) = _getOrphanPolicy(_copyInfo[copies[i]].copyHash);
+                uint64 expiry = _copyInfo[copies[i]].expireAt;
+                if (expiry > expiries[uint8(copyPolicy)]) expiries[uint8(copyPolicy)] = expiry;
+            }
+            _latestExpiries[holder][creatorKey] = expiries;
+        }
+    }
+
+    /**
+     * @dev The latest expiry of the copies held by a collector, whatever their orphan policy. It is 0 only when
+     * the collector holds no copy NFT of the creator token
+     */
+    function _latestExpiry(address holder, bytes32 creatorKey) internal view returns (uint64) {
+        uint64[3] storage latestExpiries = _latestExpiries[holder][creatorKey];
+        uint64 latestExpiry = latestExpiries[0];
+        if (latestExpiries[1] > latestExpiry) latestExpiry = latestExpiries[1];
+        if (latestExpiries[2] > latestExpiry) latestExpiry = latestExpiries[2];
+        return latestExpiry;
+    }
+
+    /**
+     * @dev Remove the user of a copy NFT from the index of the copies rented, recomputing the latest end of
+     * the rentals of the user if the rental held it
+     *
+     * @return bool Returns whether the copy NFT had a user
+     */
+    function _clearUser(uint256 tokenId, bytes32 creatorKey) internal returns (bool) {
+        ICopy.UserInfo memory info = _users[tokenId];
+        if (info.user == address(0)) {
+            return false;
+        }
+
+        uint256[] storage copies = _rentedCopies[info.user][creatorKey];
+        uint256 index = _rentedIndex[tokenId];
+        uint256 lastTokenId = copies[copies.length - 1];
+        copies[index] = lastTokenId;
+        _rentedIndex[lastTokenId] = index;
+        copies.pop();
+        delete _rentedIndex[tokenId];
+        delete _users[tokenId];
+
+        if (info.expires >= _latestUse[info.user][creatorKey]) {
+            uint64 latestUse = 0;
+            for (uint256 i = 0; i < copies.length; i++) {
+                uint64 expires = _users[copies[i]].expires;
+                if (expires > latestUse) latestUse = expires;
+            }
+            _latestUse[info.user][creatorKey] = latestUse;
+        }
+        return true;
+    }
+
+    function _updateLatestExpiry(address holder, bytes32 creatorKey, uint256 tokenId) internal {
+        (ICopy.OrphanPolicy policy, ) = _getOrphanPolicy(_copyInfo[tokenId].copyHash);
+        uint64 expiry = _copyInfo[tokenId].expireAt;
+        if (expiry > _latestExpiries[holder][creatorKey][uint8(policy)]) {
+            _latestExpiries[holder][creatorKey][uint8(policy)] = expiry;
+        }
+    }
+
+    /**
+     * @dev Revert unless the sender is the holder of a copy NFT, or approved by them
+     */
+    function _checkHolder(uint256 tokenId) internal view {
+        require(_isApprovedOrOwner(_msgSender(), tokenId), 'ERC721: caller is not token owner nor approved');
+    }
+
+    /**
+     * @notice Fetch the time at which the creator token was burned, see {ICreator-burnedAt}
+     *
+     * @return uint64 Returns the timestamp, or 0 if the creator contract does not record it
+     */
+    function _fetchBurnedAt(address creatorContract, uint256 creatorId) internal view virtual returns (uint64) {
+        if (!ERC165Checker.supportsInterface(creatorContract, type(ICreator).interfaceId)) {
+            return 0;
+        }
+        return ICreator(creatorContract).burnedAt(creatorId);
+    }
+
+    /**
+     * @dev Minted and burnt copies are indexed by the extensions, see {CopyExtension-_register} and
+     * {CopyRevocationExtension-_deregister}, and transferred copies by the Copy contract
+     */
+    function _beforeTokenTransfer(
+        address from,
+        address to,
+        uint256 tokenId
+    ) internal virtual override {
+        if (address(0) != from) {
+            // the subscription is paid by the holder who set it up
+            delete _subscriptions[tokenId];
+        }
+        if (address(0) != to) {
+            _acquiredAt[tokenId] = uint64(block.timestamp);
+        } else {
+            delete _acquiredAt[tokenId];
+        }
+        super._beforeTokenTransfer(from, to, tokenId);
+    }
+
+    function _isApprovedOrCreator(address spender, address creatorContract, uint256 creatorId)
+        internal
+        view
+        virtual
+        returns (bool)
+    {
+        address owner = _creatorHolder(creatorContract, creatorId);
+        // nobody stands in for the holder of a burned creator token, see {CopyRevocationExtension-_isApprovedOrRevoker}
+        if (owner == address(0)) {
+            return false;
+        }
+        return
+            owner == spender ||
+            IERC721(creatorContract).getApproved(creatorId) == spender ||
+            IERC721(creatorContract).isApprovedForAll(owner, spender);
+    }
+
+    /**
+     * @dev Whether the spender is the holder of the creator token of a rule, or approved by them
+     */
+    function _isApprovedOrCreator(address spender, bytes32 copyHash) internal view returns (bool) {
+        IERC721Copy.MintInfo storage mintInfo = _mintInfo[copyHash];
+        return _isApprovedOrCreator(spender, mintInfo.creatorContract, mintInfo.creatorId);
+    }
+
+    /**
+     * @dev The holder of a creator token, or address(0) if the creator token does not exist, as {IERC721-ownerOf}
+     * reverts for burned tokens
+     */
+    function _creatorHolder(address creatorContract, uint256 creatorId) internal view returns (address) {
+        try IERC721(creatorContract).ownerOf(creatorId) returns (address holder) {
+            return holder;
+        } catch {
+            return address(0);
+        }
+    }
+
+    function _isBurned(bytes32 copyHash) internal view returns (bool) {
+        IERC721Copy.MintInfo storage mintInfo = _mintInfo[copyHash];
+        return _creatorHolder(mintInfo.creatorContract, mintInfo.creatorId) == address(0);
+    }
+
+    /**
+     * @dev The creator tokens of different contracts may share a token Id, so the copies and the rules are
+     * indexed by the hash of both
+     */
+    function _creatorKey(address creatorContract, uint256 creatorId) internal pure returns (bytes32) {
+        return keccak256(abi.encode(creatorContract, creatorId));
+    }
+
+    function _creatorKeyOf(uint256 tokenId) internal view returns (bytes32) {
+        IERC721Copy.MintInfo storage mintInfo = _mintInfo[_copyInfo[tokenId].copyHash];
+        return _creatorKey(mintInfo.creatorContract, mintInfo.creatorId);
+    }
+
+    /**
+     * @dev return MAX_UINT64 if the sum exceed such value
+     */
+    function _add(uint64 a, uint64 b) internal pure returns (uint64) {
+        return MAX_UINT64 - a < b ? MAX_UINT64 : a + b;
+    }
+
+    function _decodeRoyalty(bytes memory mintInfoAdditional) internal pure returns (uint96) {
+        return abi.decode(mintInfoAdditional, (uint96));
+    }
+
+    function _decodeRentable(bytes memory mintInfoAdditional) internal pure returns (bool) {
+        if (mintInfoAdditional.length <= 96) {
+            return false;
+        }
+        (, , , bool rentable) = abi.decode(mintInfoAdditional, (uint96, ICopy.TransferMode, uint64, bool));
+        return rentable;
+    }
+
+    function _decodePushable(bytes memory mintInfoAdditional) internal pure returns (bool) {
+        if (mintInfoAdditional.length <= 128) {
+            return false;
+        }
+        (, , , , bool pushable) = abi.decode(mintInfoAdditional, (uint96, ICopy.TransferMode, uint64, bool, bool));
+        return pushable;
+    }
+
+    function _decodeOrphanPolicy(bytes memory mintInfoAdditional) internal pure returns (ICopy.OrphanPolicy, address) {
+        if (mintInfoAdditional.length <= 160) {
+            return (ICopy.OrphanPolicy.FREEZE, address(0));
+        }
+        (, , , , , ICopy.OrphanPolicy policy, address fallbackRevoker) = abi.decode(
+            mintInfoAdditional,
+            (uint96, ICopy.TransferMode, uint64, bool, bool, ICopy.OrphanPolicy, address)
+        );
+        return (policy, fallbackRevoker);
+    }
+
+    function _decodeTransferMode(bytes memory mintInfoAdditional) internal pure returns (ICopy.TransferMode, uint64) {
+        if (mintInfoAdditional.length <= 32) {
+            return (ICopy.TransferMode.FREE, 0);
+        }
+        (, ICopy.TransferMode mode, uint64 coolingPeriod) = abi.decode(
+            mintInfoAdditional,
+            (uint96, ICopy.TransferMode, uint64)
+        );
+        return (mode, coolingPeriod);
+    }
+
+    /**
+     * @dev The signer of requests relayed by the trusted forwarder, see {ERC2771Context}
+     */
+    function _msgSender() internal view virtual override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view virtual override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+}
@@ -3,30 +3,56 @@ pragma solidity >=0.8.0 <0.9.0;
 
 import '@openzeppelin/contracts/token/ERC721/extensions/ERC721Enumerable.sol';
 import '@openzeppelin/contracts/utils/cryptography/ECDSA.sol';
+import '@openzeppelin/contracts/utils/cryptography/draft-EIP712.sol';
+import '@openzeppelin/contracts/finance/PaymentSplitter.sol';
+import '@openzeppelin/contracts/metatx/ERC2771Context.sol';
 
 import './interfaces/ICreator.sol';
 
 import 'hardhat/console.sol';
 
-contract Creator is ICreator, ERC721Enumerable {
+contract Creator is ICreator, ERC721Enumerable, EIP712, ERC2771Context {
     using Strings for uint256;
 
     event Publish(address to, uint256 pubId, string contentUri);
     event Update(uint256 pubId, string contentUri);
+    event AddVersion(uint256 indexed pubId, uint256 version, string contentUri, bytes32 contentHash);
+    event SetCoauthors(uint256 indexed pubId, Coauthor[] coauthors, address splitter);
 
     string private constant COPYRIGHT_TRANSFER_NOTICE = 'By signing this statement, I confirm that I am the full copyright holder of the data pointed to by the contentUri included in this signature. I willingly give up all my copyright to the holder of the newly minted NFT, in the condition that the copyright will be forever bound to, and transfer together with that newly minted NFT.';
     string private constant COPYRIGHT_ERR = 'Invalid copyright signature';
     string private constant OWNER_ERR = 'Invalid owner';
     string private constant TIME_ERR = 'Expired Signature';
+    string private constant VERSION_ERR = 'Invalid Version';
+    string private constant COAUTHOR_ERR = 'Invalid coauthors';
+    string private constant COAUTHORSHIP_NOTICE = 'By signing this statement, I confirm that I am a joint copyright holder of the data pointed to by the contentUri included in this signature, with the co-authors and shares included in this signature. I willingly give up all my copyright to the holder of the newly minted NFT, in the condition that the copyright will be forever bound to, and transfer together with that newly minted NFT.';
+
+    bytes32 private constant COPYRIGHT_TYPEHASH = keccak256('Copyright(string contentUri,bytes32 contentHash,string notice,uint256 nonce,uint256 deadline)');
+    bytes32 private constant COAUTHOR_TYPEHASH = keccak256('Coauthor(address account,uint96 weight)');
+    bytes32 private constant COAUTHORED_COPYRIGHT_TYPEHASH = keccak256(
+        'CoauthoredCopyright(string contentUri,bytes32 contentHash,string notice,address to,Coauthor[] coauthors,uint256 nonce,uint256 deadline)Coauthor(address account,uint96 weight)'
+    );
 
     mapping(address=>uint256) private _tokenCounter;
+    mapping(address=>uint256) private _nonces;
 
-    mapping(uint256 => string) private _tokenUri;
+    // pubId => versions of the content, the last one being the current tokenURI
+    mapping(uint256 => Version[]) private _versions;
+    // pubId => co-authors, empty for a single author
+    mapping(uint256 => Coauthor[]) private _coauthors;
+    // pubId => payment splitter of the royalties of the co-authors
+    mapping(uint256 => address) private _splitters;
+    // pubId => timestamp of the burn, for the orphan policies of the copies
+    mapping(uint256 => uint64) private _burnedAt;
 
-    constructor(string memory name_, string memory symbol_) ERC721(name_, symbol_) {}
+    constructor(
+        string memory name_,
+        string memory symbol_,
+        address trustedForwarder_
+    ) ERC721(name_, symbol_) EIP712(name_, '1') ERC2771Context(trustedForwarder_) {}
 
     modifier onlyOwner(uint256 pubId) {
-        require(msg.sender == ownerOf(pubId), OWNER_ERR);
+        require(_msgSender() == ownerOf(pubId), OWNER_ERR);
         _;
     }
 
@@ -36,7 +62,19 @@ contract Creator is ICreator, ERC721Enumerable {
         string memory contentUri,
         PermSig memory permSig
     ) external override returns (uint256) {
-        uint256 pubId = _create(to, contentUri, permSig);
+        uint256 pubId = _create(to, contentUri, bytes32(0), permSig);
+        _approve(operator, pubId);
+        return pubId;
+    }
+
+    function createWithOperator(
+        address to,
+        address operator,
+        string memory contentUri,
+        bytes32 contentHash,
+        PermSig memory permSig
+    ) external override returns (uint256) {
+        uint256 pubId = _create(to, contentUri, contentHash, permSig);
         _approve(operator, pubId);
         return pubId;
     }
@@ -46,17 +84,61 @@ contract Creator is ICreator, ERC721Enumerable {
         string memory contentUri,
         PermSig memory permSig
     ) external override returns (uint256) {
-        return _create(to, contentUri, permSig);
+        return _create(to, contentUri, bytes32(0), permSig);
+    }
+
+    function create(
+        address to,
+        string memory contentUri,
+        bytes32 contentHash,
+        PermSig memory permSig
+    ) external override returns (uint256) {
+        return _create(to, contentUri, contentHash, permSig);
+    }
+
+    function createWithCoauthors(
+        address to,
+        string memory contentUri,
+        bytes32 contentHash,
+        Coauthor[] memory coauthors,
+        PermSig[] memory permSigs
+    ) external override returns (uint256) {
+        require(coauthors.length > 0 && coauthors.length == permSigs.length, COAUTHOR_ERR);
+        address[] memory payees = new address[](coauthors.length);
+        uint256[] memory shares = new uint256[](coauthors.length);
+        for (uint256 i = 0; i < coauthors.length; i++) {
+            // sorted accounts cannot sign twice
+            require(i == 0 || coauthors[i - 1].account < coauthors[i].account, COAUTHOR_ERR);
+            require(coauthors[i].weight > 0, COAUTHOR_ERR);
+            payees[i] = coauthors[i].account;
+            shares[i] = coauthors[i].weight;
+        }
+        bytes32 coauthorsHash = _hashCoauthors(coauthors);
+        for (uint256 i = 0; i < coauthors.length; i++) {
+            _useCoauthorSig(coauthors[i].account, to, contentUri, contentHash, coauthorsHash, permSigs[i]);
+        }
+
+        uint256 pubId = _mintToken(to);
+        _addVersion(pubId, contentUri, contentHash);
+        for (uint256 i = 0; i < coauthors.length; i++) {
+            _coauthors[pubId].push(coauthors[i]);
+        }
+        _splitters[pubId] = address(new PaymentSplitter(payees, shares));
+
+        emit Publish(to, pubId, contentUri);
+        emit SetCoauthors(pubId, coauthors, _splitters[pubId]);
+        return pubId;
     }
 
     function _create(
         address to,
         string memory contentUri,
+        bytes32 contentHash,
         PermSig memory permSig
     ) internal virtual returns (uint256) {
-        require(_recoverSig(contentUri, permSig) == to, COPYRIGHT_ERR);
+        _useSig(to, contentUri, contentHash, permSig);
         uint256 pubId = _mintToken(to);
-        _tokenUri[pubId] = contentUri;
+        _addVersion(pubId, contentUri, contentHash);
 
         emit Publish(to, pubId, contentUri);
 
@@ -68,12 +150,36 @@ contract Creator is ICreator, ERC721Enumerable {
         string memory contentUri,
         PermSig memory permSig
     ) external override onlyOwner(pubId) {
-        require(_recoverSig(contentUri, permSig) == ownerOf(pubId), COPYRIGHT_ERR);
-        _tokenUri[pubId] = contentUri;
+        _update(pubId, contentUri, bytes32(0), permSig);
+    }
+
+    function update(
+        uint256 pubId,
+        string memory contentUri,
+        bytes32 contentHash,
+        PermSig memory permSig
+    ) external override onlyOwner(pubId) {
+        _update(pubId, contentUri, contentHash, permSig);
+    }
+
+    function _update(
+        uint256 pubId,
+        string memory contentUri,
+        bytes32 contentHash,
+        PermSig memory permSig
+    ) internal virtual {
+        _useSig(ownerOf(pubId), contentUri, contentHash, permSig);
+        _addVersion(pubId, contentUri, contentHash);
         emit Update(pubId, contentUri);
     }
 
+    function _addVersion(uint256 pubId, string memory contentUri, bytes32 contentHash) internal {
+        _versions[pubId].push(Version(contentUri, contentHash, uint64(block.timestamp)));
+        emit AddVersion(pubId, _versions[pubId].length, contentUri, contentHash);
+    }
+
     function burn(uint256 pubId) external override onlyOwner(pubId) {
+        _burnedAt[pubId] = uint64(block.timestamp);
         _burn(pubId);
     }
 
@@ -84,21 +190,82 @@ contract Creator is ICreator, ERC721Enumerable {
         return tokenId;
     }
     
+    /**
+     * @dev Verifies the EIP-712 copyright signature of the signer and consumes the signer's nonce,
+     * so that the same signature cannot be replayed before the deadline. The content hash is signed as well,
+     * bytes32(0) for content published without a hash
+     */
+    function _useSig(
+        address signer,
+        string memory contentUri,
+        bytes32 contentHash,
+        PermSig memory permSig
+    ) internal {
+        require(_recoverSig(contentUri, contentHash, _nonces[signer], permSig) == signer, COPYRIGHT_ERR);
+        _nonces[signer]++;
+    }
+
+    /**
+     * @dev Verifies the EIP-712 co-authorship signature of a co-author and consumes the co-author's nonce
+     */
+    function _useCoauthorSig(
+        address signer,
+        address to,
+        string memory contentUri,
+        bytes32 contentHash,
+        bytes32 coauthorsHash,
+        PermSig memory permSig
+    ) internal {
+        require(permSig.deadline > block.timestamp, TIME_ERR);
+        bytes32 digest = _hashTypedDataV4(keccak256(
+            abi.encode(
+                COAUTHORED_COPYRIGHT_TYPEHASH,
+                keccak256(bytes(contentUri)),
+                contentHash,
+                keccak256(bytes(COAUTHORSHIP_NOTICE)),
+                to,
+                coauthorsHash,
+                _nonces[signer],
+                permSig.deadline
+            )
+        ));
+        (address recoveredSender, ) = ECDSA.tryRecover(digest, permSig.v, permSig.r, permSig.s);
+        require(recoveredSender == signer, COPYRIGHT_ERR);
+        _nonces[signer]++;
+    }
+
+    /**
+     * @dev The EIP-712 encoding of an array of structs, the hash of the concatenated hashes of the structs
+     */
+    function _hashCoauthors(Coauthor[] memory coauthors) internal pure returns (bytes32) {
+        bytes32[] memory hashes = new bytes32[](coauthors.length);
+        for (uint256 i = 0; i < coauthors.length; i++) {
+            hashes[i] = keccak256(abi.encode(COAUTHOR_TYPEHASH, coauthors[i].account, coauthors[i].weight));
+        }
+        return keccak256(abi.encodePacked(hashes));
+    }
+
     function _recoverSig(
         string memory contentUri,
+        bytes32 contentHash,
+        uint256 nonce,
         PermSig memory permSig
     ) internal view returns (address recoveredSender) {
-        // prove that the tags are signed by the valid dapp
         // reject signature past deadline
         require(permSig.deadline > block.timestamp, TIME_ERR);
-        // convert app list into bytes
-        bytes32 messageData = keccak256(
-            abi.encode(contentUri, COPYRIGHT_TRANSFER_NOTICE, permSig.deadline)
-        );
-        bytes32 message = keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", messageData));
+        bytes32 digest = _hashTypedDataV4(keccak256(
+            abi.encode(
+                COPYRIGHT_TYPEHASH,
+                keccak256(bytes(contentUri)),
+                contentHash,
+                keccak256(bytes(COPYRIGHT_TRANSFER_NOTICE)),
+                nonce,
+                permSig.deadline
+            )
+        ));
 
         (recoveredSender, ) = ECDSA.tryRecover(
-            message,
+            digest,
             permSig.v,
             permSig.r,
             permSig.s
@@ -110,13 +277,84 @@ contract Creator is ICreator, ERC721Enumerable {
      */
     function tokenURI(uint256 pubId) public view virtual override returns (string memory) {
         require(_exists(pubId), 'ERC721Metadata: URI query for nonexistent token');
-        return _tokenUri[pubId];
+        Version[] storage versions = _versions[pubId];
+        return versions[versions.length - 1].contentUri;
+    }
+
+    /// @inheritdoc ICreator
+    function getVersionCount(uint256 pubId) external view override returns (uint256) {
+        return _versions[pubId].length;
+    }
+
+    /// @inheritdoc ICreator
+    function getVersion(uint256 pubId, uint256 version) public view override returns (Version memory) {
+        require(version > 0 && version <= _versions[pubId].length, VERSION_ERR);
+        return _versions[pubId][version - 1];
+    }
+
+    /// @inheritdoc ICreator
+    function getVersions(uint256 pubId) external view override returns (Version[] memory) {
+        return _versions[pubId];
+    }
+
+    /// @inheritdoc ICreator
+    function versionURI(uint256 pubId, uint256 version) external view override returns (string memory) {
+        return getVersion(pubId, version).contentUri;
+    }
+
+    /// @inheritdoc ICreator
+    function getCoauthors(uint256 pubId) external view override returns (Coauthor[] memory) {
+        return _coauthors[pubId];
+    }
+
+    /// @inheritdoc ICreator
+    function getSplitter(uint256 pubId) external view override returns (address) {
+        return _splitters[pubId];
+    }
+
+    /// @inheritdoc ICreator
+    function burnedAt(uint256 pubId) external view override returns (uint64) {
+        return _burnedAt[pubId];
+    }
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(bytes4 interfaceId)
+        public
+        view
+        virtual
+        override
+        returns (bool)
+    {
+        return interfaceId == type(ICreator).interfaceId || super.supportsInterface(interfaceId);
     }
     
     function exists(uint256 pubId) external view virtual override returns (bool) {
         return _exists(pubId);
     }
 
+    /// @inheritdoc ICreator
+    function nonces(address creator) external view override returns (uint256) {
+        return _nonces[creator];
+    }
+
+    /// @inheritdoc ICreator
+    function DOMAIN_SEPARATOR() external view override returns (bytes32) {
+        return _domainSeparatorV4();
+    }
+
+    /**
+     * @dev The signer of requests relayed by the trusted forwarder, see {ERC2771Context}
+     */
+    function _msgSender() internal view virtual override(Context, ERC2771Context) returns (address) {
+        return ERC2771Context._msgSender();
+    }
+
+    function _msgData() internal view virtual override(Context, ERC2771Context) returns (bytes calldata) {
+        return ERC2771Context._msgData();
+    }
+
     function tokenCounter(address creator) external view returns (uint256) {
         return _tokenCounter[creator];
     }
@@ -0,0 +1,65 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import './Mintable.sol';
+
+/**
+ * @notice A Mintable contract selling copies in a Dutch auction. The price starts at the mintAmount of the rule
+ * when the minting period starts, and decays linearly to a floor price at the end of the minting period, given
+ * by the `time` of the rule. The creator sets up the rule with the floor price on top of the validation info of
+ * the {Mintable} contract. Extensions are charged with the extendAmount of the rule.
+ */
+contract DutchAuctionMintable is Mintable {
+
+    event SetupAuction(bytes32 indexed copyHash, uint256 floorPrice);
+
+    // copyHash => price at the end of the minting period
+    mapping(bytes32 => uint256) private _floorPrices;
+
+    constructor (address copyContract_) Mintable(copyContract_) {}
+
+    /**
+     * @dev The ruleData is the abi encoded ValidationInfo followed by the floor price. The floor of a guarded
+     * rule cannot be raised once minting has started
+     *
+     * @inheritdoc IMintable
+     */
+    function setupRule(bytes32 copyHash, bytes calldata ruleData) public override {
+        bool guarded = getValidationInfo(copyHash).guarded;
+        super.setupRule(copyHash, ruleData);
+        (ValidationInfo memory valInfo, uint256 floorPrice) = abi.decode(ruleData, (ValidationInfo, uint256));
+        require(floorPrice <= valInfo.mintAmount, "DutchAuctionMintable: Floor Above Start Price");
+        if (guarded && getMintCount(copyHash) > 0) {
+            require(floorPrice <= _floorPrices[copyHash], "Mintable: Price Raised After Minting");
+        }
+        _floorPrices[copyHash] = floorPrice;
+        emit SetupAuction(copyHash, floorPrice);
+    }
+
+    /**
+     * @dev The current price of the auction, prorated over the duration if the rule is fragmented
+     *
+     * @inheritdoc IPaidMintable
+     */
+    function quote(bytes32 copyHash, uint64 duration) public view override returns (uint256) {
+        ValidationInfo memory valInfo = getValidationInfo(copyHash);
+        return _getFee(valInfo, getPrice(copyHash), duration);
+    }
+
+    /**
+     * @return price the price of a copy for the full duration of the rule at the current block
+     */
+    function getPrice(bytes32 copyHash) public view returns (uint256) {
+        ValidationInfo memory valInfo = getValidationInfo(copyHash);
+        uint256 floorPrice = _floorPrices[copyHash];
+        if (block.timestamp <= valInfo.start) return valInfo.mintAmount;
+
+        uint256 elapsed = block.timestamp - valInfo.start;
+        if (elapsed >= valInfo.time) return floorPrice;
+        return valInfo.mintAmount - (valInfo.mintAmount - floorPrice) * elapsed / valInfo.time;
+    }
+
+    function getFloorPrice(bytes32 copyHash) external view returns (uint256) {
+        return _floorPrices[copyHash];
+    }
+}
@@ -1,38 +1,63 @@
 // SPDX-License-Identifier: MIT
 pragma solidity >=0.8.0 <0.9.0;
 
+import '@openzeppelin/contracts/token/ERC20/utils/SafeERC20.sol';
+import '@openzeppelin/contracts/security/ReentrancyGuard.sol';
+import '@openzeppelin/contracts/utils/Address.sol';
+import '@openzeppelin/contracts/utils/introspection/ERC165.sol';
+import '@openzeppelin/contracts/utils/introspection/ERC165Checker.sol';
+
 import './interfaces/IPaidMintable.sol';
+import './interfaces/IExpiryMintable.sol';
 import './interfaces/ICopy.sol';
+import './interfaces/ICreator.sol';
 
 interface IERC721 {
     function ownerOf(uint256 tokenId) external view returns (address owner);
     function balanceOf(address owner) external view returns (uint256);
 }
 
-interface IERC20 {
-    function transferFrom(
-        address sender,
-        address recipient,
-        uint256 amount
-    ) external;
-}
-
 /**
  * @notice This contract is an implementation of the IMintable interface. It is used to enable mintable 
  * and extending a token with a fee charged. The creator will need to setup rules for copier/collector 
  * to follow before a copy token is minted / extended. 
  * 
+ * Fees are held in escrow and credited to the holder of the creator token at the time of the mint / extension,
+ * or split among the co-authors of a co-authored creator token, who can claim them with the withdraw function. Native tokens paid above the fee are credited back to the
+ * collector the same way.
  */
-contract Mintable is IPaidMintable {
+contract Mintable is IPaidMintable, IExpiryMintable, ERC165, ReentrancyGuard {
+    using SafeERC20 for IERC20;
 
     event SetupRule(
-        bytes32 copyHash,
+        bytes32 indexed copyHash,
+        uint256 version,
+        ValidationInfo previous,
         ValidationInfo validationInfo
     );
+    event Deposit(address indexed account, address indexed token, uint256 amount);
+    event Withdraw(address indexed account, address indexed token, uint256 amount);
+    event Refund(address indexed account, bytes32 indexed copyHash, address indexed token, uint256 amount);
+
+    // a fee charged for a period of validity of a copy token
+    struct Payment {
+        uint256 amount;
+        uint64 duration;
+    }
     
     address private immutable _copyContract;
     mapping(bytes32 => ValidationInfo) private _validationInfo;
     mapping(bytes32 => uint256) private _count;
+    // copyHash => number of times the rule has been set up, starts from 1
+    mapping(bytes32 => uint256) private _versions;
+    // account => fee token => claimable amount, address(0) is the native token
+    mapping(address => mapping(address => uint256)) private _balances;
+    // tokenId => payments for the current validity of the copy token, the latest last
+    mapping(uint256 => Payment[]) private _payments;
+    // the payment charged by the current mint or extension, until the Copy contract records it, see {recordPayment}
+    Payment private _pendingPayment;
+    // whether the pending payment starts a new validity, for mints and extensions of expired copy tokens
+    bool private _pendingReset;
 
     modifier onlyCopy {
         require(msg.sender == _copyContract, "Mintable: Invalid Contract Call");
@@ -44,37 +69,184 @@ contract Mintable is IPaidMintable {
     }
 
     /// @inheritdoc IMintable
-    function setupRule(bytes32 copyHash, bytes calldata ruleData) external override onlyCopy {
+    function setupRule(bytes32 copyHash, bytes calldata ruleData) public virtual override onlyCopy {
         (ValidationInfo memory valInfo) = abi.decode(ruleData, (ValidationInfo));
+        ValidationInfo memory previous = _validationInfo[copyHash];
 
         // require(valInfo.start > uint64(block.timestamp), "Mintable: Invalid Start Time");
+        if (previous.guarded) {
+            _validateGuardedUpdate(copyHash, previous, valInfo);
+        }
         _validationInfo[copyHash] = valInfo;
-        emit SetupRule(copyHash, valInfo);
+        emit SetupRule(copyHash, ++_versions[copyHash], previous, valInfo);
     }
     
     /// @inheritdoc IMintable
-    function isMintable(address to, bytes32 copyHash,  uint64 duration) external payable override onlyCopy {
-        _validateMint(to, copyHash, duration);
-        ++_count[copyHash];
+    function isMintable(address to, bytes32 copyHash,  uint64 duration) external payable virtual override onlyCopy {
+        _registerMint(to, copyHash, duration);
     }
 
-    /// @inheritdoc IMintable
-    function isExtendable(address to, bytes32 copyHash, uint64 duration) external payable override onlyCopy {
-        _validateExtend(to, copyHash, duration);
+    /**
+     * @dev Without the expiry of the copy token, its validity is taken to end now. Rules with an extension
+     * window or a validity cap are only extended with the expiry, see {IExpiryMintable-isExtendable}
+     *
+     * @inheritdoc IMintable
+     */
+    function isExtendable(address to, bytes32 copyHash, uint64 duration) external payable virtual override onlyCopy {
+        ValidationInfo memory valInfo = _validationInfo[copyHash];
+        require(valInfo.extendWindow == 0 && valInfo.maxValidity == 0, "Mintable: Expiry Required");
+        _validateExtend(to, copyHash, duration, uint64(block.timestamp));
+    }
+
+    /// @inheritdoc IExpiryMintable
+    function isExtendable(
+        address to,
+        bytes32 copyHash,
+        uint64 duration,
+        uint64 expireAt
+    ) external payable virtual override onlyCopy {
+        _validateExtend(to, copyHash, duration, expireAt);
     }
     
-    // no reentrant**
-    function _validateMint(
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return
+            interfaceId == type(IMintable).interfaceId ||
+            interfaceId == type(IPaidMintable).interfaceId ||
+            interfaceId == type(IExpiryMintable).interfaceId ||
+            super.supportsInterface(interfaceId);
+    }
+
+    /**
+     * @dev The mintAmount of the rule, prorated over the duration if the rule is fragmented. Mintables pricing
+     * copies differently override this function
+     *
+     * @inheritdoc IPaidMintable
+     */
+    function quote(bytes32 copyHash, uint64 duration) public view virtual override returns (uint256) {
+        ValidationInfo memory valInfo = _validationInfo[copyHash];
+        return _getFee(valInfo, valInfo.mintAmount, duration);
+    }
+
+    /// @inheritdoc IPaidMintable
+    function getRefund(uint256 tokenId, uint64 remaining) public view virtual override returns (uint256) {
+        Payment[] storage payments = _payments[tokenId];
+        uint256 amount = 0;
+        for (uint256 i = payments.length; i > 0 && remaining > 0; i--) {
+            Payment memory payment = payments[i - 1];
+            uint64 covered = remaining < payment.duration ? remaining : payment.duration;
+            if (covered > 0) {
+                amount += covered * payment.amount / payment.duration;
+                remaining -= covered;
+            }
+        }
+        return amount;
+    }
+
+    /**
+     * @dev Consecutive payments at the same fee per duration are merged, and the payments of an expired copy
+     * token are dropped once it is extended
+     *
+     * @inheritdoc IPaidMintable
+     */
+    function recordPayment(uint256 tokenId) external virtual override onlyCopy {
+        if (_pendingReset) {
+            delete _payments[tokenId];
+        }
+        Payment[] storage payments = _payments[tokenId];
+        Payment memory payment = _pendingPayment;
+        uint256 count = payments.length;
+        if (count > 0 && payments[count - 1].amount * payment.duration == payment.amount * payments[count - 1].duration) {
+            payments[count - 1].amount += payment.amount;
+            payments[count - 1].duration += payment.duration;
+        } else {
+            payments.push(payment);
+        }
+        delete _pendingPayment;
+        delete _pendingReset;
+    }
+
+    /// @inheritdoc IPaidMintable
+    function refund(
+        address to,
+        uint256 tokenId,
+        bytes32 copyHash,
+        uint64 remaining,
+        address payer
+    ) external payable virtual override onlyCopy nonReentrant returns (uint256) {
+        address feeToken = _validationInfo[copyHash].feeToken;
+        uint256 amount = getRefund(tokenId, remaining);
+        delete _payments[tokenId];
+
+        address creator = _getCreatorHolder(copyHash);
+        uint256 escrowed = _balances[creator][feeToken] < amount ? _balances[creator][feeToken] : amount;
+        _balances[creator][feeToken] -= escrowed;
+
+        // address(0) is the native token
+        uint256 shortfall = amount - escrowed;
+        uint256 nativeShortfall = feeToken == address(0) ? shortfall : 0;
+        require(msg.value >= nativeShortfall, "Mintable: Insufficient Native Tokens");
+        if (feeToken != address(0) && shortfall > 0) {
+            IERC20(feeToken).safeTransferFrom(payer, address(this), shortfall);
+        }
+
+        if (amount > 0) {
+            _deposit(to, feeToken, amount);
+        }
+        if (msg.value > nativeShortfall) {
+            _deposit(payer, address(0), msg.value - nativeShortfall);
+        }
+        emit Refund(to, copyHash, feeToken, amount);
+        return amount;
+    }
+
+    /// @inheritdoc IPaidMintable
+    function withdraw(address token) external override nonReentrant returns (uint256) {
+        uint256 amount = _balances[msg.sender][token];
+        require(amount > 0, "Mintable: Nothing to Withdraw");
+        _balances[msg.sender][token] = 0;
+
+        // address(0) is the native token
+        if (token == address(0)) {
+            Address.sendValue(payable(msg.sender), amount);
+        } else {
+            IERC20(token).safeTransfer(msg.sender, amount);
+        }
+        emit Withdraw(msg.sender, token, amount);
+        return amount;
+    }
+    
+    function _registerMint(
         address to,
         bytes32 copyHash,
         uint64 duration
     ) internal {
-        ValidationInfo memory valInfo = _validationInfo[copyHash];
-        // check start time
-        require(valInfo.start < uint64(block.timestamp), "Mintable: Minting Period Not Started");
+        _registerMint(to, copyHash, duration, quote(copyHash, duration));
+    }
 
-        // check deadline (timestamp - start to prevent overflow)
-        require(valInfo.time > uint64(block.timestamp) - valInfo.start, "Mintable: Minting Period Ended");
+    /**
+     * @dev Registers a mint charged with the given fee, in the fee token of the rule, instead of its mint amount
+     */
+    function _registerMint(
+        address to,
+        bytes32 copyHash,
+        uint64 duration,
+        uint256 fee
+    ) internal {
+        _validateMint(to, copyHash, duration);
+        ++_count[copyHash];
+        _chargeFee(to, copyHash, _validationInfo[copyHash].feeToken, fee, duration, true);
+    }
+
+    function _validateMint(
+        address to,
+        bytes32 copyHash,
+        uint64 duration
+    ) internal view {
+        ValidationInfo memory valInfo = _validationInfo[copyHash];
+        _validatePeriod(valInfo);
 
         // check limit
         require(valInfo.limit > _count[copyHash], "Mintable: Minting Limit Reached");
@@ -83,68 +255,219 @@ contract Mintable is IPaidMintable {
         if (valInfo.requiredERC721Token != address(0)) {
             require(IERC721(valInfo.requiredERC721Token).balanceOf(to) > 0, "Mintable: Required ERC721 Token has Zero Balance");
         }
-        
-        uint256 durationFee = valInfo.mintAmount;
-        if (durationFee == 0) return;
-        uint256 fee = valInfo.fragmented ? duration  * durationFee / valInfo.duration : durationFee;
 
-        address creatorAddress = IERC721(
-                ICopy(msg.sender).getCreatorContract()
-            ).ownerOf(ICopy(msg.sender).getMintInfo(copyHash).creatorId);
-
-        // address(0) is the native token
-        if (valInfo.feeToken == address(0)) {
-            require(msg.value >= fee, "Mintable: Insufficient Native Tokens");
-            payable(creatorAddress).transfer(fee);
-        } else {
-            IERC20(valInfo.feeToken).transferFrom(
-                to,
-                creatorAddress,
-                fee
-            );
+        // check validity cap
+        if (valInfo.maxValidity > 0) {
+            require(duration <= valInfo.maxValidity, "Mintable: Validity Cap Exceeded");
         }
     }
 
-    // no reentrant**
     function _validateExtend(
         address to,
         bytes32 copyHash,
-        uint64 duration
+        uint64 duration,
+        uint64 expireAt
     ) internal {
         ValidationInfo memory valInfo = _validationInfo[copyHash];
-        
-        uint256 durationFee = valInfo.mintAmount;
-        if (durationFee == 0) return;
-        
-        uint256 fee = valInfo.fragmented ? duration  * durationFee / valInfo.duration : durationFee;
+        _validatePeriod(valInfo);
+
+        // check token binding, only if required for extensions as well
+        if (valInfo.extendRequiresToken && valInfo.requiredERC721Token != address(0)) {
+            require(IERC721(valInfo.requiredERC721Token).balanceOf(to) > 0, "Mintable: Required ERC721 Token has Zero Balance");
+        }
 
-        address creatorAddress = IERC721(
-                ICopy(msg.sender).getCreatorContract()
-            ).ownerOf(ICopy(msg.sender).getMintInfo(copyHash).creatorId);
+        // check extension window, expired copies can always be extended
+        if (valInfo.extendWindow > 0 && expireAt > valInfo.extendWindow) {
+            require(uint64(block.timestamp) >= expireAt - valInfo.extendWindow, "Mintable: Extension Window Not Open");
+        }
 
-        // address(0) is the native token
-        if (valInfo.feeToken == address(0)) {
-            require(msg.value >= fee, "Mintable: Insufficient Native Tokens");
-            payable(creatorAddress).transfer(fee);
-        } else {
-            IERC20(valInfo.feeToken).transferFrom(
-                to,
-                creatorAddress,
-                fee
+        // check validity cap, the copy is extended from its expiry or from now if it has expired
+        if (valInfo.maxValidity > 0) {
+            uint256 extendFrom = expireAt < block.timestamp ? block.timestamp : expireAt;
+            require(extendFrom + duration - block.timestamp <= valInfo.maxValidity, "Mintable: Validity Cap Exceeded");
+        }
+
+        _chargeFee(
+            to,
+            copyHash,
+            valInfo.feeToken,
+            _getFee(valInfo, valInfo.extendAmount, duration),
+            duration,
+            expireAt < block.timestamp
+        );
+    }
+
+    /**
+     * @dev A guarded rule stays guarded. Its limit cannot be lowered below the mint count, and once a copy
+     * has been minted, its fee token, required token and the periods in which copies are minted and extended
+     * cannot be changed, nor its prices per duration raised
+     */
+    function _validateGuardedUpdate(
+        bytes32 copyHash,
+        ValidationInfo memory previous,
+        ValidationInfo memory valInfo
+    ) internal view {
+        require(valInfo.guarded, "Mintable: Guarded Rule");
+        require(valInfo.limit >= _count[copyHash], "Mintable: Limit Below Mint Count");
+        if (_count[copyHash] > 0) {
+            require(
+                valInfo.fragmented == previous.fragmented &&
+                valInfo.start == previous.start &&
+                valInfo.time == previous.time &&
+                valInfo.maxValidity == previous.maxValidity &&
+                valInfo.extendWindow == previous.extendWindow &&
+                valInfo.requiredERC721Token == previous.requiredERC721Token &&
+                valInfo.extendRequiresToken == previous.extendRequiresToken,
+                "Mintable: Terms Changed After Minting"
             );
+            require(
+                valInfo.feeToken == previous.feeToken &&
+                !_isPriceRaised(previous, valInfo, previous.mintAmount, valInfo.mintAmount) &&
+                !_isPriceRaised(previous, valInfo, previous.extendAmount, valInfo.extendAmount),
+                "Mintable: Price Raised After Minting"
+            );
+        }
+    }
+
+    /**
+     * @dev Whether a price is raised by an update of a rule. The prices of fragmented rules are compared per
+     * duration, as the fee is prorated over the duration of the rule, see {_getFee}
+     */
+    function _isPriceRaised(
+        ValidationInfo memory previous,
+        ValidationInfo memory valInfo,
+        uint256 previousAmount,
+        uint256 amount
+    ) internal pure returns (bool) {
+        if (!valInfo.fragmented) {
+            return amount > previousAmount;
+        }
+        return amount * previous.duration > previousAmount * valInfo.duration;
+    }
+
+    function _validatePeriod(ValidationInfo memory valInfo) internal view {
+        // check start time
+        require(valInfo.start < uint64(block.timestamp), "Mintable: Minting Period Not Started");
+
+        // check deadline (timestamp - start to prevent overflow)
+        require(valInfo.time > uint64(block.timestamp) - valInfo.start, "Mintable: Minting Period Ended");
+    }
+
+    function _getFee(
+        ValidationInfo memory valInfo,
+        uint256 durationFee,
+        uint64 duration
+    ) internal pure returns (uint256) {
+        return valInfo.fragmented ? duration  * durationFee / valInfo.duration : durationFee;
+    }
+
+    /**
+     * @dev Collects the fee into the escrow of the creator token holder. The payer is the `to` address, which
+     * is also credited with any native tokens sent above the fee. The fee is kept pending for the duration paid
+     * until the Copy contract records it for the copy token, see {recordPayment}
+     *
+     * @param reset whether the duration starts a new validity, rather than extending the current one
+     */
+    function _chargeFee(
+        address to,
+        bytes32 copyHash,
+        address feeToken,
+        uint256 fee,
+        uint64 duration,
+        bool reset
+    ) internal {
+        _pendingPayment = Payment(fee, duration);
+        _pendingReset = reset;
+
+        uint256 nativeFee = feeToken == address(0) ? fee : 0;
+        require(msg.value >= nativeFee, "Mintable: Insufficient Native Tokens");
+
+        if (fee > 0) {
+            // address(0) is the native token
+            if (feeToken != address(0)) {
+                IERC20(feeToken).safeTransferFrom(to, address(this), fee);
+            }
+            _depositFee(copyHash, feeToken, fee);
+        }
+        if (msg.value > nativeFee) {
+            _deposit(to, address(0), msg.value - nativeFee);
+        }
+    }
+
+    /**
+     * @dev The current holder of the creator token of a rule, only called by the Copy contract, or address(0) once the creator token is burned. Nothing
+     * is then held in escrow for the creator, and refunds are paid in full by the payer
+     */
+    function _getCreatorHolder(bytes32 copyHash) internal view returns (address) {
+        ICopy.MintInfo memory mintInfo = ICopy(msg.sender).getMintInfo(copyHash);
+        try IERC721(mintInfo.creatorContract).ownerOf(mintInfo.creatorId) returns (address holder) {
+            return holder;
+        } catch {
+            return address(0);
         }
     }
 
+    /**
+     * @dev Credit a fee to the holder of the creator token of a rule, or to its co-authors in proportion to their
+     * weights, see {ICreator-getCoauthors}. The rounding remainder goes to the first co-author. Refunds draw on the
+     * escrow of the holder only
+     */
+    function _depositFee(bytes32 copyHash, address feeToken, uint256 fee) internal {
+        ICopy.MintInfo memory mintInfo = ICopy(msg.sender).getMintInfo(copyHash);
+        ICreator.Coauthor[] memory coauthors;
+        if (ERC165Checker.supportsInterface(mintInfo.creatorContract, type(ICreator).interfaceId)) {
+            coauthors = ICreator(mintInfo.creatorContract).getCoauthors(mintInfo.creatorId);
+        }
+        if (coauthors.length == 0) {
+            address creator = _getCreatorHolder(copyHash);
+            require(creator != address(0), "Mintable: Creator Token Burned");
+            _deposit(creator, feeToken, fee);
+            return;
+        }
+
+        uint256 totalWeight = 0;
+        for (uint256 i = 0; i < coauthors.length; i++) {
+            totalWeight += coauthors[i].weight;
+        }
+        uint256 remainder = fee;
+        for (uint256 i = 1; i < coauthors.length; i++) {
+            uint256 share = fee * coauthors[i].weight / totalWeight;
+            remainder -= share;
+            _deposit(coauthors[i].account, feeToken, share);
+        }
+        _deposit(coauthors[0].account, feeToken, remainder);
+    }
+
+    function _deposit(address account, address token, uint256 amount) internal {
+        _balances[account][token] += amount;
+        emit Deposit(account, token, amount);
+    }
+
     function getValidationInfo(
         bytes32 copyHash
-    ) external view override returns (ValidationInfo memory) {
+    ) public view override returns (ValidationInfo memory) {
         return _validationInfo[copyHash];
     }
 
     function getMintCount(
         bytes32 copyHash
-    ) external view override returns (uint256) {
+    ) public view override returns (uint256) {
         return _count[copyHash];
     }
 
+    /// @inheritdoc IPaidMintable
+    function getRuleVersion(
+        bytes32 copyHash
+    ) external view override returns (uint256) {
+        return _versions[copyHash];
+    }
+
+    /// @inheritdoc IPaidMintable
+    function getBalance(
+        address account,
+        address token
+    ) external view override returns (uint256) {
+        return _balances[account][token];
+    }
+
 }
@@ -0,0 +1,130 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import '@openzeppelin/contracts/utils/cryptography/ECDSA.sol';
+import '@openzeppelin/contracts/utils/cryptography/draft-EIP712.sol';
+
+import './interfaces/IDataMintable.sol';
+import './Mintable.sol';
+
+/**
+ * @notice A Mintable contract that mints copies with vouchers signed off-chain by the holder of the creator token.
+ * The creator sets up the rule with the validation info of the {Mintable} contract, which still bounds the
+ * minting period, the limit, the required token and the validity cap, and gives the fee token of the vouchers.
+ * A voucher is an EIP-712 signature over the copyHash, the recipient, the duration, the price, the expiry and a
+ * nonce. Collectors supply it at mint time, see {IDataMintable}.
+ *
+ * A voucher is only valid while its signer holds the creator token, so transferring the creator token invalidates
+ * the vouchers of the previous holder. Each nonce of a signer can be used once, and signers can cancel a voucher
+ * by using its nonce. A voucher with a zero recipient can be redeemed by anyone.
+ */
+contract VoucherMintable is Mintable, IDataMintable, EIP712 {
+
+    event RedeemVoucher(address indexed signer, uint256 indexed nonce, bytes32 indexed copyHash, address to);
+    event CancelVoucher(address indexed signer, uint256 indexed nonce);
+
+    bytes32 private constant VOUCHER_TYPEHASH = keccak256(
+        'Voucher(bytes32 copyHash,address recipient,uint64 duration,uint256 price,uint256 expiry,uint256 nonce)'
+    );
+
+    // signer => nonce => used or cancelled
+    mapping(address => mapping(uint256 => bool)) private _usedNonces;
+
+    constructor (address copyContract_) Mintable(copyContract_) EIP712('VoucherMintable', '1') {}
+
+    /// @inheritdoc IMintable
+    function isMintable(address, bytes32, uint64) external payable override(IMintable, Mintable) onlyCopy {
+        revert("VoucherMintable: Voucher Required");
+    }
+
+    /**
+     * @dev The mintData is the abi encoded price, expiry, nonce and signature of the voucher, the other fields
+     * of the voucher are the arguments of the mint. The price is charged in the fee token of the rule
+     *
+     * @inheritdoc IDataMintable
+     */
+    function isMintable(
+        address to,
+        bytes32 copyHash,
+        uint64 duration,
+        bytes calldata mintData
+    ) external payable override onlyCopy {
+        (uint256 price, uint256 expiry, uint256 nonce, bytes memory signature) = abi.decode(
+            mintData,
+            (uint256, uint256, uint256, bytes)
+        );
+        require(expiry > block.timestamp, "VoucherMintable: Voucher Expired");
+
+        // the voucher is signed for the recipient or for anyone
+        address signer = _getCreatorHolder(copyHash);
+        require(
+            _recoverVoucher(copyHash, to, duration, price, expiry, nonce, signature) == signer ||
+            _recoverVoucher(copyHash, address(0), duration, price, expiry, nonce, signature) == signer,
+            "VoucherMintable: Invalid Signature"
+        );
+
+        require(!_usedNonces[signer][nonce], "VoucherMintable: Voucher Used");
+        _usedNonces[signer][nonce] = true;
+
+        _registerMint(to, copyHash, duration, price);
+        emit RedeemVoucher(signer, nonce, copyHash, to);
+    }
+
+    /**
+     * @dev Collectors already hold a copy, so extensions are charged with the extendAmount of the rule
+     *
+     * @inheritdoc IDataMintable
+     */
+    function isExtendable(
+        address to,
+        bytes32 copyHash,
+        uint64 duration,
+        uint64 expireAt,
+        bytes calldata
+    ) external payable override onlyCopy {
+        _validateExtend(to, copyHash, duration, expireAt);
+    }
+
+    /**
+     * @notice Cancels the voucher of the sender with the given nonce
+     */
+    function cancelVoucher(uint256 nonce) external {
+        require(!_usedNonces[msg.sender][nonce], "VoucherMintable: Voucher Used");
+        _usedNonces[msg.sender][nonce] = true;
+        emit CancelVoucher(msg.sender, nonce);
+    }
+
+    /**
+     * @dev See {IERC165-supportsInterface}.
+     */
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IDataMintable).interfaceId || super.supportsInterface(interfaceId);
+    }
+
+    function isNonceUsed(address signer, uint256 nonce) external view returns (bool) {
+        return _usedNonces[signer][nonce];
+    }
+
+    function _recoverVoucher(
+        bytes32 copyHash,
+        address recipient,
+        uint64 duration,
+        uint256 price,
+        uint256 expiry,
+        uint256 nonce,
+        bytes memory signature
+    ) internal view returns (address signer) {
+        bytes32 digest = _hashTypedDataV4(keccak256(
+            abi.encode(
+                VOUCHER_TYPEHASH,
+                copyHash,
+                recipient,
+                duration,
+                price,
+                expiry,
+                nonce
+            )
+        ));
+        (signer, ) = ECDSA.tryRecover(digest, signature);
+    }
+}
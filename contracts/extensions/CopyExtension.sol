@@ -0,0 +1,507 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.10;
+
+import '@openzeppelin/contracts/utils/introspection/ERC165Checker.sol';
+
+import '../interfaces/IERC721Copy/IMintable.sol';
+import '../interfaces/IDataMintable.sol';
+import '../interfaces/IExpiryMintable.sol';
+import '../interfaces/IPaidMintable.sol';
+import '../CopyBase.sol';
+
+/**
+ * @notice The functions of the Copy contract that set up the rules, and mint, extend, rent out and update the copy
+ * NFTs, split from it to keep its bytecode under the contract size limit. The Copy contract delegates these calls to
+ * this contract, which runs them on the storage of the Copy contract, so it must be deployed with the same trusted
+ * forwarder. See {Copy} for the documentation of each function
+ */
+contract CopyExtension is CopyBase {
+
+    // the events of {IERC721Copy}, {IERC4907} and {IERC5192}, emitted from the address of the Copy contract
+    event SetMintableRule(bytes32 copyHash, IERC721Copy.MintInfo mintInfo);
+    event PauseMintableRule(bytes32 copyHash);
+    event ResumeMintableRule(bytes32 copyHash);
+    event CloseMintableRule(bytes32 copyHash);
+    event Create(uint256 tokenId, bytes32 copyHash, uint64 expiry);
+    event Extend(uint256 tokenId, uint64 expiry);
+    event Update(uint256 tokenId, string tokenUri);
+    event UpdateUser(uint256 indexed tokenId, address indexed user, uint64 expires);
+    event Locked(uint256 tokenId);
+
+    // time before the expiry of a subscribed copy from which it can be renewed
+    uint64 private constant RENEWAL_WINDOW = 1 days;
+    // maximum number of copy indexes walked by a single pushUpdate
+    uint256 private constant MAX_PUSH_BATCH = 100;
+
+    /**
+     * @param trustedForwarder_ The trusted forwarder of the Copy contract, whose requests are delegated as they are
+     */
+    constructor (address trustedForwarder_) ERC721('', '') ERC2771Context(trustedForwarder_) {}
+
+    function setMintableRule(
+        IERC721Copy.MintInfo memory mintInfo,
+        bytes calldata mintableInitData
+    ) external returns (bytes32) {
+        if (mintInfo.creatorContract == address(0)) {
+            mintInfo.creatorContract = _creatorContract;
+        }
+        require(
+            mintInfo.creatorContract == _creatorContract ||
+            ERC165Checker.supportsInterface(mintInfo.creatorContract, type(IERC721Metadata).interfaceId),
+            'Copy: Invalid Creator Contract'
+        );
+        require(
+            _isApprovedOrCreator(_msgSender(), mintInfo.creatorContract, mintInfo.creatorId),
+            'Copy: caller is not creator nor approved'
+        );
+        require(_whiteListedMintable[mintInfo.mintable], 'Copy: Invalid Mintable Rule');
+        _validateMintInfoAdditional(mintInfo);
+
+        bytes32 copyHash = _getHash(mintInfo);
+        require(_states[copyHash] != IERC721Copy.State.CLOSED, 'Copy: Mintable Rule Closed');
+
+        if ( _states[copyHash] == IERC721Copy.State.NIL ) {
+            _copyHashes[_creatorKey(mintInfo.creatorContract, mintInfo.creatorId)].push(copyHash);
+            _mintInfo[copyHash] = mintInfo;
+        }
+
+        _states[copyHash] = IERC721Copy.State.EXIST;
+
+        IMintable(mintInfo.mintable).setupRule(copyHash, mintableInitData);
+
+        emit SetMintableRule(copyHash, mintInfo);
+        return copyHash;
+    }
+
+    function pauseMintableRule(bytes32 copyHash) external {
+        _checkCreator(copyHash);
+        require(_states[copyHash] == IERC721Copy.State.EXIST, 'Copy: Invalid Rule State');
+        _states[copyHash] = IERC721Copy.State.PAUSED; // disable copying
+        emit PauseMintableRule(copyHash);
+    }
+
+    function resumeMintableRule(bytes32 copyHash) external {
+        _checkCreator(copyHash);
+        require(_states[copyHash] == IERC721Copy.State.PAUSED, 'Copy: Invalid Rule State');
+        _states[copyHash] = IERC721Copy.State.EXIST; // enable copying
+        emit ResumeMintableRule(copyHash);
+    }
+
+    function closeMintableRule(bytes32 copyHash) external {
+        _checkCreator(copyHash);
+        require(
+            _states[copyHash] == IERC721Copy.State.EXIST || _states[copyHash] == IERC721Copy.State.PAUSED,
+            'Copy: Invalid Rule State'
+        );
+        _states[copyHash] = IERC721Copy.State.CLOSED; // disable copying permanently
+        emit CloseMintableRule(copyHash);
+    }
+
+    function create(address to, bytes32 copyHash, uint64 duration) external payable returns (uint256) {
+        _checkMintable(to, copyHash);
+        IMintable(_mintInfo[copyHash].mintable).isMintable{value: msg.value}(to, copyHash, duration);
+        return _create(to, copyHash, duration);
+    }
+
+    function create(
+        address to,
+        bytes32 copyHash,
+        uint64 duration,
+        bytes calldata mintData
+    ) external payable returns (uint256) {
+        _checkMintable(to, copyHash);
+        address mintable = _mintInfo[copyHash].mintable;
+        if (_isDataMintable(mintable)) {
+            IDataMintable(mintable).isMintable{value: msg.value}(to, copyHash, duration, mintData);
+        } else {
+            require(mintData.length == 0, 'Copy: Mintable Rule Takes No Data');
+            IMintable(mintable).isMintable{value: msg.value}(to, copyHash, duration);
+        }
+        return _create(to, copyHash, duration);
+    }
+
+    function extend(
+        uint256 tokenId,
+        uint64 duration
+    ) external payable returns (uint64) {
+        _checkExtendable(tokenId);
+
+        _validateExtension(tokenId, duration, msg.value);
+        return _extend(tokenId, duration);
+    }
+
+    function extend(
+        uint256 tokenId,
+        uint64 duration,
+        bytes calldata mintData
+    ) external payable returns (uint64) {
+        bytes32 copyHash = _copyInfo[tokenId].copyHash;
+        _checkExtendable(tokenId);
+
+        address mintable = _mintInfo[copyHash].mintable;
+        if (_isDataMintable(mintable)) {
+            IDataMintable(mintable).isExtendable{value: msg.value}(
+                ownerOf(tokenId),
+                copyHash,
+                duration,
+                _copyInfo[tokenId].expireAt,
+                mintData
+            );
+        } else {
+            require(mintData.length == 0, 'Copy: Mintable Rule Takes No Data');
+            _validateExtension(tokenId, duration, msg.value);
+        }
+        return _extend(tokenId, duration);
+    }
+
+    function setSubscription(uint256 tokenId, uint64 duration, uint64 periods) external {
+        _checkHolder(tokenId);
+        require(periods == 0 || _isExtendable(tokenId), 'Copy: Non-extendable');
+        _subscriptions[tokenId] = ICopy.Subscription(duration, periods);
+        emit SetSubscription(tokenId, duration, periods);
+    }
+
+    function renew(uint256 tokenId) external returns (uint64) {
+        ICopy.Subscription memory subscription = _subscriptions[tokenId];
+        require(subscription.periods > 0, 'Copy: No Subscription');
+        require(_isExtendable(tokenId), 'Copy: Non-extendable');
+
+        uint64 expiry = _copyInfo[tokenId].expireAt;
+        require(expiry <= _add(uint64(block.timestamp), RENEWAL_WINDOW), 'Copy: Renewal Window Not Open');
+
+        _subscriptions[tokenId].periods = subscription.periods - 1;
+        _validateExtension(tokenId, subscription.duration, 0);
+        expiry = _extend(tokenId, subscription.duration);
+        emit Renew(tokenId, expiry, subscription.periods - 1);
+        return expiry;
+    }
+
+    function setUser(uint256 tokenId, address user, uint64 expires) external {
+        _checkHolder(tokenId);
+        require(user == address(0) || _isRentable(tokenId), 'Copy: Non-rentable');
+        require(expires <= _copyInfo[tokenId].expireAt, 'Copy: Rental Exceeds Expiry');
+
+        bytes32 creatorKey = _creatorKeyOf(tokenId);
+        _clearUser(tokenId, creatorKey);
+        if (user != address(0)) {
+            _users[tokenId] = ICopy.UserInfo(user, expires);
+            _rentedIndex[tokenId] = _rentedCopies[user][creatorKey].length;
+            _rentedCopies[user][creatorKey].push(tokenId);
+            if (expires > _latestUse[user][creatorKey]) {
+                _latestUse[user][creatorKey] = expires;
+            }
+        }
+        emit UpdateUser(tokenId, user, user == address(0) ? 0 : expires);
+    }
+
+    function update(uint256 tokenId) external returns (string memory) {
+        return _updateByHolder(tokenId, 0);
+    }
+
+    function update(uint256 tokenId, uint64 version) external returns (string memory) {
+        return _updateByHolder(tokenId, version);
+    }
+
+    function pushUpdate(
+        bytes32 copyHash,
+        uint64 version,
+        uint256 fromIndex,
+        uint256 count
+    ) external returns (uint256) {
+        _checkCreator(copyHash);
+        require(_isPushable(copyHash), 'Copy: Non-pushable');
+        require(count <= MAX_PUSH_BATCH, 'Copy: Batch Too Large');
+        require(fromIndex > 0, 'Copy: Index Out Of Bounds');
+
+        IERC721Copy.MintInfo storage mintInfo = _mintInfo[copyHash];
+        (string memory uri, uint64 resolved) = _fetchURIAtVersion(mintInfo.creatorContract, mintInfo.creatorId, version);
+        bytes32 creatorKey = _creatorKey(mintInfo.creatorContract, mintInfo.creatorId);
+        uint256 toIndex = fromIndex + count;
+        if (toIndex > _copyCount[creatorKey] + 1) {
+            toIndex = _copyCount[creatorKey] + 1;
+        }
+        for (uint256 index = fromIndex; index < toIndex; index++) {
+            uint256 tokenId = _copys[creatorKey][index];
+            if (_copyInfo[tokenId].copyHash == copyHash && !_isExpired(tokenId)) {
+                _setCopyURI(tokenId, uri, resolved);
+            }
+        }
+        emit PushUpdate(copyHash, resolved, fromIndex, toIndex);
+        return toIndex;
+    }
+
+    /**
+     * @dev Update a copy NFT on behalf of its holder, see {update}
+     */
+    function _updateByHolder(uint256 tokenId, uint64 version) internal returns (string memory) {
+        require(_isUpdatable(tokenId), 'Copy: Non-updatable');
+        _checkHolder(tokenId);
+        (address creatorContract, uint256 creatorId) = _creatorTokenOf(tokenId);
+        (string memory uri, uint64 resolved) = _fetchURIAtVersion(creatorContract, creatorId, version);
+        _setCopyURI(tokenId, uri, resolved);
+        return uri;
+    }
+
+    function _setCopyURI(uint256 tokenId, string memory uri, uint64 version) internal {
+        _copyInfo[tokenId].copyURI = uri;
+        _copyInfo[tokenId].version = version;
+        emit Update(tokenId, uri);
+        emit UpdateVersion(tokenId, version);
+    }
+
+    /**
+     * @dev Revert unless copies of a rule can be minted for the recipient by the sender
+     */
+    function _checkMintable(address to, bytes32 copyHash) internal view {
+        require(_states[copyHash] == IERC721Copy.State.EXIST, 'Copy: Copying Disabled');
+        require(!_isBurned(copyHash), 'Copy: Creator Token Burned');
+        _checkPayer(to, copyHash);
+    }
+
+    /**
+     * @dev Mint and register a copy NFT once the mintable rule is fulfilled, and record its payment
+     */
+    function _create(address to, bytes32 copyHash, uint64 duration) internal returns (uint256) {
+        IERC721Copy.MintInfo storage mintInfo = _mintInfo[copyHash];
+        uint256 tokenId = _mintToken(to, _creatorKey(mintInfo.creatorContract, mintInfo.creatorId));
+        _register(tokenId, copyHash, duration);
+        _recordPayment(copyHash, tokenId);
+
+        emit Create(tokenId, copyHash, _copyInfo[tokenId].expireAt);
+        if (!_mintInfo[copyHash].transferable) {
+            emit Locked(tokenId);
+        }
+        return tokenId;
+    }
+
+    /**
+     * @dev Revert unless a copy NFT can be extended by the sender. Copies of paused and closed rules can still be
+     * extended, see {IERC721Copy-State}
+     */
+    function _checkExtendable(uint256 tokenId) internal view {
+        require(_states[_copyInfo[tokenId].copyHash] != IERC721Copy.State.NIL, 'Copy: Mint info not set');
+        require(_isExtendable(tokenId), 'Copy: Non-extendable');
+        _checkPayer(ownerOf(tokenId), _copyInfo[tokenId].copyHash);
+    }
+
+    /**
+     * @dev Extend the expiry of a copy NFT once the mintable rule is fulfilled, and record its payment
+     */
+    function _extend(uint256 tokenId, uint64 duration) internal returns (uint64) {
+        require(!_isPendingRevocation(tokenId), 'Copy: Pending Revocation');
+        _recordPayment(_copyInfo[tokenId].copyHash, tokenId);
+        // The expiration date will be extended by the duration if the token is not yet expired
+        // Else, the expiration date will be added to the current block timestamp
+        _copyInfo[tokenId].expireAt = _copyInfo[tokenId].expireAt < uint64(block.timestamp)
+            ? _add(uint64(block.timestamp), duration)
+            : _add(_copyInfo[tokenId].expireAt, duration);
+        _updateLatestExpiry(ownerOf(tokenId), _creatorKeyOf(tokenId), tokenId);
+        emit Extend(tokenId, _copyInfo[tokenId].expireAt);
+        return _copyInfo[tokenId].expireAt;
+    }
+
+    /**
+     * @dev The mintable contract of a rule pulls its ERC20 fees from the holder of the copy NFT, on the allowance
+     * they granted for their own mints, extensions and subscription, see {renew}. Only the holder, or a whitelisted
+     * operator acting for them, may then mint or extend a copy NFT that they pay for
+     */
+    function _checkPayer(address payer, bytes32 copyHash) internal view {
+        address sender = _msgSender();
+        if (sender == payer || _whiteListedOperator[sender]) {
+            return;
+        }
+        address mintable = _mintInfo[copyHash].mintable;
+        require(
+            !ERC165Checker.supportsInterface(mintable, type(IPaidMintable).interfaceId) ||
+                IPaidMintable(mintable).getValidationInfo(copyHash).feeToken == address(0),
+            'Copy: Caller Is Not Payer'
+        );
+    }
+
+    /**
+     * @dev Let the mintable contract of a rule record the fee charged for a copy NFT, which its refunds draw on,
+     * see {IPaidMintable-recordPayment}
+     */
+    function _recordPayment(bytes32 copyHash, uint256 tokenId) internal {
+        address mintable = _mintInfo[copyHash].mintable;
+        if (ERC165Checker.supportsInterface(mintable, type(IPaidMintable).interfaceId)) {
+            IPaidMintable(mintable).recordPayment(tokenId);
+        }
+    }
+
+    /**
+     * @dev Let the mintable contract of a rule validate and charge the extension of a copy NFT, with its expiry if
+     * the mintable takes it, see {IExpiryMintable}
+     */
+    function _validateExtension(uint256 tokenId, uint64 duration, uint256 value) internal {
+        bytes32 copyHash = _copyInfo[tokenId].copyHash;
+        address mintable = _mintInfo[copyHash].mintable;
+        if (ERC165Checker.supportsInterface(mintable, type(IExpiryMintable).interfaceId)) {
+            IExpiryMintable(mintable).isExtendable{value: value}(
+                ownerOf(tokenId),
+                copyHash,
+                duration, // duration to extend
+                _copyInfo[tokenId].expireAt
+            );
+        } else {
+            IMintable(mintable).isExtendable{value: value}(ownerOf(tokenId), copyHash, duration);
+        }
+    }
+
+    /**
+     * @dev Whether the mintable rule takes the data supplied by the collector, see {IDataMintable}
+     */
+    function _isDataMintable(address mintable) internal view returns (bool) {
+        return ERC165Checker.supportsInterface(mintable, type(IDataMintable).interfaceId);
+    }
+
+    /**
+     * @dev Register the information of a newly minted token Id.
+     *
+     * @param tokenId The copy NFT token Id
+     * @param copyHash The hash of the copy configuration
+     */
+    function _register(
+        uint256 tokenId,
+        bytes32 copyHash,
+        uint64 duration
+    ) internal {
+        IERC721Copy.MintInfo storage mintInfo = _mintInfo[copyHash];
+        bytes32 creatorKey = _creatorKey(mintInfo.creatorContract, mintInfo.creatorId);
+        uint256 copyCount = ++_copyCount[creatorKey];
+        _copys[creatorKey][copyCount] = tokenId;
+        _copyIndex[tokenId] = copyCount;
+
+        _copyInfo[tokenId].copyURI = _fetchURIForCopy(mintInfo.creatorContract, mintInfo.creatorId);
+        _copyInfo[tokenId].version = _fetchVersion(mintInfo.creatorContract, mintInfo.creatorId);
+        _copyInfo[tokenId].expireAt = _add(uint64(block.timestamp), duration);
+        _copyInfo[tokenId].copyHash = copyHash;
+        _addHeldCopy(ownerOf(tokenId), creatorKey, tokenId);
+    }
+
+    /**
+     * @notice SafeMint a new copy NFT token
+     *
+     * @param to The address to mint the NFT token tos
+     * @param creatorKey The key of the creator token, see {_creatorKey}
+     *
+     * @return uint256 Returns the newly minted token Id
+     */
+    function _mintToken(address to, bytes32 creatorKey) internal returns (uint256) {
+        _tokenCounter[to][creatorKey]++;
+        uint256 tokenId = uint256(keccak256(abi.encode(to, creatorKey, _tokenCounter[to][creatorKey])));
+        _safeMint(to, tokenId);
+        return tokenId;
+    }
+
+    /**
+     * @notice Fetch the token URI from the creator token, using the {IERC721Metadata-tokenURI} method
+     * This function can be overriden to fetch contentUri from other functions
+     *
+     * @param creatorContract The creator NFT contract
+     * @param creatorId The creator NFT token Id
+     *
+     * @return string Returns the token URI of the creator token
+     */
+    function _fetchURIForCopy(
+        address creatorContract,
+        uint256 creatorId
+    ) internal view virtual returns (string memory) {
+        return IERC721Metadata(creatorContract).tokenURI(creatorId);
+    }
+
+    /**
+     * @notice Fetch the current version of the content of the creator token, see {ICreator-getVersionCount}
+     *
+     * @return uint64 Returns the version, or 0 if the creator contract does not keep versions
+     */
+    function _fetchVersion(address creatorContract, uint256 creatorId) internal view virtual returns (uint64) {
+        if (!ERC165Checker.supportsInterface(creatorContract, type(ICreator).interfaceId)) {
+            return 0;
+        }
+        return uint64(ICreator(creatorContract).getVersionCount(creatorId));
+    }
+
+    /**
+     * @notice Fetch a version of the content of the creator token, see {ICreator-versionURI}
+     *
+     * @param version The version of the content, 0 for the latest content as in {_fetchURIForCopy}
+     *
+     * @return string Returns the URI of the content
+     * @return uint64 Returns the version of the content
+     */
+    function _fetchURIAtVersion(
+        address creatorContract,
+        uint256 creatorId,
+        uint64 version
+    ) internal view virtual returns (string memory, uint64) {
+        if (version == 0) {
+            return (_fetchURIForCopy(creatorContract, creatorId), _fetchVersion(creatorContract, creatorId));
+        }
+        require(version <= _fetchVersion(creatorContract, creatorId), 'Copy: Invalid Version');
+        return (ICreator(creatorContract).versionURI(creatorId, version), version);
+    }
+
+    /**
+     * @dev The mintInfoAdditional is empty, the royalty of the rule, or the royalty followed by the transfer
+     * mode and the cooling period, see {Copy-getRoyalty} and {Copy-getTransferMode}, then optionally by the rental
+     * and the push flags, see {Copy-isRentable} and {Copy-isPushable}, and by the orphan policy, see
+     * {Copy-getOrphanPolicy}
+     */
+    function _validateMintInfoAdditional(IERC721Copy.MintInfo memory mintInfo) internal view virtual {
+        (ICopy.OrphanPolicy policy, address fallbackRevoker) = _decodeOrphanPolicy(mintInfo.mintInfoAdditional);
+        // the copies are frozen at the time of the burn, which only the creator contracts record
+        require(
+            policy != ICopy.OrphanPolicy.FREEZE ||
+                ERC165Checker.supportsInterface(mintInfo.creatorContract, type(ICreator).interfaceId),
+            'Copy: Orphan Policy Not Supported'
+        );
+        if (mintInfo.mintInfoAdditional.length == 0) return;
+        require(_decodeRoyalty(mintInfo.mintInfoAdditional) <= ROYALTY_DENOMINATOR, 'Copy: Invalid Royalty');
+
+        (ICopy.TransferMode mode, ) = _decodeTransferMode(mintInfo.mintInfoAdditional);
+        require(
+            mintInfo.transferable
+                ? mode != ICopy.TransferMode.SOULBOUND
+                : mode == ICopy.TransferMode.FREE || mode == ICopy.TransferMode.SOULBOUND,
+            'Copy: Invalid Transfer Mode'
+        );
+        require(
+            mode != ICopy.TransferMode.TOKEN_HOLDERS ||
+                ERC165Checker.supportsInterface(mintInfo.mintable, type(IPaidMintable).interfaceId),
+            'Copy: Invalid Transfer Mode'
+        );
+
+        require(
+            (policy == ICopy.OrphanPolicy.FALLBACK_REVOKER) == (fallbackRevoker != address(0)),
+            'Copy: Invalid Orphan Policy'
+        );
+    }
+
+    /**
+     * @dev Revert unless the sender is the holder of the creator token of a rule, or approved by them
+     */
+    function _checkCreator(bytes32 copyHash) internal view {
+        require(_isApprovedOrCreator(_msgSender(), copyHash), 'Copy: caller is not creator nor approved');
+    }
+
+    function _getHash(
+        IERC721Copy.MintInfo memory mintInfo
+    ) internal pure returns (bytes32) {
+        return
+            keccak256(
+                abi.encode(
+                    mintInfo.creatorContract,
+                    mintInfo.creatorId,
+                    mintInfo.mintable,
+                    mintInfo.transferable,
+                    mintInfo.revokable,
+                    mintInfo.extendable,
+                    mintInfo.updatable,
+                    mintInfo.statement,
+                    // the royalty and the transfer mode are terms of the rule as well
+                    mintInfo.mintInfoAdditional
+                )
+            );
+    }
+}
@@ -0,0 +1,160 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.10;
+
+import '@openzeppelin/contracts/utils/introspection/ERC165Checker.sol';
+
+import '../interfaces/IPaidMintable.sol';
+import '../CopyBase.sol';
+
+/**
+ * @notice The functions of the Copy contract that burn the copy NFTs, by revocation or destruction, see
+ * {CopyExtension}
+ */
+contract CopyRevocationExtension is CopyBase {
+
+    // the events of {IERC721Copy} and {IERC4907}, emitted from the address of the Copy contract
+    event Revoke(uint256 tokenId);
+    event Destroy(uint256 tokenId);
+    event UpdateUser(uint256 indexed tokenId, address indexed user, uint64 expires);
+
+    /**
+     * @param trustedForwarder_ The trusted forwarder of the Copy contract, whose requests are delegated as they are
+     */
+    constructor (address trustedForwarder_) ERC721('', '') ERC2771Context(trustedForwarder_) {}
+
+    function revoke(uint256 tokenId) external {
+        require(_isRevokable(tokenId), 'Copy: Non-revokable');
+        _checkRevoker(tokenId);
+        require(!_isPendingRevocation(tokenId), 'Copy: Pending Revocation');
+        _deregisterAndBurn(tokenId);
+        emit Revoke(tokenId);
+    }
+
+    function revoke(
+        uint256 tokenId,
+        uint16 reason,
+        string calldata reasonURI,
+        uint64 gracePeriod,
+        bool refund
+    ) external payable {
+        require(_isRevokable(tokenId), 'Copy: Non-revokable');
+        _checkRevoker(tokenId);
+        require(!_isPendingRevocation(tokenId), 'Copy: Pending Revocation');
+        require(
+            !refund || ERC165Checker.supportsInterface(
+                _mintInfo[_copyInfo[tokenId].copyHash].mintable,
+                type(IPaidMintable).interfaceId
+            ),
+            'Copy: Mintable Rule Not Refundable'
+        );
+
+        if (gracePeriod == 0) {
+            _revoke(tokenId, reason, reasonURI, refund);
+            return;
+        }
+        // the refund is paid when the revocation is executed
+        require(msg.value == 0, 'Copy: Unexpected Payment');
+        uint64 effectiveAt = _add(uint64(block.timestamp), gracePeriod);
+        _revocations[tokenId] = ICopy.Revocation(effectiveAt, refund, reason, reasonURI);
+        emit ScheduleRevocation(tokenId, reason, reasonURI, effectiveAt, refund);
+    }
+
+    function executeRevocation(uint256 tokenId) external payable {
+        ICopy.Revocation memory revocation = _revocations[tokenId];
+        require(revocation.effectiveAt > 0, 'Copy: No Pending Revocation');
+        _checkRevoker(tokenId);
+        require(revocation.effectiveAt <= uint64(block.timestamp), 'Copy: Grace Period Not Over');
+        _revoke(tokenId, revocation.reason, revocation.reasonURI, revocation.refund);
+    }
+
+    function cancelRevocation(uint256 tokenId) external {
+        require(_isPendingRevocation(tokenId), 'Copy: No Pending Revocation');
+        _checkRevoker(tokenId);
+        delete _revocations[tokenId];
+        emit CancelRevocation(tokenId);
+    }
+
+    function destroy(uint256 tokenId) external {
+        _checkHolder(tokenId);
+        _deregisterAndBurn(tokenId);
+        emit Destroy(tokenId);
+    }
+
+    /**
+     * @dev Refund the holder of a copy NFT if requested, then burn it
+     */
+    function _revoke(uint256 tokenId, uint16 reason, string memory reasonURI, bool refund) internal {
+        uint256 refunded = 0;
+        if (refund) {
+            uint64 expiry = _copyInfo[tokenId].expireAt;
+            refunded = IPaidMintable(_mintInfo[_copyInfo[tokenId].copyHash].mintable).refund{value: msg.value}(
+                ownerOf(tokenId),
+                tokenId,
+                _copyInfo[tokenId].copyHash,
+                expiry > uint64(block.timestamp) ? expiry - uint64(block.timestamp) : 0,
+                _msgSender()
+            );
+        } else {
+            require(msg.value == 0, 'Copy: Unexpected Payment');
+        }
+        _deregisterAndBurn(tokenId);
+        emit Revoke(tokenId);
+        emit RevokeReason(tokenId, reason, reasonURI, refunded);
+    }
+
+    /**
+     * @dev Remove the copy NFT token from the mappings. And clear the memory of the copy NFT token information
+     *
+     * @param tokenId The copy NFT token Id
+     */
+    function _deregister(uint256 tokenId) internal virtual {
+        bytes32 creatorKey = _creatorKeyOf(tokenId);
+        _removeHeldCopy(ownerOf(tokenId), creatorKey, tokenId);
+        if (_clearUser(tokenId, creatorKey)) {
+            emit UpdateUser(tokenId, address(0), 0);
+        }
+        uint256 copyIndex = _copyIndex[tokenId];
+        uint256 lastCopyIndex = _copyCount[creatorKey]--;
+        if (copyIndex < lastCopyIndex) {
+            _copys[creatorKey][copyIndex] = _copys[creatorKey][lastCopyIndex];
+            _copyIndex[_copys[creatorKey][lastCopyIndex]] = copyIndex;
+        }
+        delete _copys[creatorKey][lastCopyIndex];
+        delete _copyIndex[tokenId];
+        delete _copyInfo[tokenId];
+        delete _revocations[tokenId];
+    }
+
+    /**
+     * @notice Deregister, clear up information related to a copy NFT and burn the NFT
+     *
+     * @param tokenId The copy NFT token Id
+     *
+     */
+    function _deregisterAndBurn(uint256 tokenId) internal virtual {
+        _deregister(tokenId);
+        _burn(tokenId);
+    }
+
+    /**
+     * @dev Revert unless the sender can revoke a copy NFT, see {_isApprovedOrRevoker}
+     */
+    function _checkRevoker(uint256 tokenId) internal view {
+        require(
+            _isApprovedOrRevoker(_msgSender(), _copyInfo[tokenId].copyHash),
+            'Copy: caller is not creator nor approved'
+        );
+    }
+
+    /**
+     * @dev Whether the spender can revoke the copy NFTs of a rule. The fallback revoker of the rule stands in for
+     * the creator once the creator token is burned, see {Copy-getOrphanPolicy}
+     */
+    function _isApprovedOrRevoker(address spender, bytes32 copyHash) internal view returns (bool) {
+        (ICopy.OrphanPolicy policy, address fallbackRevoker) = _getOrphanPolicy(copyHash);
+        if (policy == ICopy.OrphanPolicy.FALLBACK_REVOKER && _isBurned(copyHash)) {
+            return spender == fallbackRevoker;
+        }
+        return _isApprovedOrCreator(spender, copyHash);
+    }
+}
@@ -6,8 +6,9 @@ import './IERC721Copy/IERC721Copy.sol';
 /**
  * @notice The Interface of Copy Contract. Creator can use the setMintableRule to specify the condition for minting
  * the copy. Depending on the mintable rules, collector can copy, then update, transfer, extend or destroy the copy. Creator 
- * can revoke the copy if allowed in mintable rules. This interface is intended to be used for single creator NFT contract. 
- * It can be easily extended to accept request from multiple create NFT contracts.
+ * can revoke the copy if allowed in mintable rules. Each rule names the creator NFT contract of its creator token, any
+ * ERC-721 contract with metadata, and the copies are indexed by both the contract and the tokenId of the creator token.
+ * The functions taking only a creator tokenId refer to the default creator NFT contract, see {getCreatorContract}.
  */
 interface ICopy is IERC721Copy {
 
@@ -17,13 +18,214 @@ interface ICopy is IERC721Copy {
      * @param expiredAt The expiration timestamp of the nft token
      * @param copyURI Shows the contentUri copied from the creator token for collection purposes
      * the copy NFT owner will get, for instance, the right to create derivative work based on the creator NFT content
+     * @param version The version of the creator token content that the copyURI was copied from, see {ICreator-Version}.
+     * It is 0 if the creator NFT contract does not implement {ICreator}
      */
     struct CopyInfo {
         string copyURI;
         bytes32 copyHash;
         uint64 expireAt;
+        uint64 version;
     }
 
+    /**
+     * @dev Struct containing the subscription of a copy NFT, set by its holder
+     *
+     * @param duration The duration added to the copy NFT at each renewal
+     * @param periods The number of renewals left
+     */
+    struct Subscription {
+        uint64 duration;
+        uint64 periods;
+    }
+
+    /**
+     * @dev Struct containing the user of a copy NFT rented out by its holder, see {IERC4907}
+     *
+     * @param user The address allowed to use the copy NFT
+     * @param expires The timestamp at which the rental ends, no later than the expiry of the copy NFT
+     */
+    struct UserInfo {
+        address user;
+        uint64 expires;
+    }
+
+    /**
+     * @dev Struct containing a revocation of a copy NFT pending until the end of its grace period
+     *
+     * @param effectiveAt The timestamp from which the revocation can be executed, 0 if no revocation is pending
+     * @param refund Whether the holder is refunded the remaining validity, see {IPaidMintable-refund}
+     * @param reason The reason code chosen by the creator
+     * @param reasonURI The URI of the explanation of the revocation
+     */
+    struct Revocation {
+        uint64 effectiveAt;
+        bool refund;
+        uint16 reason;
+        string reasonURI;
+    }
+
+    /**
+     * @dev How the copies minted with a rule can be transferred. Expired copies cannot be transferred in any mode
+     *
+     * FREE: transferable by the holder
+     * SOULBOUND: bound to the collector, see {IERC5192}. The mode of the rules that are not transferable
+     * COOLING_PERIOD: transferable once the holder has held the copy for the cooling period of the rule
+     * TOKEN_HOLDERS: transferable only to holders of the requiredERC721Token of the rule, see {IPaidMintable}
+     */
+    enum TransferMode {
+        FREE,
+        SOULBOUND,
+        COOLING_PERIOD,
+        TOKEN_HOLDERS
+    }
+
+    /**
+     * @dev What becomes of the copies of a rule once its creator token is burned. No copy can be minted, extended
+     * or updated from then on, and the functions of the creator are disabled
+     *
+     * FREEZE: the copies live at the time of the burn are permanent, they never expire and cannot be revoked. The
+     * copies that had expired stay expired. Only the rules of creator contracts recording the time of the burn, see
+     * {ICreator-burnedAt}, can take this policy, which is the default
+     * EXPIRE: the copies expire immediately
+     * FALLBACK_REVOKER: the copies expire as usual and can be revoked by the fallback revoker of the rule, which
+     * stands in for the creator in {revoke}, {executeRevocation} and {cancelRevocation}
+     */
+    enum OrphanPolicy {
+        FREEZE,
+        EXPIRE,
+        FALLBACK_REVOKER
+    }
+
+    /**
+     * @dev Mint a copy of a creator token with data supplied by the collector. The mintData is forwarded to
+     * mintable rules supporting the {IDataMintable} interface, and must be empty for other mintable rules
+     *
+     * @param to The address that the copy NFT will be minted to
+     * @param copyHash The hash of the copy configuration
+     * @param duration The validity duration of the copy NFT
+     * @param mintData The data supplied to the mintable rule
+     *
+     * @return uint256 Returns the tokenId of the copy NFT
+     */
+    function create(address to, bytes32 copyHash, uint64 duration, bytes calldata mintData) external payable returns (uint256);
+
+    /**
+     * @dev Extend a copy NFT with data supplied by the collector, the mintData is forwarded as in {create}
+     *
+     * @param tokenId The copy NFT tokenId
+     * @param duration The duration to be extended
+     * @param mintData The data supplied to the mintable rule
+     *
+     * @return uint64 Returns the new expiry timestamp of the copy NFT
+     */
+    function extend(uint256 tokenId, uint64 duration, bytes calldata mintData) external payable returns (uint64);
+
+    /**
+     * @dev Opt a copy NFT in to automatic renewals, or out of them with zero periods. The subscription is
+     * cleared when the copy NFT is transferred or burnt
+     *
+     * @param tokenId The copy NFT tokenId
+     * @param duration The duration added to the copy NFT at each renewal
+     * @param periods The maximum number of renewals
+     */
+    function setSubscription(uint256 tokenId, uint64 duration, uint64 periods) external;
+
+    /**
+     * @dev Extend a subscribed copy NFT by one period, callable by anyone once the copy NFT is about to expire.
+     * The fee of the period is charged by the mintable rule to the holder, so renewals are meant for rules
+     * with ERC20 fee tokens that the holder has approved to the mintable rule, or for free rules
+     *
+     * @param tokenId The copy NFT tokenId
+     *
+     * @return uint64 Returns the new expiry timestamp of the copy NFT
+     */
+    function renew(uint256 tokenId) external returns (uint64);
+
+    /**
+     * @dev Update the copyURI of a copy NFT to a chosen version of the content of the creator token, under the
+     * same conditions as {IERC721Copy-update}. The holder can move the copy NFT to an older version as well
+     *
+     * @param tokenId The copy NFT tokenId
+     * @param version The version of the content, see {ICreator-getVersion}. 0 for the latest content, the only
+     * version available when the creator NFT contract does not implement {ICreator}
+     *
+     * @return string Returns the new copyURI
+     */
+    function update(uint256 tokenId, uint64 version) external returns (string memory);
+
+    /**
+     * @dev Update the live copy NFTs of a rule to a version of the content, whether or not the holders allow
+     * updates, if the rule encodes it in its mintInfoAdditional, see {isPushable}. The copies of the creator
+     * token are walked by their index, see {getCopyByIndex}, from fromIndex and for at most count indexes,
+     * skipping the copies of other rules and the expired copies. Burning a copy moves the last copy to its
+     * index, so a push walked over several transactions from the first index up may miss copies when copies
+     * are burned in between. Walked from the last index down, only the copies minted in between may be missed
+     *
+     * @param copyHash The hash of the copy configuration
+     * @param version The version of the content, as in {update}
+     * @param fromIndex The first index to walk, from 1
+     * @param count The number of indexes to walk, at most 100
+     *
+     * @return uint256 Returns the index from which to continue the push, past the copy count once it is over
+     */
+    function pushUpdate(bytes32 copyHash, uint64 version, uint256 fromIndex, uint256 count) external returns (uint256);
+
+    /**
+     * @dev Revoke a copy NFT with a reason. With a grace period, the copy NFT is pending revocation until the
+     * end of the grace period, then revoked with {executeRevocation}. It cannot be extended or transferred while
+     * pending. The holder can be refunded the remaining validity at the time of the revocation, the native tokens
+     * sent pay the refund not covered by the fees held in escrow for the creator, see {IPaidMintable-refund}
+     *
+     * @param tokenId The copy NFT tokenId
+     * @param reason The reason code of the revocation
+     * @param reasonURI The URI of the explanation of the revocation
+     * @param gracePeriod The time before the revocation can be executed, 0 to revoke the copy NFT immediately
+     * @param refund Whether the holder is refunded
+     */
+    function revoke(
+        uint256 tokenId,
+        uint16 reason,
+        string calldata reasonURI,
+        uint64 gracePeriod,
+        bool refund
+    ) external payable;
+
+    /**
+     * @dev Revoke a copy NFT pending revocation once its grace period is over
+     *
+     * @param tokenId The copy NFT tokenId
+     */
+    function executeRevocation(uint256 tokenId) external payable;
+
+    /**
+     * @dev Cancel the pending revocation of a copy NFT
+     *
+     * @param tokenId The copy NFT tokenId
+     */
+    function cancelRevocation(uint256 tokenId) external;
+
+    /**
+     * @param tokenId The copy NFT tokenId
+     *
+     * @return revocation Returns the pending revocation of the copy NFT
+     */
+    function getRevocation(uint256 tokenId) external view returns (Revocation memory);
+
+    /**
+     * @param tokenId The copy NFT tokenId
+     *
+     * @return bool Returns whether a revocation of the copy NFT is pending
+     */
+    function isPendingRevocation(uint256 tokenId) external view returns (bool);
+
+    /**
+     * @param tokenId The copy NFT tokenId
+     *
+     * @return subscription Returns the subscription of the copy NFT
+     */
+    function getSubscription(uint256 tokenId) external view returns (Subscription memory);
+
     /**
      * @param tokenId The copy NFT tokenId
      *
@@ -38,6 +240,62 @@ interface ICopy is IERC721Copy {
      */
     function getMintInfo(bytes32 copyHash) external view returns (MintInfo memory);
 
+    /**
+     * @dev The transfer mode of a rule is encoded in its mintInfoAdditional after the royalty, as
+     * abi.encode(royaltyBps, mode, coolingPeriod, rentable). Transferable rules without it are freely transferable
+     *
+     * @param copyHash The hash of the mintInfo
+     *
+     * @return mode Returns the transfer mode of the copies minted with the rule
+     * @return coolingPeriod Returns the time a holder must hold a copy before transferring it, in seconds
+     */
+    function getTransferMode(bytes32 copyHash) external view returns (TransferMode mode, uint64 coolingPeriod);
+
+    /**
+     * @dev The holder of a copy NFT can rent it out with {IERC4907-setUser} if the rule encodes it in its
+     * mintInfoAdditional, see {getTransferMode}, and the copy NFT has not expired
+     *
+     * @param tokenId The copy NFT tokenId
+     *
+     * @return bool Returns whether the copy NFT can be rented out
+     */
+    function isRentable(uint256 tokenId) external view returns (bool);
+
+    /**
+     * @dev The creator can push mandatory updates, such as takedowns or corrections, to the copies of a rule
+     * with {pushUpdate} if the rule encodes it in its mintInfoAdditional after the rental flag, see {isRentable}
+     *
+     * @param copyHash The hash of the copy configuration
+     *
+     * @return bool Returns whether the creator can push updates to the copies of the rule
+     */
+    function isPushable(bytes32 copyHash) external view returns (bool);
+
+    /**
+     * @dev The orphan policy of a rule is encoded in its mintInfoAdditional after the push flag, see {isPushable}.
+     * Rules without it freeze their copies
+     *
+     * @param copyHash The hash of the copy configuration
+     *
+     * @return policy Returns what becomes of the copies once the creator token is burned
+     * @return fallbackRevoker Returns the address allowed to revoke the copies, for the FALLBACK_REVOKER policy
+     */
+    function getOrphanPolicy(bytes32 copyHash) external view returns (OrphanPolicy policy, address fallbackRevoker);
+
+    /**
+     * @param tokenId The copy NFT tokenId
+     *
+     * @return bool Returns whether the creator token of the copy NFT has been burned, see {getOrphanPolicy}
+     */
+    function isOrphaned(uint256 tokenId) external view returns (bool);
+
+    /**
+     * @param tokenId The copy NFT tokenId
+     *
+     * @return uint64 Returns the timestamp at which the holder received the copy NFT, by mint or by transfer
+     */
+    function acquiredAt(uint256 tokenId) external view returns (uint64);
+
     /**
      * @param creatorId The creator NFT tokenId
      *
@@ -45,12 +303,22 @@ interface ICopy is IERC721Copy {
      */
     function getCopyHashes(uint256 creatorId) external view returns (bytes32[] memory);
 
+    /**
+     * @dev Same as {getCopyHashes}, for a creator token of any creator NFT contract
+     */
+    function getCopyHashes(address creatorContract, uint256 creatorId) external view returns (bytes32[] memory);
+
     /**
      * @param creatorId The creator NFT tokenId
      *
      * @return copyCount Returns total number of copies minted based on a specific creator token
      */
     function getCopyCount(uint256 creatorId) external view returns (uint256);
+
+    /**
+     * @dev Same as {getCopyCount}, for a creator token of any creator NFT contract
+     */
+    function getCopyCount(address creatorContract, uint256 creatorId) external view returns (uint256);
     
     /**
      * @param creatorId The creator NFT token Id
@@ -60,6 +328,19 @@ interface ICopy is IERC721Copy {
      */
     function getCopyByIndex(uint256 creatorId, uint256 index) external view returns (uint256);
 
+    /**
+     * @dev Same as {getCopyByIndex}, for a creator token of any creator NFT contract
+     */
+    function getCopyByIndex(address creatorContract, uint256 creatorId, uint256 index) external view returns (uint256);
+
+    /**
+     * @param tokenId The copy NFT tokenId
+     *
+     * @return creatorContract The creator NFT contract of the rule of the copy NFT
+     * @return creatorId The creator NFT tokenId that the copy NFT is based on
+     */
+    function creatorTokenOf(uint256 tokenId) external view returns (address creatorContract, uint256 creatorId);
+
     /**
      * @param tokenId The copy NFT tokenId
      *
@@ -72,13 +353,56 @@ interface ICopy is IERC721Copy {
      * copy that has not expired and has not been revoked by the creator
      * @param creatorId The creator NFT tokenId
      *
-     * @return bool Returns true if the collector has a valid copy of the creator NFT
+     * @return bool Returns true if the collector has a valid copy of the creator NFT. The cost does not depend on the
+     * copies held: it reads the creator token holder, and its burn time once burned
      */
     function hasValidCopy(address collector, uint256 creatorId) external view returns (bool);
 
+    /**
+     * @dev Same as {hasValidCopy}, for a creator token of any creator NFT contract
+     */
+    function hasValidCopy(address collector, address creatorContract, uint256 creatorId) external view returns (bool);
+
+    /**
+     * @dev Same as {hasValidCopy}, also counting the copy NFTs that the address currently rents
+     *
+     * @param account The holder or the user of the copy NFTs
+     * @param creatorId The creator NFT tokenId
+     *
+     * @return bool Returns whether the address holds or rents a copy NFT of the creator token that has not expired
+     */
+    function hasValidUse(address account, uint256 creatorId) external view returns (bool);
+
+    /**
+     * @dev Same as {hasValidUse}, for a creator token of any creator NFT contract
+     */
+    function hasValidUse(address account, address creatorContract, uint256 creatorId) external view returns (bool);
+
+    /**
+     * @param collector The address who may process valid copies of a particular creator NFT
+     * @param creatorId The creator NFT tokenId
+     *
+     * @return copyIds Returns the tokenIds of the valid copies of the creator NFT held by the collector
+     */
+    function validCopiesOf(address collector, uint256 creatorId) external view returns (uint256[] memory);
+
+    /**
+     * @dev Same as {validCopiesOf}, for a creator token of any creator NFT contract
+     */
+    function validCopiesOf(
+        address collector,
+        address creatorContract,
+        uint256 creatorId
+    ) external view returns (uint256[] memory);
+
     /**
       * @param collector The address who may process copies of a particular creator NFT.
       * @param creatorId The creator NFT tokenId
      */
     function tokenCounter(address collector, uint256 creatorId) external view returns (uint256);
+
+    /**
+     * @dev Same as {tokenCounter}, for a creator token of any creator NFT contract
+     */
+    function tokenCounter(address collector, address creatorContract, uint256 creatorId) external view returns (uint256);
 }
@@ -0,0 +1,18 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.10;
+
+/**
+ * @notice The Interface of the metadata renderer of copy NFTs. The Copy contract delegates {IERC721Metadata-tokenURI}
+ * to the renderer, so that the metadata can describe the copy itself, i.e. its statement, expiry and permissions,
+ * instead of returning the content uri copied from the creator token.
+ */
+interface ICopyRenderer {
+
+    /**
+     * @param copyContract The address of the Copy contract that holds the copy NFT
+     * @param tokenId The copy NFT tokenId
+     *
+     * @return string Returns the token URI of the copy NFT
+     */
+    function tokenURI(address copyContract, uint256 tokenId) external view returns (string memory);
+}
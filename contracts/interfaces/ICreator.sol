@@ -4,7 +4,9 @@ pragma solidity 0.8.10;
 interface ICreator {
     
     /**
-     * @dev the permission signature for the creator to create a new NFT tokens
+     * @dev the permission signature for the creator to create a new NFT tokens. It is an EIP-712 signature over
+     * Copyright(string contentUri,bytes32 contentHash,string notice,uint256 nonce,uint256 deadline), where nonce is
+     * the current value of {nonces} for the signer, and contentHash is bytes32(0) for content published without a hash
      * @param deadline The deadline of the permission signature
      * @param v The v of the permission signature
      * @param r The r of the permission signature
@@ -17,6 +19,29 @@ interface ICreator {
         bytes32 s;
     }
 
+    /**
+     * @dev A version of the content of a creator token. Versions are append-only, a new version is added by every
+     * update of the content uri
+     * @param contentUri The content uri of the version
+     * @param contentHash The keccak256 hash of the content as declared by the creator, empty if not declared
+     * @param timestamp The time at which the version was added
+     */
+    struct Version {
+        string contentUri;
+        bytes32 contentHash;
+        uint64 timestamp;
+    }
+
+    /**
+     * @dev A co-author of a creator token and their share of its revenue
+     * @param account The address of the co-author, signing the copyright statement
+     * @param weight The share weight of the co-author, the fees and royalties are split in proportion to the weights
+     */
+    struct Coauthor {
+        address account;
+        uint96 weight;
+    }
+
     /**
      * @dev This function is called to mint a creator token and at the same time entrust an operator contract to manage the token
      *
@@ -32,6 +57,17 @@ interface ICreator {
         PermSig memory permSig
     ) external returns (uint256);
 
+    /**
+     * @dev Same as {createWithOperator}, declaring the hash of the content of the first version
+     */
+    function createWithOperator(
+        address to,
+        address operator,
+        string memory contentUri,
+        bytes32 contentHash,
+        PermSig memory permSig
+    ) external returns (uint256);
+
     /**
      * @dev This function is called to mint a creator token
      *
@@ -45,6 +81,36 @@ interface ICreator {
         PermSig memory permSig
     ) external returns (uint256);
 
+    /**
+     * @dev Same as {create}, declaring the hash of the content of the first version
+     */
+    function create(
+        address to,
+        string memory contentUri,
+        bytes32 contentHash,
+        PermSig memory permSig
+    ) external returns (uint256);
+
+    /**
+     * @dev This function is called to mint a creator token of a collaborative work. Every co-author signs an
+     * EIP-712 statement over CoauthoredCopyright(string contentUri,bytes32 contentHash,string notice,address to,
+     * Coauthor[] coauthors,uint256 nonce,uint256 deadline), binding the content, the receiver and the shares. The revenue of the token is then split
+     * among the co-authors, see {getCoauthors}, and the content is updated by the holder as for other tokens
+     *
+     * @param to address of creator token receiver
+     * @param contentUri the content uri of the creator token
+     * @param contentHash the hash of the content of the first version
+     * @param coauthors the co-authors sorted by ascending address, with non-zero weights
+     * @param permSigs the permission signatures of the co-authors, in the order of the co-authors
+     */
+    function createWithCoauthors(
+        address to,
+        string memory contentUri,
+        bytes32 contentHash,
+        Coauthor[] memory coauthors,
+        PermSig[] memory permSigs
+    ) external returns (uint256);
+
     /**
      * @dev This function is called to update the content uri of a creator token
      *
@@ -58,6 +124,62 @@ interface ICreator {
         PermSig memory permSig
     ) external;
 
+    /**
+     * @dev Same as {update}, declaring the hash of the content of the new version
+     */
+    function update(
+        uint256 pubId,
+        string memory contentUri,
+        bytes32 contentHash,
+        PermSig memory permSig
+    ) external;
+
+    /**
+     * @dev Returns the current version of the content of a creator token, versions are numbered from 1
+     *
+     * @param pubId the public id of the creator token
+     */
+    function getVersionCount(uint256 pubId) external view returns (uint256);
+
+    /**
+     * @dev Returns a version of the content of a creator token, including the versions before a burn
+     *
+     * @param pubId the public id of the creator token
+     * @param version the version number, from 1 to {getVersionCount}
+     */
+    function getVersion(uint256 pubId, uint256 version) external view returns (Version memory);
+
+    /**
+     * @dev Returns all the versions of the content of a creator token, oldest first
+     *
+     * @param pubId the public id of the creator token
+     */
+    function getVersions(uint256 pubId) external view returns (Version[] memory);
+
+    /**
+     * @dev Returns the content uri of a version of a creator token
+     *
+     * @param pubId the public id of the creator token
+     * @param version the version number, from 1 to {getVersionCount}
+     */
+    function versionURI(uint256 pubId, uint256 version) external view returns (string memory);
+
+    /**
+     * @dev Returns the co-authors of a creator token, empty for a token created by a single author whose
+     * revenue goes to the holder of the token
+     *
+     * @param pubId the public id of the creator token
+     */
+    function getCoauthors(uint256 pubId) external view returns (Coauthor[] memory);
+
+    /**
+     * @dev Returns the payment splitter receiving the royalties of a co-authored creator token on behalf of its
+     * co-authors, see {PaymentSplitter}, or address(0) for a token created by a single author
+     *
+     * @param pubId the public id of the creator token
+     */
+    function getSplitter(uint256 pubId) external view returns (address);
+
     /**
      * @dev This function is called to burn a creator token. By burning the creator token, 
      * the author permanently lost control over the management of the copies.
@@ -66,6 +188,13 @@ interface ICreator {
      */
     function burn(uint256 pubId) external;
 
+    /**
+     * @dev Returns the timestamp at which a creator token was burned, 0 if it has not been burned
+     *
+     * @param pubId the public id of the creator token
+     */
+    function burnedAt(uint256 pubId) external view returns (uint64);
+
     /**
      * @dev This function is called to check whether a creator token exists
      *
@@ -73,4 +202,17 @@ interface ICreator {
      */
     function exists(uint256 pubId) external view returns (bool);
 
+    /**
+     * @dev Returns the nonce that the next copyright signature of the creator must include. The nonce
+     * increases by one every time a signature of the creator is consumed by create or update
+     *
+     * @param creator the address of the copyright holder
+     */
+    function nonces(address creator) external view returns (uint256);
+
+    /**
+     * @dev Returns the EIP-712 domain separator used for the copyright signatures
+     */
+    function DOMAIN_SEPARATOR() external view returns (bytes32);
+
 }
\ No newline at end of file
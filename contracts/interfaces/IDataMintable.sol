@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.10;
+
+import './IERC721Copy/IMintable.sol';
+
+/**
+ * @notice Mintable rules that take data supplied by the collector, such as a proof of eligibility, a signature,
+ * a coupon code or a chosen tier. The Copy contract forwards the mintData given to the {ICopy-create} and
+ * {ICopy-extend} functions taking it, if the mintable rule advertises this interface with ERC-165.
+ */
+interface IDataMintable is IMintable {
+
+    /**
+     * @dev Same as {IMintable-isMintable}, with the data supplied by the collector
+     *
+     * @param to the address that the NFT will be minted to
+     * @param copyHash the hash of the copy configuration
+     * @param duration the duration that the NFT validity can be extended
+     * @param mintData the data required by the rule, encoded into bytes
+     */
+    function isMintable(address to, bytes32 copyHash, uint64 duration, bytes calldata mintData) external payable;
+
+    /**
+     * @dev Same as {IMintable-isExtendable}, with the data supplied by the collector
+     *
+     * @param to the token holder of the copy NFT
+     * @param copyHash the hash of the copy configuration
+     * @param duration the duration that the NFT validity can be extended
+     * @param expireAt the expiry timestamp of the copy NFT before the extension
+     * @param mintData the data required by the rule, encoded into bytes
+     */
+    function isExtendable(
+        address to,
+        bytes32 copyHash,
+        uint64 duration,
+        uint64 expireAt,
+        bytes calldata mintData
+    ) external payable;
+}
@@ -0,0 +1,39 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.10;
+
+/**
+ * @notice Rental NFTs with a user role, see https://eips.ethereum.org/EIPS/eip-4907
+ */
+interface IERC4907 {
+
+    /**
+     * @dev Emitted when the user of an NFT or the expires of the user is changed. The zero address for user
+     * indicates that there is no user address
+     */
+    event UpdateUser(uint256 indexed tokenId, address indexed user, uint64 expires);
+
+    /**
+     * @dev Set the user and the expires of an NFT. Throws if the tokenId is not a valid NFT
+     *
+     * @param tokenId the NFT to set the user of
+     * @param user the new user of the NFT
+     * @param expires the UNIX timestamp at which the new user can no longer use the NFT
+     */
+    function setUser(uint256 tokenId, address user, uint64 expires) external;
+
+    /**
+     * @dev The zero address indicates that there is no user or the user has expired
+     *
+     * @param tokenId the NFT to get the user address for
+     * @return address the user address for this NFT
+     */
+    function userOf(uint256 tokenId) external view returns (address);
+
+    /**
+     * @dev The zero value indicates that there is no user
+     *
+     * @param tokenId the NFT to get the user expires for
+     * @return uint256 the user expires for this NFT
+     */
+    function userExpires(uint256 tokenId) external view returns (uint256);
+}
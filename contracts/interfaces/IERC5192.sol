@@ -0,0 +1,29 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.10;
+
+/**
+ * @notice Minimal soulbound NFTs, see https://eips.ethereum.org/EIPS/eip-5192
+ */
+interface IERC5192 {
+
+    /**
+     * @dev Emitted when the locking status is changed to locked
+     *
+     * @param tokenId the identifier of the token
+     */
+    event Locked(uint256 tokenId);
+
+    /**
+     * @dev Emitted when the locking status is changed to unlocked
+     *
+     * @param tokenId the identifier of the token
+     */
+    event Unlocked(uint256 tokenId);
+
+    /**
+     * @dev Returns the locking status of a soulbound token, and reverts if the token does not exist
+     *
+     * @param tokenId the identifier of the token
+     */
+    function locked(uint256 tokenId) external view returns (bool);
+}
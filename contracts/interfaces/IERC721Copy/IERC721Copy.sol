@@ -34,6 +34,20 @@ interface IERC721Copy {
      */
     event PauseMintableRule(bytes32 copyHash);
 
+    /**
+     * @dev Emitted when a paused mintable rule is resumed
+     * 
+     * @param copyHash The hash of the copy configuration
+     */
+    event ResumeMintableRule(bytes32 copyHash);
+
+    /**
+     * @dev Emitted when a mintable rule is closed permanently
+     * 
+     * @param copyHash The hash of the copy configuration
+     */
+    event CloseMintableRule(bytes32 copyHash);
+
     /**
      * @dev Emitted when a copy is created
      * 
@@ -95,16 +109,19 @@ interface IERC721Copy {
     * @param NIL Rule not exists
     * @param EXIST Rule exists for minting and extending
     * @param PAUSED Rule paused for minting but available for extending
+    * @param CLOSED Rule closed permanently for minting but available for extending, it cannot be set up again
     */
     enum State {
         NIL,
         EXIST,
-        PAUSED
+        PAUSED,
+        CLOSED
     }
 
     /**
      * @dev mintInfo struct that specifies the input to the minting function
      *
+     * @param creatorContract The NFT contract of the creator NFT, address(0) for the creator contract of the copy contract
      * @param creatorId The tokenId of the creator NFT that produces the original content
      * @param statement The copyright declaration by the creator token holder
      * @param transferable Indicates whether the token is transferable
@@ -122,6 +139,7 @@ interface IERC721Copy {
         bool updatable;
         bool revokable;
         bool extendable;
+        address creatorContract;
         uint256 creatorId;
         bytes mintInfoAdditional;
     }
@@ -149,6 +167,31 @@ interface IERC721Copy {
         bytes32 copyHash
     ) external;
 
+    /**
+     * @dev The creator can resume a paused mintable rule, with its current validation parameters
+     *
+     * @param copyHash the hash of the copy configuration for minting
+     */ 
+    function resumeMintableRule(
+        bytes32 copyHash
+    ) external;
+
+    /**
+     * @dev The creator can close a mintable rule permanently, no more copies can be minted with it
+     *
+     * @param copyHash the hash of the copy configuration for minting
+     */ 
+    function closeMintableRule(
+        bytes32 copyHash
+    ) external;
+
+    /**
+     * @param copyHash the hash of the copy configuration
+     *
+     * @return State Returns the state of the mintable rule
+     */
+    function getRuleState(bytes32 copyHash) external view returns (State);
+
     /**
      * @param copyId The copy NFT tokenId
      *
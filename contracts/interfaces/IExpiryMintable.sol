@@ -0,0 +1,22 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.10;
+
+import './IERC721Copy/IMintable.sol';
+
+/**
+ * @notice Mintable rules that depend on the expiry of a copy NFT to extend it, such as an extension window or a
+ * cap on its remaining validity. The Copy contract supplies the expiry of the copy NFT to the {isExtendable}
+ * function taking it, if the mintable rule advertises this interface with ERC-165.
+ */
+interface IExpiryMintable is IMintable {
+
+    /**
+     * @dev Same as {IMintable-isExtendable}, with the expiry of the copy NFT before the extension
+     *
+     * @param to the token holder of the copy NFT
+     * @param copyHash the hash of the copy configuration
+     * @param duration the duration that the NFT validity can be extended
+     * @param expireAt the expiry timestamp of the copy NFT before the extension
+     */
+    function isExtendable(address to, bytes32 copyHash, uint64 duration, uint64 expireAt) external payable;
+}
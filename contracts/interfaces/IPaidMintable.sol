@@ -13,6 +13,12 @@ interface IPaidMintable is IMintable{
     * @param extendAmount The token amount that is required for extending a copy token
     * @param fragmented Whether fragmented duration is enabled
     * @param duration The time duration that should add to the NFT token after mint
+    * @param maxValidity The maximum remaining validity of a copy token after a mint or an extension, 0 for no cap
+    * @param extendWindow The time before the expiry of a copy token from which it can be extended, 0 for any time
+    * @param extendRequiresToken Whether the requiredERC721Token must also be held to extend a copy token
+    * @param guarded Whether updates of the rule must keep the limit above the mint count, and keep the fee token
+    * and the minting and extension periods and must not raise the prices per duration once minting has started.
+    * A guarded rule cannot be unguarded
     */
     struct ValidationInfo {
         address feeToken;
@@ -24,6 +30,10 @@ interface IPaidMintable is IMintable{
         uint256 limit;
         uint64  start;
         uint64  time;
+        uint64  maxValidity;
+        uint64  extendWindow;
+        bool    extendRequiresToken;
+        bool    guarded;
     }
 
     /**
@@ -34,4 +44,74 @@ interface IPaidMintable is IMintable{
     */
     function getValidationInfo(bytes32 copyHash) external view returns (ValidationInfo memory);
 
+    /**
+    * @dev The fee of minting a copy token at the current block, in the fee token of the rule
+    *
+    * @param copyHash the hash of the copy token
+    * @param duration the validity duration of the copy token
+    * @return fee the fee to be paid by the collector
+    */
+    function quote(bytes32 copyHash, uint64 duration) external view returns (uint256);
+
+    /**
+    * @dev The refund of a revoked copy token, its remaining validity at the price paid for it. The remaining
+    * validity is refunded from the latest mint or extension backward, at the fee charged per duration for each
+    *
+    * @param tokenId the copy token
+    * @param remaining the remaining validity of the copy token
+    * @return refund the amount credited to the holder of the copy token, in the fee token of the rule
+    */
+    function getRefund(uint256 tokenId, uint64 remaining) external view returns (uint256);
+
+    /**
+    * @dev This function is called by the Copy contract once a copy token is minted or extended, to record the
+    * fee charged by the preceding call of {isMintable} or {isExtendable} for it, see {getRefund}
+    *
+    * @param tokenId the copy token minted or extended
+    */
+    function recordPayment(uint256 tokenId) external;
+
+    /**
+    * @dev This function is called by the Copy contract when a copy token is revoked with a refund. The refund,
+    * see {getRefund}, is credited to the holder of the copy token. It is taken from the fees held in escrow for
+    * the creator token holder first, the payer pays the rest
+    *
+    * @param to the holder of the revoked copy token
+    * @param tokenId the revoked copy token
+    * @param copyHash the hash of the copy token
+    * @param remaining the remaining validity of the copy token
+    * @param payer the address paying the refund not covered by the escrow, who approved the ERC20 fee token
+    * or sent the native tokens
+    * @return refund the amount credited to the holder of the copy token
+    */
+    function refund(
+        address to,
+        uint256 tokenId,
+        bytes32 copyHash,
+        uint64 remaining,
+        address payer
+    ) external payable returns (uint256);
+
+    /**
+    * @param copyHash the hash of the copy token
+    * @return version the number of times the rule has been set up, 0 if it has never been set up
+    */
+    function getRuleVersion(bytes32 copyHash) external view returns (uint256);
+
+    /**
+    * @dev Fees are held in escrow by the contract. This function transfers the whole balance of the caller
+    * in a fee token to the caller
+    *
+    * @param token the contract address of the fee token, address(0) for the native token
+    * @return amount the amount withdrawn
+    */
+    function withdraw(address token) external returns (uint256);
+
+    /**
+    * @param account the creator token holder credited with fees, or the collector credited with overpayments
+    * @param token the contract address of the fee token, address(0) for the native token
+    * @return amount the amount that the account can withdraw
+    */
+    function getBalance(address account, address token) external view returns (uint256);
+
 }
\ No newline at end of file
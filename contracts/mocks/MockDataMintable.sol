@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import '../interfaces/IDataMintable.sol';
+import '../Mintable.sol';
+
+/**
+ * @notice A Mintable contract that records the data supplied by the collectors
+ */
+contract MockDataMintable is Mintable, IDataMintable {
+
+    event MintData(bytes32 copyHash, bytes mintData);
+
+    constructor (address copyContract_) Mintable(copyContract_) {}
+
+    function setupRule(bytes32 copyHash, bytes calldata ruleData) public override(IMintable, Mintable) {
+        super.setupRule(copyHash, ruleData);
+    }
+
+    function isMintable(
+        address to,
+        bytes32 copyHash,
+        uint64 duration,
+        bytes calldata mintData
+    ) external payable override onlyCopy {
+        _registerMint(to, copyHash, duration);
+        emit MintData(copyHash, mintData);
+    }
+
+    function isExtendable(
+        address to,
+        bytes32 copyHash,
+        uint64 duration,
+        uint64 expireAt,
+        bytes calldata mintData
+    ) external payable override onlyCopy {
+        _validateExtend(to, copyHash, duration, expireAt);
+        emit MintData(copyHash, mintData);
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId == type(IDataMintable).interfaceId || super.supportsInterface(interfaceId);
+    }
+}
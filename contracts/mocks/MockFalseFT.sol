@@ -0,0 +1,15 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import '@openzeppelin/contracts/token/ERC20/ERC20.sol';
+
+/**
+ * @notice An ERC20 token that returns false instead of reverting on failed transfers
+ */
+contract MockFalseFT is ERC20 {
+    constructor(string memory name_, string memory symbol_) ERC20(name_, symbol_) {}
+
+    function transferFrom(address, address, uint256) public pure override returns (bool) {
+        return false;
+    }
+}
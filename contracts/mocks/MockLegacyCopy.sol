@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.10;
+
+import '../Copy.sol';
+
+/**
+ * @notice A Copy contract keeping the former hasValidCopy, which scans all the copies of the collector, to
+ * benchmark the index of the copies held
+ */
+contract MockLegacyCopy is Copy {
+
+    constructor (
+        string memory name_,
+        string memory symbol_,
+        address creatorContract_,
+        address trustedForwarder_,
+        address extension_,
+        address revocationExtension_
+    ) Copy(name_, symbol_, creatorContract_, trustedForwarder_, extension_, revocationExtension_) {}
+
+    function legacyHasValidCopy(address collector, uint256 creatorId) external view returns (bool) {
+        uint256 count = balanceOf(collector);
+        for (uint256 i = 0; i < count; i++) {
+            uint256 copyId = tokenOfOwnerByIndex(collector, i);
+            if (creatorOf(copyId) == creatorId && ! isExpired((copyId))) {
+                return true;
+            }
+        }
+        return false;
+    }
+}
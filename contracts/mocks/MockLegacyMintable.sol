@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: MIT
+pragma solidity >=0.8.0 <0.9.0;
+
+import '../Mintable.sol';
+
+/**
+ * @notice A Mintable contract that does not take the expiry of the copies it extends, see {IExpiryMintable}
+ */
+contract MockLegacyMintable is Mintable {
+
+    constructor (address copyContract_) Mintable(copyContract_) {}
+
+    function isExtendable(address, bytes32, uint64, uint64) external payable override {
+        revert("MockLegacyMintable: Expiry Not Supported");
+    }
+
+    function supportsInterface(bytes4 interfaceId) public view virtual override returns (bool) {
+        return interfaceId != type(IExpiryMintable).interfaceId && super.supportsInterface(interfaceId);
+    }
+}
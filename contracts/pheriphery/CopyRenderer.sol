@@ -0,0 +1,115 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.10;
+
+import '@openzeppelin/contracts/utils/Base64.sol';
+import '@openzeppelin/contracts/utils/Strings.sol';
+
+import '../interfaces/ICopy.sol';
+import '../interfaces/ICopyRenderer.sol';
+
+/**
+ * @notice Renders the metadata of copy NFTs on chain, as a base64 encoded JSON data URI. The metadata links to the
+ * content of the creator token and exposes the statement, expiry and permissions of the copy as attributes.
+ */
+contract CopyRenderer is ICopyRenderer {
+    using Strings for uint256;
+
+    /// @inheritdoc ICopyRenderer
+    function tokenURI(address copyContract, uint256 tokenId) external view override returns (string memory) {
+        ICopy.CopyInfo memory copyInfo = ICopy(copyContract).getCopyInfo(tokenId);
+        ICopy.MintInfo memory mintInfo = ICopy(copyContract).getMintInfo(copyInfo.copyHash);
+        string memory contentUri = _escape(copyInfo.copyURI);
+        string memory creatorId = mintInfo.creatorId.toString();
+
+        bytes memory json = abi.encodePacked(
+            '{"name":"Copy of Creator #', creatorId,
+            '","description":"A ', _statementName(mintInfo.statement),
+            ' copy of the creator token #', creatorId
+        );
+        json = abi.encodePacked(
+            json,
+            '","external_url":"', contentUri,
+            '","content_uri":"', contentUri,
+            '","attributes":', _attributes(copyContract, tokenId, copyInfo, mintInfo),
+            '}'
+        );
+        return string(abi.encodePacked('data:application/json;base64,', Base64.encode(json)));
+    }
+
+    function _attributes(
+        address copyContract,
+        uint256 tokenId,
+        ICopy.CopyInfo memory copyInfo,
+        ICopy.MintInfo memory mintInfo
+    ) internal view returns (bytes memory) {
+        bytes memory attributes = abi.encodePacked(
+            '[{"trait_type":"Statement","value":"', _statementName(mintInfo.statement),
+            '"},{"trait_type":"Status","value":"', _status(copyContract, tokenId),
+            '"},{"display_type":"date","trait_type":"Expire At","value":', uint256(copyInfo.expireAt).toString()
+        );
+        attributes = abi.encodePacked(
+            attributes,
+            '},{"trait_type":"Transferable","value":"', _yesNo(mintInfo.transferable),
+            '"},{"trait_type":"Updatable","value":"', _yesNo(mintInfo.updatable),
+            '"},{"trait_type":"Revokable","value":"', _yesNo(mintInfo.revokable)
+        );
+        return abi.encodePacked(
+            attributes,
+            '"},{"trait_type":"Extendable","value":"', _yesNo(mintInfo.extendable),
+            '"},{"trait_type":"Copy Hash","value":"', uint256(copyInfo.copyHash).toHexString(32),
+            '"}]'
+        );
+    }
+
+    function _status(address copyContract, uint256 tokenId) internal view virtual returns (string memory) {
+        return ICopy(copyContract).isExpired(tokenId) ? 'Expired' : 'Valid';
+    }
+
+    function _statementName(IERC721Copy.Statement statement) internal pure returns (string memory) {
+        if (statement == IERC721Copy.Statement.COLLECT) return 'COLLECT';
+        if (statement == IERC721Copy.Statement.USE) return 'USE';
+        if (statement == IERC721Copy.Statement.MODIFY) return 'MODIFY';
+        return 'DISTRIBUTE';
+    }
+
+    function _yesNo(bool value) internal pure returns (string memory) {
+        return value ? 'Yes' : 'No';
+    }
+
+    /**
+     * @dev Escapes quotes, backslashes and control characters so that the string can be embedded in JSON
+     */
+    function _escape(string memory value) internal pure returns (string memory) {
+        bytes memory input = bytes(value);
+        uint256 length = input.length;
+        for (uint256 i = 0; i < input.length; i++) {
+            if (input[i] == '"' || input[i] == '\\') length += 1;
+            else if (uint8(input[i]) < 0x20) length += 5;
+        }
+        if (length == input.length) return value;
+
+        bytes memory output = new bytes(length);
+        uint256 j = 0;
+        for (uint256 i = 0; i < input.length; i++) {
+            bytes1 char = input[i];
+            if (char == '"' || char == '\\') {
+                output[j++] = '\\';
+                output[j++] = char;
+            } else if (uint8(char) < 0x20) {
+                output[j++] = '\\';
+                output[j++] = 'u';
+                output[j++] = '0';
+                output[j++] = '0';
+                output[j++] = _hexDigit(uint8(char) >> 4);
+                output[j++] = _hexDigit(uint8(char) & 0x0f);
+            } else {
+                output[j++] = char;
+            }
+        }
+        return string(output);
+    }
+
+    function _hexDigit(uint8 value) internal pure returns (bytes1) {
+        return bytes1(value < 10 ? value + 0x30 : value + 0x57);
+    }
+}
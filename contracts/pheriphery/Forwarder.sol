@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity 0.8.10;
+
+import '@openzeppelin/contracts/metatx/MinimalForwarder.sol';
+
+/**
+ * @notice The ERC-2771 forwarder trusted by the Copy, Creator and Helper contracts. A relayer submits the requests
+ * signed by collectors and creators and pays the gas, the target contracts read the signer as the sender
+ */
+contract Forwarder is MinimalForwarder {}
@@ -4,6 +4,9 @@ pragma solidity 0.8.10;
 import '@openzeppelin/contracts/token/ERC721/IERC721.sol';
 import '@openzeppelin/contracts/token/ERC721/extensions/IERC721Metadata.sol';
 import '@openzeppelin/contracts/token/ERC721/extensions/IERC721Enumerable.sol';
+import '@openzeppelin/contracts/token/ERC20/extensions/draft-IERC20Permit.sol';
+import '@openzeppelin/contracts/metatx/ERC2771Context.sol';
+import '@openzeppelin/contracts/utils/introspection/ERC165Checker.sol';
 
 import '../interfaces/ICreator.sol';
 import '../interfaces/ICopy.sol';
@@ -13,17 +16,32 @@ import '../libraries/Pagination.sol';
 
 import 'hardhat/console.sol';
 
-contract Helper {
+contract Helper is ERC2771Context {
 
     address private immutable _creatorContract;
     address private immutable _copyContract;
     address private immutable _mintableContract;
 
+    /**
+     * @notice An EIP-2612 permit of the collector for the fee token of a rule, the spender being the mintable
+     * contract of the rule, which pulls the fee from the collector
+     */
+    struct FeePermit {
+        address token;
+        address spender;
+        uint256 value;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
     constructor (
         address creatorContract_,
         address copyContract_,
-        address mintableContract_
-    ) {
+        address mintableContract_,
+        address trustedForwarder_
+    ) ERC2771Context(trustedForwarder_) {
         _creatorContract = creatorContract_;
         _copyContract = copyContract_;
         _mintableContract = mintableContract_;
@@ -36,7 +54,38 @@ contract Helper {
         ICopy.MintInfo[] memory mintInfo,
         bytes[] calldata mintableInitData
     ) external {
-        uint256 creatorId = ICreator(_creatorContract).createWithOperator(to, address(this), contentUri, permSig);
+        _createWithMintables(to, contentUri, bytes32(0), permSig, mintInfo, mintableInitData);
+    }
+
+    /*
+     * Same as createWithMintables, declaring the hash of the content of the first version of the creator token
+     */
+    function createWithMintables(
+        address to,
+        string memory contentUri,
+        bytes32 contentHash,
+        ICreator.PermSig memory permSig,
+        ICopy.MintInfo[] memory mintInfo,
+        bytes[] calldata mintableInitData
+    ) external {
+        _createWithMintables(to, contentUri, contentHash, permSig, mintInfo, mintableInitData);
+    }
+
+    function _createWithMintables(
+        address to,
+        string memory contentUri,
+        bytes32 contentHash,
+        ICreator.PermSig memory permSig,
+        ICopy.MintInfo[] memory mintInfo,
+        bytes[] calldata mintableInitData
+    ) internal {
+        uint256 creatorId = ICreator(_creatorContract).createWithOperator(
+            to,
+            address(this),
+            contentUri,
+            contentHash,
+            permSig
+        );
 
         for ( uint256 i = 0 ; i < mintInfo.length ; i++ ) {
             mintInfo[i].creatorId = creatorId;
@@ -56,13 +105,72 @@ contract Helper {
     {
         uint256[] memory copyIds = new uint256[](copyHash.length);
         for (uint256 i = 0; i < copyHash.length; i++) {
+            _checkPayer(to, copyHash[i]);
             copyIds[i] = ICopy(_copyContract).create{value: values[i]}(to, copyHash[i], duration[i]);
         }
         return copyIds;
     }
+
+    /*
+     * Same as batchCollect, with the data supplied to the mintable rule of each copy, see {ICopy-create}.
+     */
+    function batchCollect(
+        address to,
+        bytes32[] calldata copyHash,
+        uint64[] calldata duration,
+        uint256[] calldata values,
+        bytes[] calldata mintData
+    )
+        external payable
+        returns (uint256[] memory)
+    {
+        uint256[] memory copyIds = new uint256[](copyHash.length);
+        for (uint256 i = 0; i < copyHash.length; i++) {
+            _checkPayer(to, copyHash[i]);
+            copyIds[i] = ICopy(_copyContract).create{value: values[i]}(to, copyHash[i], duration[i], mintData[i]);
+        }
+        return copyIds;
+    }
     
     /*
-     * Function for the certificate creator to issue a batch of Issue NFTs to recipients.
+     * Same as batchCollect for collectors without native tokens, typically relayed by the trusted forwarder. The
+     * fees in ERC20 tokens are approved by the permits, so only the collector may call it. A permit already used,
+     * e.g. front-run by someone else, is skipped as the allowance is granted either way, and the Copy contract only
+     * lets the collector spend it, see {Copy-create}.
+     */
+    function batchCollectWithPermits(
+        address to,
+        bytes32[] calldata copyHash,
+        uint64[] calldata duration,
+        bytes[] calldata mintData,
+        FeePermit[] calldata permits
+    )
+        external
+        returns (uint256[] memory)
+    {
+        require(_msgSender() == to, 'Helper: Caller Is Not Collector');
+        for (uint256 i = 0; i < permits.length; i++) {
+            try IERC20Permit(permits[i].token).permit(
+                to,
+                permits[i].spender,
+                permits[i].value,
+                permits[i].deadline,
+                permits[i].v,
+                permits[i].r,
+                permits[i].s
+            ) {} catch {}
+        }
+
+        uint256[] memory copyIds = new uint256[](copyHash.length);
+        for (uint256 i = 0; i < copyHash.length; i++) {
+            copyIds[i] = ICopy(_copyContract).create(to, copyHash[i], duration[i], mintData[i]);
+        }
+        return copyIds;
+    }
+
+    /*
+     * Function for the certificate creator to issue a batch of Issue NFTs to recipients. Rules charging ERC20 fees
+     * pull them from the recipients, so they can only be issued to the caller.
      */
     function batchCreate(address[] memory recipients, bytes32 copyHash, uint64 duration, uint256[] calldata values)
         external payable
@@ -70,14 +178,53 @@ contract Helper {
     {
         uint256[] memory copyIds = new uint256[](recipients.length);
         for (uint256 i = 0; i < recipients.length; i++) {
+            _checkPayer(recipients[i], copyHash);
             copyIds[i] = ICopy(_copyContract).create{value: values[i]}(recipients[i], copyHash, duration);
         }
         return copyIds;
     }
 
+    /*
+     * Same as batchCreate, with the data supplied to the mintable rule for each recipient, see {ICopy-create}.
+     */
+    function batchCreate(
+        address[] memory recipients,
+        bytes32 copyHash,
+        uint64 duration,
+        uint256[] calldata values,
+        bytes[] calldata mintData
+    )
+        external payable
+        returns (uint256[] memory)
+    {
+        uint256[] memory copyIds = new uint256[](recipients.length);
+        for (uint256 i = 0; i < recipients.length; i++) {
+            _checkPayer(recipients[i], copyHash);
+            copyIds[i] = ICopy(_copyContract).create{value: values[i]}(recipients[i], copyHash, duration, mintData[i]);
+        }
+        return copyIds;
+    }
+
+    /**
+     * @dev The Helper mints on behalf of its callers as an operator of the Copy contract, see
+     * {Copy-whiteListOperator}. The ERC20 fees of a rule, pulled from the recipient, are charged to the caller only
+     */
+    function _checkPayer(address to, bytes32 copyHash) internal view {
+        if (_msgSender() == to) {
+            return;
+        }
+        address mintable = ICopy(_copyContract).getMintInfo(copyHash).mintable;
+        require(
+            !ERC165Checker.supportsInterface(mintable, type(IPaidMintable).interfaceId) ||
+                IPaidMintable(mintable).getValidationInfo(copyHash).feeToken == address(0),
+            'Helper: Caller Is Not Collector'
+        );
+    }
+
     // view functions
 
     struct CreatorView {
+        address creatorContract;
         uint256 creatorId;
         address holder;
         string tokenURI;
@@ -91,7 +238,11 @@ contract Helper {
         address holder;
         string tokenURI;
         uint64 expireAt;
+        // the version of the creator token content that the tokenURI was copied from
+        uint64 version;
         MintableView mintable;
+        // effectiveAt is 0 unless a revocation is pending
+        ICopy.Revocation revocation;
     }
 
     struct MintableView {
@@ -99,6 +250,7 @@ contract Helper {
         IPaidMintable.ValidationInfo valInfo;
         uint256 count;
         bytes32 copyHash;
+        IERC721Copy.State state;
     }
 
     struct CreatorFullView {
@@ -118,14 +270,29 @@ contract Helper {
 
     function getCreatorTokenById(
         uint256 creatorId
+    ) public view returns (CreatorView memory) {
+        return getCreatorTokenById(_creatorContract, creatorId);
+    }
+
+    /**
+     * @dev The holder and the tokenURI of a burned creator token are empty, its copies and rules are kept
+     */
+    function getCreatorTokenById(
+        address creatorContract,
+        uint256 creatorId
     ) public view returns (CreatorView memory) {
         CreatorView memory creatorView = CreatorView(
+            creatorContract,
             creatorId,
-            IERC721(_creatorContract).ownerOf(creatorId),
-            IERC721Metadata(_creatorContract).tokenURI(creatorId),
-            ICopy(_copyContract).getCopyCount(creatorId),
-            ICopy(_copyContract).getCopyHashes(creatorId).length
+            address(0),
+            '',
+            ICopy(_copyContract).getCopyCount(creatorContract, creatorId),
+            ICopy(_copyContract).getCopyHashes(creatorContract, creatorId).length
         );
+        try IERC721(creatorContract).ownerOf(creatorId) returns (address holder) {
+            creatorView.holder = holder;
+            creatorView.tokenURI = IERC721Metadata(creatorContract).tokenURI(creatorId);
+        } catch {}
         return creatorView;
     }
 
@@ -139,20 +306,29 @@ contract Helper {
             IERC721(_copyContract).ownerOf(copyId),
             copyInfo.copyURI,
             copyInfo.expireAt,
-            getMintableByHash(copyInfo.copyHash)
+            copyInfo.version,
+            getMintableByHash(copyInfo.copyHash),
+            ICopy(_copyContract).getRevocation(copyId)
         );
         return copyView;
     }
 
+    /**
+     * @dev The validation info and the mint count are read from the mintable of the rule, and left empty for
+     * mintables that are not paid mintables
+     */
     function getMintableByHash(
         bytes32 copyHash
     ) public view returns (MintableView memory) {
-        MintableView memory mintable = MintableView(
-            ICopy(_copyContract).getMintInfo(copyHash),
-            IPaidMintable(_mintableContract).getValidationInfo(copyHash),
-            IPaidMintable(_mintableContract).getMintCount(copyHash),
-            copyHash
-        );
+        ICopy.MintInfo memory mintInfo = ICopy(_copyContract).getMintInfo(copyHash);
+        MintableView memory mintable;
+        mintable.mintInfo = mintInfo;
+        mintable.copyHash = copyHash;
+        mintable.state = ICopy(_copyContract).getRuleState(copyHash);
+        if (ERC165Checker.supportsInterface(mintInfo.mintable, type(IPaidMintable).interfaceId)) {
+            mintable.valInfo = IPaidMintable(mintInfo.mintable).getValidationInfo(copyHash);
+            mintable.count = IPaidMintable(mintInfo.mintable).getMintCount(copyHash);
+        }
         return mintable;
     }
 
@@ -270,14 +446,26 @@ contract Helper {
         uint256 skip,
         uint256 limit
     ) external view returns (CopyPaginationView memory){
-        uint256 count = ICopy(_copyContract).getCopyCount(creatorId);
+        return getCopyTokensByCreator(_creatorContract, creatorId, skip, limit);
+    }
+
+    /**
+     * @dev Get CopyIds By Creator token of any creator contract
+     */
+    function getCopyTokensByCreator(
+        address creatorContract,
+        uint256 creatorId,
+        uint256 skip,
+        uint256 limit
+    ) public view returns (CopyPaginationView memory){
+        uint256 count = ICopy(_copyContract).getCopyCount(creatorContract, creatorId);
         
         (uint256 last, uint256 _limit) = Pagination._paginationHandler(skip, limit, count);
         
         CopyView[] memory copies = new CopyView[](_limit);
 
         for (uint256 i = skip; i < last; i++) {
-            uint256 copyId = ICopy(_copyContract).getCopyByIndex(creatorId, i+1);
+            uint256 copyId = ICopy(_copyContract).getCopyByIndex(creatorContract, creatorId, i+1);
             copies[i - skip] = getCopyTokenById(copyId);
         }
 
@@ -295,11 +483,21 @@ contract Helper {
     function getMintInfoByCreator(
         uint256 creatorId
     ) external view returns (CreatorFullView memory){
+        return getMintInfoByCreator(_creatorContract, creatorId);
+    }
+
+    /**
+     * Get all mintable rules of a creator token of any creator contract
+     */
+    function getMintInfoByCreator(
+        address creatorContract,
+        uint256 creatorId
+    ) public view returns (CreatorFullView memory){
         
-        bytes32[] memory copyHashes = ICopy(_copyContract).getCopyHashes(creatorId);
+        bytes32[] memory copyHashes = ICopy(_copyContract).getCopyHashes(creatorContract, creatorId);
 
         CreatorFullView memory creatorFullView = CreatorFullView(
-            getCreatorTokenById(creatorId),
+            getCreatorTokenById(creatorContract, creatorId),
             new MintableView[](copyHashes.length)
         );
 
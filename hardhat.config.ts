@@ -42,6 +42,12 @@ const config: HardhatUserConfig = {
               yul: true,
             },
           },
+          // the Copy extensions are checked to share its storage layout
+          outputSelection: {
+            '*': {
+              '*': ['storageLayout'],
+            },
+          },
         },
       },
     ],
@@ -54,8 +60,7 @@ const config: HardhatUserConfig = {
       gasPrice: 8000000000,
       chainId: HARDHATEVM_CHAINID,
       throwOnTransactionFailures: true,
-      throwOnCallFailures: true,
-      allowUnlimitedContractSize: true
+      throwOnCallFailures: true
     },
     ropsten: {
       url: process.env.ROPSTEN_URL || "",
@@ -5,12 +5,18 @@ import fs from 'fs';
 import {
   Mintable,
   Mintable__factory,
+  AllowlistMintable__factory,
+  VoucherMintable__factory,
+  DutchAuctionMintable__factory,
+  BondingCurveMintable__factory,
   Copy,
   Copy__factory,
   Creator,
   Creator__factory,
   Helper,
   Helper__factory,
+  CopyRenderer__factory,
+  Forwarder__factory,
   MockFT__factory,
   MockNFT__factory
 } from "../typechain-types";
@@ -38,7 +44,13 @@ export async function attach(): Promise<IContracts> {
         creator: (new Creator__factory(owner)).attach(contractAddresses.creator),
         copy: (new Copy__factory(owner)).attach(contractAddresses.copy),
         mintable: (new Mintable__factory(owner)).attach(contractAddresses.mintable),
+        allowlistMintable: (new AllowlistMintable__factory(owner)).attach(contractAddresses.allowlistMintable),
+        voucherMintable: (new VoucherMintable__factory(owner)).attach(contractAddresses.voucherMintable),
+        dutchAuctionMintable: (new DutchAuctionMintable__factory(owner)).attach(contractAddresses.dutchAuctionMintable),
+        bondingCurveMintable: (new BondingCurveMintable__factory(owner)).attach(contractAddresses.bondingCurveMintable),
         helper: (new Helper__factory(owner)).attach(contractAddresses.helper),
+        renderer: (new CopyRenderer__factory(owner)).attach(contractAddresses.renderer),
+        forwarder: (new Forwarder__factory(owner)).attach(contractAddresses.forwarder),
         test: {
             mockFT: (new MockFT__factory(owner)).attach(contractAddresses.test.mockFT),
             mockNFT: (new MockNFT__factory(owner)).attach(contractAddresses.test.mockNFT)
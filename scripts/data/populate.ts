@@ -48,12 +48,12 @@ const startChoices = [-10000];
 const mintTimeChoices = [60*60*6, 60*60*24, 60*60*24*7, MAX_UINT64];
 const mintLimitChoices = [5, 10, 100, 666, 888, 999, 1000, 5000, 10000];
 
-const initialise_wallets = async (mnemonic: string, wallet_num: number, from_wallet: Signer): Promise<Signer[]> => {
+const initialise_wallets = async (mnemonic: string, wallet_num: number, from_wallet: Signer): Promise<Wallet[]> => {
 
     let walletList = [];
     for ( let i = 0 ; i < wallet_num ; i ++ ) {
         // get wallet and connect to provider
-        let wallet: Signer = Wallet.fromMnemonic(mnemonic, path + (i+1).toString()).connect(ethers.provider);
+        let wallet: Wallet = Wallet.fromMnemonic(mnemonic, path + (i+1).toString()).connect(ethers.provider);
         // disperse matic if not sufficient
         let balance = await wallet.getBalance();
         // if (balance.lt(ethers.utils.parseEther(wallet_native_tokens))) {
@@ -126,7 +126,7 @@ const getCreatorWithMintableList = async (creatorNumber: number): Promise<MintPa
   let count: number = faker.datatype.number({ min: 0, max: creatorNumber-1});
   let creatorId = await contracts.creator.tokenByIndex(count);
   // randomly select mintable hash
-  let copyHashes = await contracts.copy.getCopyHashes(creatorId);
+  let copyHashes = await contracts.copy['getCopyHashes(uint256)'](creatorId);
   let hash = chooseOne(copyHashes);
   let valInfo = await contracts.mintable.getValidationInfo(hash);
   let mintCount = await contracts.mintable.getMintCount(hash);
@@ -170,10 +170,10 @@ export async function populate() {
         async (w, i) => {
           let addr = await w.getAddress();
           for ( let j = i * CREATION_PER_CREATORS ; j < (i + 1 ) * CREATION_PER_CREATORS ; j++ ) {
-            const tx = await contracts.helper.connect(w).createWithMintables(
+            const tx = await contracts.helper.connect(w)['createWithMintables(address,string,(uint256,uint8,bytes32,bytes32),(address,uint8,bool,bool,bool,bool,address,uint256,bytes)[],bytes[])'](
               addr,
               arids[j],
-              await getPermSig(w, arids[j], CONTENT.copyright, 1000000),
+              await getPermSig(w, contracts.creator, arids[j], CONTENT.copyright, 1000000),
               [...Array(MINTABLE_PER_CREATION).keys()].map(()=>getRandomMintable()), // get few randome mintable config
               [...Array(MINTABLE_PER_CREATION).keys()].map(()=>getRandomEncodedValidationRules())
             )
@@ -236,7 +236,7 @@ export async function populate() {
         }
 
         // make transaction
-        const tx = await contracts.helper.connect(w).batchCollect(
+        const tx = await contracts.helper.connect(w)['batchCollect(address,bytes32[],uint64[],uint256[])'](
           addr,
           copyHashes,
           durations,
@@ -273,12 +273,12 @@ export async function populate() {
   console.log(result4.creators.length);
   console.log(result4.meta);
 
-  let result5 = await contracts.helper.getCopyTokensByCreator(1, 0, 10);
+  let result5 = await contracts.helper['getCopyTokensByCreator(uint256,uint256,uint256)'](1, 0, 10);
   console.log(result5.copies[0]);
   console.log(result5.copies.length);
   console.log(result5.meta);
 
-  let result6 = await contracts.helper.getCopyTokensByCreator(1, 0, 100);
+  let result6 = await contracts.helper['getCopyTokensByCreator(uint256,uint256,uint256)'](1, 0, 100);
   console.log(result6.copies[0]);
   console.log(result6.copies.length);
   console.log(result6.meta);
@@ -4,15 +4,23 @@ import hre from 'hardhat'
 import fs from 'fs';
 import {
   Mintable__factory,
+  AllowlistMintable__factory,
+  VoucherMintable__factory,
+  DutchAuctionMintable__factory,
+  BondingCurveMintable__factory,
   Copy__factory,
+  CopyExtension__factory,
+  CopyRevocationExtension__factory,
   Creator__factory,
   Helper__factory,
+  CopyRenderer__factory,
+  Forwarder__factory,
   MockFT__factory,
   MockNFT__factory
 } from "../typechain-types";
 
 import { DEPLOY_CACHE } from '../utils/constants';
-import { IContracts } from './deploy.type';
+import { IContracts, IContractAddresses } from './deploy.type';
 
 let owner: SignerWithAddress;
 let addrs: SignerWithAddress[];
@@ -21,11 +29,23 @@ export async function deploy(isMain=false): Promise<IContracts> {
 
   [owner, ...addrs] = await ethers.getSigners();
 
+  // deploy the trusted forwarder of meta-transactions
+  let forwarderContract = await new Forwarder__factory(owner).deploy();
+
   // deploy creator contract
-  let creatorContract = await new Creator__factory(owner).deploy("Creator", "CTR");
+  let creatorContract = await new Creator__factory(owner).deploy("Creator", "CTR", forwarderContract.address);
 
-  // deploy copy contract
-  let copyContract = await new Copy__factory(owner).deploy("Copy", "CPY", creatorContract.address);
+  // deploy copy contract, with the extensions running its functions that mint, burn and update the copies
+  let copyExtensionContract = await new CopyExtension__factory(owner).deploy(forwarderContract.address);
+  let copyRevocationExtensionContract = await new CopyRevocationExtension__factory(owner).deploy(forwarderContract.address);
+  let copyContract = await new Copy__factory(owner).deploy(
+    "Copy",
+    "CPY",
+    creatorContract.address,
+    forwarderContract.address,
+    copyExtensionContract.address,
+    copyRevocationExtensionContract.address
+  );
 
   // deploy mintable rule
   let mintableContract = await new Mintable__factory(owner).deploy(copyContract.address);
@@ -34,8 +54,38 @@ export async function deploy(isMain=false): Promise<IContracts> {
   let whiteListTx = await copyContract.connect(owner).whiteListMintableContract(mintableContract.address);
   await whiteListTx.wait();
 
+  // deploy allowlist mintable rule
+  let allowlistMintableContract = await new AllowlistMintable__factory(owner).deploy(copyContract.address);
+  let allowlistTx = await copyContract.connect(owner).whiteListMintableContract(allowlistMintableContract.address);
+  await allowlistTx.wait();
+
+  // deploy voucher mintable rule
+  let voucherMintableContract = await new VoucherMintable__factory(owner).deploy(copyContract.address);
+  let voucherTx = await copyContract.connect(owner).whiteListMintableContract(voucherMintableContract.address);
+  await voucherTx.wait();
+
+  // deploy pricing mintable rules
+  let dutchAuctionMintableContract = await new DutchAuctionMintable__factory(owner).deploy(copyContract.address);
+  let dutchAuctionTx = await copyContract.connect(owner).whiteListMintableContract(dutchAuctionMintableContract.address);
+  await dutchAuctionTx.wait();
+  let bondingCurveMintableContract = await new BondingCurveMintable__factory(owner).deploy(copyContract.address);
+  let bondingCurveTx = await copyContract.connect(owner).whiteListMintableContract(bondingCurveMintableContract.address);
+  await bondingCurveTx.wait();
+
   // helper contract
-  let helperContract = await new Helper__factory(owner).deploy(creatorContract.address, copyContract.address, mintableContract.address);
+  let helperContract = await new Helper__factory(owner).deploy(
+    creatorContract.address,
+    copyContract.address,
+    mintableContract.address,
+    forwarderContract.address
+  );
+  let operatorTx = await copyContract.connect(owner).whiteListOperator(helperContract.address);
+  await operatorTx.wait();
+
+  // metadata renderer
+  let rendererContract = await new CopyRenderer__factory(owner).deploy();
+  let rendererTx = await copyContract.connect(owner).setRenderer(rendererContract.address);
+  await rendererTx.wait();
 
   // deploy test contracts
   let mockFT = await new MockFT__factory(owner).deploy("MOCK_USDT", "MUSDT");
@@ -45,23 +95,20 @@ export async function deploy(isMain=false): Promise<IContracts> {
     creator: creatorContract,
     copy: copyContract,
     mintable: mintableContract,
+    allowlistMintable: allowlistMintableContract,
+    voucherMintable: voucherMintableContract,
+    dutchAuctionMintable: dutchAuctionMintableContract,
+    bondingCurveMintable: bondingCurveMintableContract,
     helper: helperContract,
+    renderer: rendererContract,
+    forwarder: forwarderContract,
     test: {
       mockFT: mockFT,
       mockNFT: mockNFT
     }
   }
 
-  let contractAddresses = {
-    creator: creatorContract.address,
-    copy: copyContract.address,
-    mintable: mintableContract.address,
-    helper: helperContract.address,
-    test: {
-      mockFT: mockFT.address,
-      mockNFT: mockNFT.address
-    }
-  }
+  let contractAddresses = getAddresses(contracts);
 
   // saving the contract addresses
   let deployedContracts: Record<string, any> = {};
@@ -79,6 +126,25 @@ export async function deploy(isMain=false): Promise<IContracts> {
   return contracts; 
 }
 
+export function getAddresses(contracts: IContracts): IContractAddresses {
+  return {
+    creator: contracts.creator.address,
+    copy: contracts.copy.address,
+    mintable: contracts.mintable.address,
+    allowlistMintable: contracts.allowlistMintable.address,
+    voucherMintable: contracts.voucherMintable.address,
+    dutchAuctionMintable: contracts.dutchAuctionMintable.address,
+    bondingCurveMintable: contracts.bondingCurveMintable.address,
+    helper: contracts.helper.address,
+    renderer: contracts.renderer.address,
+    forwarder: contracts.forwarder.address,
+    test: {
+      mockFT: contracts.test.mockFT.address,
+      mockNFT: contracts.test.mockNFT.address
+    }
+  }
+}
+
 // We recommend this pattern to be able to use async/await everywhere
 // and properly handle errors.
 if (require.main === module){
@@ -1,8 +1,14 @@
 import {
     Mintable,
+    AllowlistMintable,
+    VoucherMintable,
+    DutchAuctionMintable,
+    BondingCurveMintable,
     Copy,
     Creator,
     Helper,
+    CopyRenderer,
+    Forwarder,
     MockFT,
     MockNFT
 } from "../typechain-types";
@@ -11,7 +17,13 @@ export interface IContracts {
     creator: Creator,
     copy: Copy,
     mintable: Mintable,
+    allowlistMintable: AllowlistMintable,
+    voucherMintable: VoucherMintable,
+    dutchAuctionMintable: DutchAuctionMintable,
+    bondingCurveMintable: BondingCurveMintable,
     helper: Helper,
+    renderer: CopyRenderer,
+    forwarder: Forwarder,
     test: {
         mockFT: MockFT,
         mockNFT: MockNFT
@@ -22,7 +34,13 @@ export interface IContractAddresses {
     creator: string,
     copy: string,
     mintable: string,
-    helper: string
+    allowlistMintable: string,
+    voucherMintable: string,
+    dutchAuctionMintable: string,
+    bondingCurveMintable: string,
+    helper: string,
+    renderer: string,
+    forwarder: string,
     test: {
         mockFT: string,
         mockNFT: string
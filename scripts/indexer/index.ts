@@ -0,0 +1,482 @@
+import hre, { ethers } from 'hardhat';
+import fs from 'fs';
+import { Log, Provider } from '@ethersproject/providers';
+import { utils } from 'ethers';
+import {
+  Copy__factory,
+  Creator__factory,
+  Mintable__factory
+} from '../../typechain-types';
+
+import { RuleState } from '../../utils';
+import { DEPLOY_CACHE, INDEX_CACHE, ZERO_ADDRESS } from '../../utils/constants';
+import { decodeMintInfo, decodeValidationInfo } from '../../utils/client';
+import {
+  CopyPaginationView,
+  CopyView,
+  CreatorFullView,
+  CreatorPaginationView,
+  CreatorView,
+  MintableView,
+  PaginationMetaView,
+  ValidationInfo
+} from '../../utils/client.type';
+import { IContractAddresses } from '../deploy.type';
+import { JsonStore } from './store';
+import {
+  CopyRecord,
+  CopyStatus,
+  CreatorRecord,
+  IndexerState,
+  RuleRecord,
+  SubscriptionRecord
+} from './indexer.type';
+
+const DEFAULT_BATCH_SIZE = 2000;
+const DEFAULT_POLL_INTERVAL = 5000;
+
+// the validation info returned by the Mintable contract for unknown copyHashes
+const EMPTY_VALIDATION_INFO: ValidationInfo = {
+  feeToken: ZERO_ADDRESS,
+  duration: 0n,
+  fragmented: false,
+  mintAmount: 0n,
+  extendAmount: 0n,
+  requiredERC721Token: ZERO_ADDRESS,
+  limit: 0n,
+  start: 0n,
+  time: 0n,
+  maxValidity: 0n,
+  extendWindow: 0n,
+  extendRequiresToken: false,
+  guarded: false
+};
+
+export interface IndexerOptions {
+  // the block to start indexing from, usually the deployment block of the contracts
+  startBlock?: number;
+  // the maximum number of blocks requested per getLogs call
+  batchSize?: number;
+}
+
+/**
+ * @dev Mirrors {Pagination-_paginationHandler} for in-memory lists
+ */
+export const paginate = <Type>(items: Type[], skip: number, limit: number): [Type[], PaginationMetaView] => {
+  return [items.slice(skip, skip + limit), { offset: skip, limit: limit, count: items.length }];
+};
+
+/**
+ * @notice Rebuilds the state of the Creator, Copy and Mintable contracts from their events, and answers the
+ * queries of the Helper contract from the local store. The indexer resumes from the checkpoint of the store.
+ */
+export class Indexer {
+  readonly provider: Provider;
+  readonly addresses: IContractAddresses;
+  readonly store: JsonStore;
+  readonly batchSize: number;
+  state: IndexerState;
+
+  private readonly _interfaces: Record<string, utils.Interface>;
+  private _syncing: Promise<unknown> = Promise.resolve();
+
+  constructor(provider: Provider, addresses: IContractAddresses, store: JsonStore, options: IndexerOptions = {}) {
+    this.provider = provider;
+    this.addresses = addresses;
+    this.store = store;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.state = store.load((options.startBlock ?? 0) - 1);
+    this._interfaces = {
+      [addresses.creator.toLowerCase()]: Creator__factory.createInterface(),
+      [addresses.copy.toLowerCase()]: Copy__factory.createInterface(),
+      [addresses.mintable.toLowerCase()]: Mintable__factory.createInterface()
+    };
+  }
+
+  /**
+   * @notice Indexes all events up to the given block, or the latest block. The store is saved after every batch.
+   *
+   * @return the checkpoint after syncing
+   */
+  sync(toBlock?: number): Promise<number> {
+    // syncs are queued so that concurrent callers never apply the same batch twice
+    const run = this._syncing.catch(() => undefined).then(() => this._sync(toBlock));
+    this._syncing = run;
+    return run;
+  }
+
+  private async _sync(toBlock?: number): Promise<number> {
+    const latest = toBlock ?? await this.provider.getBlockNumber();
+    while (this.state.checkpoint < latest) {
+      const fromBlock = this.state.checkpoint + 1;
+      const to = Math.min(fromBlock + this.batchSize - 1, latest);
+
+      const logs = (await Promise.all(
+        Object.keys(this._interfaces).map((address) =>
+          this.provider.getLogs({ address, fromBlock, toBlock: to })
+        )
+      )).flat().sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+      // applied one at a time, copies of other creator contracts read their copy info from the chain
+      for (const log of logs) {
+        await this._apply(log);
+      }
+      this.state.checkpoint = to;
+      this.store.save(this.state);
+    }
+    return this.state.checkpoint;
+  }
+
+  /**
+   * @notice Keeps syncing until the returned stop function is called
+   */
+  watch(interval: number = DEFAULT_POLL_INTERVAL, onError: (err: unknown) => void = console.error): () => void {
+    let stopped = false;
+    const loop = async () => {
+      while (!stopped) {
+        await this.sync().catch(onError);
+        await new Promise((resolve) => setTimeout(resolve, interval));
+      }
+    };
+    loop();
+    return () => { stopped = true; };
+  }
+
+  private async _apply(log: Log) {
+    const address = log.address.toLowerCase();
+    const event = this._interfaces[address].parseLog(log);
+    if (address == this.addresses.creator.toLowerCase()) {
+      this._applyCreatorEvent(event);
+    } else if (address == this.addresses.copy.toLowerCase()) {
+      await this._applyCopyEvent(event, log.blockNumber);
+    } else {
+      this._applyMintableEvent(event);
+    }
+  }
+
+  private _applyCreatorEvent(event: utils.LogDescription) {
+    const { creators } = this.state;
+    switch (event.name) {
+      case 'Transfer': {
+        const key = event.args.tokenId.toString();
+        if (event.args.to == ZERO_ADDRESS) {
+          creators.delete(key);
+        } else if (event.args.from == ZERO_ADDRESS) {
+          creators.set(key, {
+            creatorContract: utils.getAddress(this.addresses.creator),
+            creatorId: event.args.tokenId.toBigInt(),
+            holder: event.args.to,
+            tokenURI: '',
+            version: 0,
+            copyHashes: []
+          });
+        } else {
+          creators.get(key)!.holder = event.args.to;
+        }
+        break;
+      }
+      case 'Publish':
+        creators.get(event.args.pubId.toString())!.tokenURI = event.args.contentUri;
+        break;
+      case 'Update':
+        creators.get(event.args.pubId.toString())!.tokenURI = event.args.contentUri;
+        break;
+      case 'AddVersion':
+        creators.get(event.args.pubId.toString())!.version = event.args.version.toNumber();
+        break;
+    }
+  }
+
+  private async _applyCopyEvent(event: utils.LogDescription, blockNumber: number) {
+    const { copies } = this.state;
+    switch (event.name) {
+      case 'Transfer': {
+        const key = event.args.tokenId.toString();
+        if (event.args.from == ZERO_ADDRESS) {
+          // the Create event that follows fills in the copy information
+          copies.set(key, {
+            copyId: event.args.tokenId.toBigInt(),
+            creatorContract: ZERO_ADDRESS,
+            creatorId: 0n,
+            copyHash: '',
+            holder: event.args.to,
+            tokenURI: '',
+            version: 0,
+            expireAt: 0n,
+            status: CopyStatus.LIVE
+          });
+        } else {
+          copies.get(key)!.holder = event.args.to;
+          // subscriptions are cleared by transfers and burns
+          this.state.subscriptions.delete(key);
+        }
+        break;
+      }
+      case 'SetMintableRule': {
+        const rule = this._getRule(event.args.copyHash);
+        if (rule.mintInfo === undefined) {
+          rule.mintInfo = decodeMintInfo(event.args.mintInfo);
+          if (this._isDefaultCreator(rule.mintInfo.creatorContract)) {
+            this.state.creators.get(rule.mintInfo.creatorId.toString())?.copyHashes.push(rule.copyHash);
+          }
+        }
+        rule.state = RuleState.EXIST;
+        break;
+      }
+      case 'PauseMintableRule':
+        this._getRule(event.args.copyHash).state = RuleState.PAUSED;
+        break;
+      case 'ResumeMintableRule':
+        this._getRule(event.args.copyHash).state = RuleState.EXIST;
+        break;
+      case 'CloseMintableRule':
+        this._getRule(event.args.copyHash).state = RuleState.CLOSED;
+        break;
+      case 'Create': {
+        const copy = copies.get(event.args.tokenId.toString())!;
+        const rule = this._getRule(event.args.copyHash);
+        copy.copyHash = rule.copyHash;
+        copy.creatorContract = rule.mintInfo!.creatorContract;
+        copy.creatorId = rule.mintInfo!.creatorId;
+        if (this._isDefaultCreator(copy.creatorContract)) {
+          const creator = this.state.creators.get(copy.creatorId.toString());
+          copy.tokenURI = creator?.tokenURI ?? '';
+          copy.version = creator?.version ?? 0;
+        } else {
+          ({ copyURI: copy.tokenURI, version: copy.version } = await this._fetchCopyInfo(copy.copyId, blockNumber));
+        }
+        copy.expireAt = event.args.expiry.toBigInt();
+        if (rule.mintInfo!.mintable.toLowerCase() == this.addresses.mintable.toLowerCase()) rule.count++;
+        break;
+      }
+      case 'Extend':
+        copies.get(event.args.tokenId.toString())!.expireAt = event.args.expiry.toBigInt();
+        break;
+      case 'Update':
+        copies.get(event.args.tokenId.toString())!.tokenURI = event.args.tokenUri;
+        break;
+      case 'UpdateVersion':
+        copies.get(event.args.tokenId.toString())!.version = event.args.version.toNumber();
+        break;
+      case 'Revoke': {
+        const copy = copies.get(event.args.tokenId.toString())!;
+        copy.status = CopyStatus.REVOKED;
+        copy.revocation = undefined;
+        break;
+      }
+      case 'Destroy': {
+        const copy = copies.get(event.args.tokenId.toString())!;
+        copy.status = CopyStatus.DESTROYED;
+        copy.revocation = undefined;
+        break;
+      }
+      case 'ScheduleRevocation':
+        copies.get(event.args.tokenId.toString())!.revocation = {
+          effectiveAt: event.args.effectiveAt.toBigInt(),
+          refund: event.args.refund,
+          reason: event.args.reason,
+          reasonURI: event.args.reasonURI
+        };
+        break;
+      case 'CancelRevocation':
+        copies.get(event.args.tokenId.toString())!.revocation = undefined;
+        break;
+      case 'SetSubscription': {
+        const key = event.args.tokenId.toString();
+        if (event.args.periods.isZero()) {
+          this.state.subscriptions.delete(key);
+        } else {
+          this.state.subscriptions.set(key, {
+            copyId: event.args.tokenId.toBigInt(),
+            duration: event.args.duration.toBigInt(),
+            periods: event.args.periods.toNumber()
+          });
+        }
+        break;
+      }
+      case 'Renew': {
+        // subscriptions without renewals left are dropped
+        const key = event.args.tokenId.toString();
+        if (event.args.periods.isZero()) {
+          this.state.subscriptions.delete(key);
+        } else {
+          this.state.subscriptions.get(key)!.periods = event.args.periods.toNumber();
+        }
+        break;
+      }
+    }
+  }
+
+  private _applyMintableEvent(event: utils.LogDescription) {
+    if (event.name == 'SetupRule') {
+      this._getRule(event.args.copyHash).valInfo = decodeValidationInfo(event.args.validationInfo);
+    }
+  }
+
+  private _isDefaultCreator(creatorContract: string): boolean {
+    return creatorContract.toLowerCase() == this.addresses.creator.toLowerCase();
+  }
+
+  /**
+   * @dev The copy info of a copy of a creator token of another creator contract at the given block, as the events
+   * of other creator contracts are not indexed
+   */
+  private async _fetchCopyInfo(copyId: bigint, blockTag: number): Promise<{ copyURI: string, version: number }> {
+    const { copyURI, version } = await Copy__factory.connect(this.addresses.copy, this.provider).getCopyInfo(copyId, { blockTag });
+    return { copyURI, version: version.toNumber() };
+  }
+
+  private _getRule(copyHash: string): RuleRecord {
+    let rule = this.state.rules.get(copyHash);
+    if (rule === undefined) {
+      rule = { copyHash, state: RuleState.EXIST, count: 0 };
+      this.state.rules.set(copyHash, rule);
+    }
+    return rule;
+  }
+
+  // view functions, see {Helper}
+
+  getCreatorTokenById(creatorId: bigint): CreatorView | undefined {
+    const creator = this.state.creators.get(creatorId.toString());
+    return creator && this._toCreatorView(creator);
+  }
+
+  getCopyTokenById(copyId: bigint): CopyView | undefined {
+    const copy = this.state.copies.get(copyId.toString());
+    return copy && copy.status == CopyStatus.LIVE ? this._toCopyView(copy) : undefined;
+  }
+
+  getMintableByHash(copyHash: string): MintableView | undefined {
+    const rule = this.state.rules.get(copyHash);
+    return rule?.mintInfo && this._toMintableView(rule);
+  }
+
+  getCreatorTokensByAddress(creator: string, skip: number, limit: number): CreatorPaginationView {
+    const holder = utils.getAddress(creator);
+    return this.findCreators((record) => record.holder == holder, skip, limit);
+  }
+
+  getCreatorTokens(skip: number, limit: number): CreatorPaginationView {
+    return this.findCreators(() => true, skip, limit);
+  }
+
+  getCopyTokensByAddress(collector: string, skip: number, limit: number): CopyPaginationView {
+    const holder = utils.getAddress(collector);
+    return this.findCopies((record) => record.holder == holder, skip, limit);
+  }
+
+  getCopyTokens(skip: number, limit: number): CopyPaginationView {
+    return this.findCopies(() => true, skip, limit);
+  }
+
+  getCopyTokensByCreator(
+    creatorId: bigint,
+    skip: number,
+    limit: number,
+    creatorContract: string = this.addresses.creator
+  ): CopyPaginationView {
+    const contract = utils.getAddress(creatorContract);
+    return this.findCopies((record) => record.creatorContract == contract && record.creatorId == creatorId, skip, limit);
+  }
+
+  getMintInfoByCreator(creatorId: bigint): CreatorFullView | undefined {
+    const creator = this.state.creators.get(creatorId.toString());
+    return creator && {
+      creation: this._toCreatorView(creator),
+      mintable: creator.copyHashes.map((copyHash) => this._toMintableView(this.state.rules.get(copyHash)!))
+    };
+  }
+
+  // arbitrary filters
+
+  findCreators(filter: (record: CreatorRecord) => boolean, skip = 0, limit = Number.MAX_SAFE_INTEGER): CreatorPaginationView {
+    const [records, meta] = paginate([...this.state.creators.values()].filter(filter), skip, limit);
+    return { creators: records.map((record) => this._toCreatorView(record)), meta };
+  }
+
+  /**
+   * @dev Only live copies are passed to the filter, revoked and destroyed copies are kept in the store as history
+   */
+  findCopies(filter: (record: CopyRecord) => boolean, skip = 0, limit = Number.MAX_SAFE_INTEGER): CopyPaginationView {
+    const live = [...this.state.copies.values()].filter((record) => record.status == CopyStatus.LIVE);
+    const [records, meta] = paginate(live.filter(filter), skip, limit);
+    return { copies: records.map((record) => this._toCopyView(record)), meta };
+  }
+
+  /**
+   * @dev Only the subscribed copies are scanned, each passed to the filter with its copy record
+   */
+  findSubscriptions(filter: (record: SubscriptionRecord, copy: CopyRecord) => boolean): SubscriptionRecord[] {
+    return [...this.state.subscriptions.values()]
+      .filter((record) => filter(record, this.state.copies.get(record.copyId.toString())!));
+  }
+
+  findRules(filter: (record: RuleRecord) => boolean): MintableView[] {
+    return [...this.state.rules.values()]
+      .filter((record) => record.mintInfo !== undefined && filter(record))
+      .map((record) => this._toMintableView(record));
+  }
+
+  private _toCreatorView(creator: CreatorRecord): CreatorView {
+    const isCopyOf = (copy: CopyRecord) =>
+      copy.creatorContract == creator.creatorContract && copy.creatorId == creator.creatorId;
+    return {
+      creatorContract: creator.creatorContract,
+      creatorId: creator.creatorId,
+      holder: creator.holder,
+      tokenURI: creator.tokenURI,
+      copies: [...this.state.copies.values()].filter((copy) => isCopyOf(copy) && copy.status == CopyStatus.LIVE).length,
+      rules: creator.copyHashes.length
+    };
+  }
+
+  private _toMintableView(rule: RuleRecord): MintableView {
+    return {
+      mintInfo: rule.mintInfo!,
+      valInfo: rule.valInfo ?? EMPTY_VALIDATION_INFO,
+      count: rule.count,
+      copyHash: rule.copyHash,
+      state: rule.state
+    };
+  }
+
+  private _toCopyView(copy: CopyRecord): CopyView {
+    return {
+      copyId: copy.copyId,
+      creatorId: copy.creatorId,
+      holder: copy.holder,
+      tokenURI: copy.tokenURI,
+      expireAt: copy.expireAt,
+      version: copy.version,
+      mintable: this._toMintableView(this.state.rules.get(copy.copyHash)!),
+      revocation: copy.revocation
+    };
+  }
+}
+
+export async function index(): Promise<Indexer> {
+  if (!fs.existsSync(DEPLOY_CACHE)) {
+    throw new Error('Contracts Not Deployed');
+  }
+  const addresses: IContractAddresses = JSON.parse(fs.readFileSync(DEPLOY_CACHE).toString())[hre.network.name];
+  const store = new JsonStore(hre.network.name + '.' + INDEX_CACHE);
+  const indexer = new Indexer(ethers.provider, addresses, store, {
+    startBlock: Number(process.env.INDEXER_START_BLOCK ?? 0)
+  });
+
+  const checkpoint = await indexer.sync();
+  console.log(`Indexed up to block ${checkpoint}: ${indexer.state.creators.size} creators, ${indexer.state.rules.size} rules, ${indexer.state.copies.size} copies`);
+  return indexer;
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+if (require.main === module){
+  index().then((indexer) => {
+    if (process.env.INDEXER_WATCH) indexer.watch();
+  }).catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,62 @@
+import { RuleState } from '../../utils';
+import { MintInfo, Revocation, ValidationInfo } from '../../utils/client.type';
+
+export enum CopyStatus {
+  LIVE = 'LIVE',
+  REVOKED = 'REVOKED',
+  DESTROYED = 'DESTROYED'
+}
+
+// only the tokens of the default creator contract are indexed, copies of other creator contracts are indexed
+// by their rules and copy records alone
+export interface CreatorRecord {
+  creatorContract: string;
+  creatorId: bigint;
+  holder: string;
+  tokenURI: string;
+  // the current version of the content, see {ICreator-getVersionCount}
+  version: number;
+  copyHashes: string[];
+}
+
+export interface RuleRecord {
+  copyHash: string;
+  // undefined until the SetMintableRule event of the Copy contract is indexed
+  mintInfo?: MintInfo;
+  // undefined for rules handled by a Mintable contract other than the indexed one
+  valInfo?: ValidationInfo;
+  state: RuleState;
+  count: number;
+}
+
+export interface CopyRecord {
+  copyId: bigint;
+  creatorContract: string;
+  creatorId: bigint;
+  copyHash: string;
+  holder: string;
+  tokenURI: string;
+  // the version of the creator token content that the tokenURI was copied from
+  version: number;
+  expireAt: bigint;
+  status: CopyStatus;
+  // the revocation pending until the end of its grace period, if any
+  revocation?: Revocation;
+}
+
+// a copy opted in to renewals by keepers, until it runs out of periods, is transferred or is burnt
+export interface SubscriptionRecord {
+  copyId: bigint;
+  duration: bigint;
+  // the number of renewals left
+  periods: number;
+}
+
+export interface IndexerState {
+  // the last block that has been fully indexed
+  checkpoint: number;
+  creators: Map<string, CreatorRecord>;
+  rules: Map<string, RuleRecord>;
+  copies: Map<string, CopyRecord>;
+  subscriptions: Map<string, SubscriptionRecord>;
+}
@@ -0,0 +1,70 @@
+import fs from 'fs';
+
+import { CopyRecord, CreatorRecord, IndexerState, RuleRecord, SubscriptionRecord } from './indexer.type';
+
+interface SerializedState {
+  checkpoint: number;
+  creators: CreatorRecord[];
+  rules: RuleRecord[];
+  copies: CopyRecord[];
+  // missing from the stores saved before subscriptions were indexed
+  subscriptions?: SubscriptionRecord[];
+}
+
+const BIGINT_TAG = '$bigint';
+
+const replacer = (_key: string, value: unknown) =>
+  typeof value === 'bigint' ? { [BIGINT_TAG]: value.toString() } : value;
+
+const reviver = (_key: string, value: unknown) =>
+  value !== null && typeof value === 'object' && BIGINT_TAG in value
+    ? BigInt((value as Record<string, string>)[BIGINT_TAG])
+    : value;
+
+export const emptyState = (startBlock = -1): IndexerState => ({
+  checkpoint: startBlock,
+  creators: new Map(),
+  rules: new Map(),
+  copies: new Map(),
+  subscriptions: new Map()
+});
+
+/**
+ * @notice Persists the indexer state as a JSON file. The state is kept in memory only if no path is given.
+ * Records are stored as arrays so that the insertion order survives a reload.
+ */
+export class JsonStore {
+  readonly path?: string;
+
+  constructor(path?: string) {
+    this.path = path;
+  }
+
+  load(startBlock = -1): IndexerState {
+    if (!this.path || !fs.existsSync(this.path)) return emptyState(startBlock);
+
+    const serialized: SerializedState = JSON.parse(fs.readFileSync(this.path).toString(), reviver);
+    return {
+      checkpoint: serialized.checkpoint,
+      creators: new Map(serialized.creators.map((creator) => [creator.creatorId.toString(), creator])),
+      rules: new Map(serialized.rules.map((rule) => [rule.copyHash, rule])),
+      copies: new Map(serialized.copies.map((copy) => [copy.copyId.toString(), copy])),
+      subscriptions: new Map((serialized.subscriptions ?? []).map((subscription) => [subscription.copyId.toString(), subscription]))
+    };
+  }
+
+  save(state: IndexerState) {
+    if (!this.path) return;
+
+    const serialized: SerializedState = {
+      checkpoint: state.checkpoint,
+      creators: [...state.creators.values()],
+      rules: [...state.rules.values()],
+      copies: [...state.copies.values()],
+      subscriptions: [...state.subscriptions.values()]
+    };
+    // write to a temporary file first so that an interrupted save never corrupts the checkpoint
+    fs.writeFileSync(this.path + '.tmp', JSON.stringify(serialized, replacer));
+    fs.renameSync(this.path + '.tmp', this.path);
+  }
+}
@@ -0,0 +1,136 @@
+import hre, { ethers } from 'hardhat';
+import fs from 'fs';
+
+import { DEPLOY_CACHE, KEEPER_CACHE } from '../utils/constants';
+import { ERC721CopyClient } from '../utils/client';
+import { IContractAddresses } from './deploy.type';
+import { Indexer } from './indexer';
+import { JsonStore } from './indexer/store';
+
+const DEFAULT_POLL_INTERVAL = 60000;
+// must not exceed the renewal window of the Copy contract
+const DEFAULT_WINDOW = 60 * 60 * 24;
+
+export interface KeeperOptions {
+  // renew copies expiring within this many seconds
+  window?: number;
+  pollInterval?: number;
+}
+
+export interface RenewalResult {
+  copyId: bigint;
+  expiry?: bigint;
+  // the revert reason of a failed renewal, such as a missing allowance of the holder
+  error?: string;
+}
+
+/**
+ * @dev The revert reason of a failed transaction, or the message of other errors
+ */
+const getErrorReason = (err: unknown): string => {
+  if (typeof err === 'object' && err !== null) {
+    const { reason, message } = err as { reason?: unknown, message?: unknown };
+    if (typeof reason === 'string') return reason;
+    if (typeof message === 'string') return message;
+  }
+  return String(err);
+};
+
+/**
+ * @notice Renews the subscriptions about to expire, as indexed from the events of the Copy contract by the given
+ * indexer. Renewals are paid by the holders of the copies, the keeper only pays for the gas
+ */
+export class Keeper {
+  readonly client: ERC721CopyClient;
+  readonly indexer: Indexer;
+  readonly options: Required<KeeperOptions>;
+  private _timer?: NodeJS.Timeout;
+  private _stopped = true;
+
+  constructor(client: ERC721CopyClient, indexer: Indexer, options: KeeperOptions = {}) {
+    this.client = client;
+    this.indexer = indexer;
+    this.options = {
+      window: options.window ?? DEFAULT_WINDOW,
+      pollInterval: options.pollInterval ?? DEFAULT_POLL_INTERVAL
+    };
+  }
+
+  /**
+   * @return the ids of the subscribed copies expiring within the window at the latest block
+   */
+  async findDue(): Promise<bigint[]> {
+    await this.indexer.sync();
+    const { timestamp } = await this.client.copy.provider.getBlock('latest');
+    const deadline = BigInt(timestamp + this.options.window);
+    return this.indexer
+      .findSubscriptions((_subscription, copy) => copy.expireAt <= deadline)
+      .map((subscription) => subscription.copyId);
+  }
+
+  /**
+   * @notice Renews the copies due one by one, a failed renewal does not stop the others
+   */
+  async run(): Promise<RenewalResult[]> {
+    const results: RenewalResult[] = [];
+    for (const copyId of await this.findDue()) {
+      try {
+        results.push({ copyId, expiry: await this.client.renew(copyId) });
+      } catch (err) {
+        results.push({ copyId, error: getErrorReason(err) });
+      }
+    }
+    return results;
+  }
+
+  watch(): void {
+    this._stopped = false;
+    const poll = async () => {
+      try {
+        for (const result of await this.run()) {
+          console.log(result.error === undefined
+            ? `Renewed copy ${result.copyId} until ${result.expiry}`
+            : `Failed to renew copy ${result.copyId}: ${result.error}`);
+        }
+      } catch (err) {
+        console.error(err);
+      }
+      // stopped while polling
+      if (this._stopped) return;
+      this._timer = setTimeout(poll, this.options.pollInterval);
+    };
+    poll();
+  }
+
+  stop(): void {
+    this._stopped = true;
+    if (this._timer !== undefined) clearTimeout(this._timer);
+    this._timer = undefined;
+  }
+}
+
+export async function keep(): Promise<Keeper> {
+  if (!fs.existsSync(DEPLOY_CACHE)) {
+    throw new Error('Contracts Not Deployed');
+  }
+  const addresses: IContractAddresses = JSON.parse(fs.readFileSync(DEPLOY_CACHE).toString())[hre.network.name];
+  const [keeper] = await ethers.getSigners();
+  const indexer = new Indexer(ethers.provider, addresses, new JsonStore(hre.network.name + '.' + KEEPER_CACHE), {
+    startBlock: Number(process.env.INDEXER_START_BLOCK ?? 0)
+  });
+  return new Keeper(new ERC721CopyClient(keeper, addresses), indexer, {
+    window: process.env.KEEPER_WINDOW === undefined ? undefined : Number(process.env.KEEPER_WINDOW),
+    pollInterval: process.env.KEEPER_POLL_INTERVAL === undefined ? undefined : Number(process.env.KEEPER_POLL_INTERVAL)
+  });
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+if (require.main === module){
+  keep().then((keeper) => {
+    keeper.watch();
+  }).catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
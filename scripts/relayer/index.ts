@@ -0,0 +1,157 @@
+import hre, { ethers } from 'hardhat';
+import fs from 'fs';
+import http from 'http';
+import { BigNumber, utils } from 'ethers';
+
+import { DEPLOY_CACHE } from '../../utils/constants';
+import { ForwardRequest, SignedForwardRequest } from '../../utils/forwarder';
+import { Forwarder, Forwarder__factory } from '../../typechain-types';
+import { IContractAddresses } from '../deploy.type';
+import { HttpError, toJSON } from '../server';
+
+const DEFAULT_PORT = 8081;
+// gas limit of a relayed call, the relayer pays for it
+const MAX_GAS = 3000000;
+const MAX_BODY_SIZE = 64 * 1024;
+
+const readBody = (req: http.IncomingMessage): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+      if (body.length > MAX_BODY_SIZE) reject(new HttpError(413, 'Payload Too Large'));
+    });
+    req.on('end', () => resolve(body));
+    req.on('error', reject);
+  });
+};
+
+const isUint = (value: unknown): value is string | number =>
+  (typeof value === 'string' && /^\d+$/.test(value)) || (typeof value === 'number' && Number.isSafeInteger(value) && value >= 0);
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+/**
+ * @dev Checks the shape of a signed request posted as JSON, integers being decimal strings or numbers
+ */
+const parseSignedRequest = (body: string): SignedForwardRequest => {
+  let json: unknown;
+  try {
+    json = JSON.parse(body);
+  } catch {
+    throw new HttpError(400, 'Invalid JSON');
+  }
+  if (!isObject(json) || !isObject(json.request)) {
+    throw new HttpError(400, 'Invalid Request');
+  }
+  const { request: { from, to, value, gas, nonce, data }, signature } = json;
+  if (
+    typeof from !== 'string' || !utils.isAddress(from) || typeof to !== 'string' || !utils.isAddress(to) ||
+    !isUint(value) || !isUint(gas) || !isUint(nonce) ||
+    typeof data !== 'string' || !utils.isHexString(data) ||
+    typeof signature !== 'string' || !utils.isHexString(signature)
+  ) {
+    throw new HttpError(400, 'Invalid Request');
+  }
+  const forwardRequest: ForwardRequest = {
+    from: utils.getAddress(from),
+    to: utils.getAddress(to),
+    value: BigNumber.from(value),
+    gas: BigNumber.from(gas),
+    nonce: BigNumber.from(nonce),
+    data
+  };
+  return { request: forwardRequest, signature };
+};
+
+/**
+ * @dev The revert reason of a failed relayed call, returned by the forwarder instead of reverting
+ */
+const decodeRevertReason = (returndata: string): string => {
+  if (returndata.startsWith('0x08c379a0')) {
+    return utils.defaultAbiCoder.decode(['string'], utils.hexDataSlice(returndata, 4))[0];
+  }
+  return 'Request Reverted';
+};
+
+/**
+ * @notice Creates an HTTP server relaying the requests signed for the trusted forwarder, see {signForwardRequest}.
+ * Only requests to the given targets without native value are accepted. Requests are simulated first, so that
+ * the relayer does not pay for calls that would revert, and submitted one at a time.
+ *
+ * POST /relay with a {SignedForwardRequest} as JSON returns the transaction hash.
+ * GET /nonces/:address returns the nonce to sign the next request of an address with.
+ */
+export const createRelayer = (forwarder: Forwarder, targets: string[]): http.Server => {
+  const allowed = new Set(targets.map((target) => utils.getAddress(target)));
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const relay = async ({ request, signature }: SignedForwardRequest): Promise<string> => {
+    if (!allowed.has(request.to)) throw new HttpError(400, 'Target Not Allowed');
+    if (!BigNumber.from(request.value).isZero()) throw new HttpError(400, 'Native Value Not Supported');
+    if (BigNumber.from(request.gas).gt(MAX_GAS)) throw new HttpError(400, 'Gas Limit Too High');
+    if (!await forwarder.verify(request, signature)) throw new HttpError(400, 'Invalid Signature');
+
+    const [success, returndata] = await forwarder.callStatic.execute(request, signature);
+    if (!success) throw new HttpError(400, decodeRevertReason(returndata));
+    // the estimate of the forwarder may starve the relayed call, which fails without reverting the transaction.
+    // Unused gas is not charged, so the whole gas of the request is reserved on top of it
+    const estimate = await forwarder.estimateGas.execute(request, signature);
+    const tx = await forwarder.execute(request, signature, {
+      gasLimit: estimate.add(BigNumber.from(request.gas).mul(64).div(63))
+    });
+    await tx.wait();
+    return tx.hash;
+  };
+
+  return http.createServer(async (req, res) => {
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+      res.end(toJSON(body));
+    };
+
+    try {
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      const nonce = url.pathname.match(/^\/nonces\/([^/]+)$/);
+      if (nonce !== null) {
+        if (req.method != 'GET') throw new HttpError(405, 'Method Not Allowed');
+        if (!utils.isAddress(nonce[1])) throw new HttpError(400, 'Invalid address');
+        return reply(200, { nonce: (await forwarder.getNonce(nonce[1])).toBigInt() });
+      }
+      if (url.pathname != '/relay') throw new HttpError(404, 'Not Found');
+      if (req.method != 'POST') throw new HttpError(405, 'Method Not Allowed');
+
+      const signedRequest = parseSignedRequest(await readBody(req));
+      const submission = queue.then(() => relay(signedRequest));
+      queue = submission.catch(() => undefined);
+      reply(200, { transactionHash: await submission });
+    } catch (err) {
+      if (err instanceof HttpError) return reply(err.status, { error: err.message });
+      console.error(err);
+      reply(500, { error: 'Internal Server Error' });
+    }
+  });
+};
+
+export async function serveRelayer(): Promise<http.Server> {
+  if (!fs.existsSync(DEPLOY_CACHE)) {
+    throw new Error('Contracts Not Deployed');
+  }
+  const addresses: IContractAddresses = JSON.parse(fs.readFileSync(DEPLOY_CACHE).toString())[hre.network.name];
+  const [relayer] = await ethers.getSigners();
+  const forwarder = Forwarder__factory.connect(addresses.forwarder, relayer);
+
+  const port = Number(process.env.PORT ?? DEFAULT_PORT);
+  const server = createRelayer(forwarder, [addresses.copy, addresses.creator, addresses.helper]);
+  server.listen(port, () => console.log(`Relaying to ${addresses.forwarder} on port ${port}`));
+  return server;
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+if (require.main === module){
+  serveRelayer().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
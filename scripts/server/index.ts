@@ -0,0 +1,134 @@
+import hre, { ethers } from 'hardhat';
+import fs from 'fs';
+import http from 'http';
+import { utils } from 'ethers';
+
+import { DEPLOY_CACHE, INDEX_CACHE } from '../../utils/constants';
+import { ERC721CopyClient } from '../../utils/client';
+import { IContractAddresses } from '../deploy.type';
+import { Indexer } from '../indexer';
+import { JsonStore } from '../indexer/store';
+import { ChainSource, IndexSource, IViewSource } from './source';
+
+const DEFAULT_PORT = 8080;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+  }
+}
+
+type Handler = (source: IViewSource, params: string[], query: URLSearchParams) => Promise<unknown>;
+
+const parseId = (value: string): bigint => {
+  if (!/^(\d+|0x[0-9a-fA-F]+)$/.test(value)) throw new HttpError(400, 'Invalid token id');
+  return BigInt(value);
+};
+
+const parseAddress = (value: string): string => {
+  if (!utils.isAddress(value)) throw new HttpError(400, 'Invalid address');
+  return utils.getAddress(value);
+};
+
+const parseCopyHash = (value: string): string => {
+  if (!/^0x[0-9a-fA-F]{64}$/.test(value)) throw new HttpError(400, 'Invalid copyHash');
+  return value.toLowerCase();
+};
+
+/**
+ * @dev Reads offset and limit from the query string, the same pagination parameters as the Helper contract
+ */
+const parsePagination = (query: URLSearchParams): [number, number] => {
+  const offset = Number(query.get('offset') ?? 0);
+  const limit = Number(query.get('limit') ?? DEFAULT_LIMIT);
+  if (!Number.isInteger(offset) || offset < 0 || !Number.isInteger(limit) || limit < 0) {
+    throw new HttpError(400, 'Invalid pagination');
+  }
+  return [offset, Math.min(limit, MAX_LIMIT)];
+};
+
+const routes: [RegExp, Handler][] = [
+  [/^\/creators$/, (source, _, query) => {
+    const holder = query.get('holder');
+    return holder === null
+      ? source.getCreatorTokens(...parsePagination(query))
+      : source.getCreatorTokensByAddress(parseAddress(holder), ...parsePagination(query));
+  }],
+  [/^\/creators\/([^/]+)$/, (source, [id]) => source.getMintInfoByCreator(parseId(id))],
+  [/^\/creators\/([^/]+)\/copies$/, (source, [id], query) =>
+    source.getCopyTokensByCreator(parseId(id), ...parsePagination(query))],
+  [/^\/collectors\/([^/]+)\/copies$/, (source, [address], query) =>
+    source.getCopyTokensByAddress(parseAddress(address), ...parsePagination(query))],
+  [/^\/copies$/, (source, _, query) => source.getCopyTokens(...parsePagination(query))],
+  [/^\/copies\/([^/]+)$/, (source, [id]) => source.getCopyTokenById(parseId(id))],
+  [/^\/rules\/([^/]+)$/, (source, [copyHash]) => source.getMintableByHash(parseCopyHash(copyHash))],
+];
+
+export const toJSON = (body: unknown) =>
+  JSON.stringify(body, (_key, value) => typeof value === 'bigint' ? value.toString() : value);
+
+/**
+ * @notice Creates an HTTP server exposing the Helper views as JSON. Integers are encoded as decimal strings.
+ */
+export const createServer = (source: IViewSource): http.Server => {
+  return http.createServer(async (req, res) => {
+    const reply = (status: number, body: unknown) => {
+      res.writeHead(status, { 'Content-Type': 'application/json', 'Access-Control-Allow-Origin': '*' });
+      res.end(toJSON(body));
+    };
+
+    try {
+      if (req.method != 'GET') throw new HttpError(405, 'Method Not Allowed');
+
+      const url = new URL(req.url ?? '/', 'http://localhost');
+      for (const [pattern, handler] of routes) {
+        const match = url.pathname.match(pattern);
+        if (match === null) continue;
+
+        const body = await handler(source, match.slice(1), url.searchParams);
+        if (body === undefined) throw new HttpError(404, 'Not Found');
+        return reply(200, body);
+      }
+      throw new HttpError(404, 'Not Found');
+    } catch (err) {
+      if (err instanceof HttpError) return reply(err.status, { error: err.message });
+      console.error(err);
+      reply(500, { error: 'Internal Server Error' });
+    }
+  });
+};
+
+export async function serve(): Promise<http.Server> {
+  if (!fs.existsSync(DEPLOY_CACHE)) {
+    throw new Error('Contracts Not Deployed');
+  }
+  const addresses: IContractAddresses = JSON.parse(fs.readFileSync(DEPLOY_CACHE).toString())[hre.network.name];
+
+  let source: IViewSource;
+  if (process.env.SERVER_SOURCE == 'index') {
+    const store = new JsonStore(hre.network.name + '.' + INDEX_CACHE);
+    source = new IndexSource(new Indexer(ethers.provider, addresses, store));
+  } else {
+    const [owner] = await ethers.getSigners();
+    source = new ChainSource(new ERC721CopyClient(owner, addresses));
+  }
+
+  const port = Number(process.env.PORT ?? DEFAULT_PORT);
+  const server = createServer(source);
+  server.listen(port, () => console.log(`Listening on port ${port}`));
+  return server;
+}
+
+// We recommend this pattern to be able to use async/await everywhere
+// and properly handle errors.
+if (require.main === module){
+  serve().catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
@@ -0,0 +1,147 @@
+import { BigNumberish } from 'ethers';
+
+import { ZERO_ADDRESS } from '../../utils/constants';
+import { ERC721CopyClient } from '../../utils/client';
+import {
+  CopyPaginationView,
+  CopyView,
+  CreatorFullView,
+  CreatorPaginationView,
+  CreatorView,
+  MintableView
+} from '../../utils/client.type';
+import { Indexer } from '../indexer';
+
+/**
+ * @notice The views served by the read API, see {Helper}. Lookups of missing tokens resolve to undefined.
+ */
+export interface IViewSource {
+  getCreatorTokenById(creatorId: bigint): Promise<CreatorView | undefined>;
+  getCopyTokenById(copyId: bigint): Promise<CopyView | undefined>;
+  getMintableByHash(copyHash: string): Promise<MintableView | undefined>;
+  getMintInfoByCreator(creatorId: bigint): Promise<CreatorFullView | undefined>;
+  getCreatorTokens(skip: number, limit: number): Promise<CreatorPaginationView>;
+  getCreatorTokensByAddress(creator: string, skip: number, limit: number): Promise<CreatorPaginationView>;
+  getCopyTokens(skip: number, limit: number): Promise<CopyPaginationView>;
+  getCopyTokensByAddress(collector: string, skip: number, limit: number): Promise<CopyPaginationView>;
+  getCopyTokensByCreator(creatorId: bigint, skip: number, limit: number): Promise<CopyPaginationView>;
+}
+
+/**
+ * @dev The Helper contract reverts inside ownerOf for copy tokens that do not exist
+ */
+const orUndefined = async <Type>(call: Promise<Type>): Promise<Type | undefined> => {
+  try {
+    return await call;
+  } catch (err) {
+    if (err instanceof Error && /nonexistent token|invalid token ID/.test(err.message)) return undefined;
+    throw err;
+  }
+};
+
+/**
+ * @notice Reads the views from the Helper contract over RPC
+ */
+export class ChainSource implements IViewSource {
+  readonly client: ERC721CopyClient;
+
+  constructor(client: ERC721CopyClient) {
+    this.client = client;
+  }
+
+  async getCreatorTokenById(creatorId: BigNumberish) {
+    // the Helper contract returns an empty holder for creator tokens that do not exist or have been burned
+    const creator = await this.client.getCreator(creatorId);
+    return creator.holder == ZERO_ADDRESS ? undefined : creator;
+  }
+
+  getCopyTokenById(copyId: BigNumberish) {
+    return orUndefined(this.client.getCopy(copyId));
+  }
+
+  async getMintableByHash(copyHash: string) {
+    const mintable = await this.client.getMintable(copyHash);
+    return mintable.mintInfo.mintable == ZERO_ADDRESS ? undefined : mintable;
+  }
+
+  async getMintInfoByCreator(creatorId: BigNumberish) {
+    const creator = await this.client.getMintInfoByCreator(creatorId);
+    return creator.creation.holder == ZERO_ADDRESS ? undefined : creator;
+  }
+
+  getCreatorTokens(skip: number, limit: number) {
+    return this.client.getCreators(skip, limit);
+  }
+
+  getCreatorTokensByAddress(creator: string, skip: number, limit: number) {
+    return this.client.getCreatorsByAddress(creator, skip, limit);
+  }
+
+  getCopyTokens(skip: number, limit: number) {
+    return this.client.getCopies(skip, limit);
+  }
+
+  getCopyTokensByAddress(collector: string, skip: number, limit: number) {
+    return this.client.getCopiesByAddress(collector, skip, limit);
+  }
+
+  getCopyTokensByCreator(creatorId: BigNumberish, skip: number, limit: number) {
+    return this.client.getCopiesByCreator(creatorId, skip, limit);
+  }
+}
+
+/**
+ * @notice Reads the views from the local store of an {Indexer}. The indexer is synced before every read.
+ */
+export class IndexSource implements IViewSource {
+  readonly indexer: Indexer;
+
+  constructor(indexer: Indexer) {
+    this.indexer = indexer;
+  }
+
+  async getCreatorTokenById(creatorId: bigint) {
+    await this.indexer.sync();
+    return this.indexer.getCreatorTokenById(creatorId);
+  }
+
+  async getCopyTokenById(copyId: bigint) {
+    await this.indexer.sync();
+    return this.indexer.getCopyTokenById(copyId);
+  }
+
+  async getMintableByHash(copyHash: string) {
+    await this.indexer.sync();
+    return this.indexer.getMintableByHash(copyHash);
+  }
+
+  async getMintInfoByCreator(creatorId: bigint) {
+    await this.indexer.sync();
+    return this.indexer.getMintInfoByCreator(creatorId);
+  }
+
+  async getCreatorTokens(skip: number, limit: number) {
+    await this.indexer.sync();
+    return this.indexer.getCreatorTokens(skip, limit);
+  }
+
+  async getCreatorTokensByAddress(creator: string, skip: number, limit: number) {
+    await this.indexer.sync();
+    return this.indexer.getCreatorTokensByAddress(creator, skip, limit);
+  }
+
+  async getCopyTokens(skip: number, limit: number) {
+    await this.indexer.sync();
+    return this.indexer.getCopyTokens(skip, limit);
+  }
+
+  async getCopyTokensByAddress(collector: string, skip: number, limit: number) {
+    await this.indexer.sync();
+    return this.indexer.getCopyTokensByAddress(collector, skip, limit);
+  }
+
+  async getCopyTokensByCreator(creatorId: bigint, skip: number, limit: number) {
+    await this.indexer.sync();
+    return this.indexer.getCopyTokensByCreator(creatorId, skip, limit);
+  }
+}
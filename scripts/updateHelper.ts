@@ -31,9 +31,17 @@ export async function updateHelper(isMain=false): Promise<void> {
   let creatorAddress = deployedContracts[hre.network.name].creator;
   let copyrAddress = deployedContracts[hre.network.name].copy;
   let mintableAddress = deployedContracts[hre.network.name].mintable;
+  let forwarderAddress = deployedContracts[hre.network.name].forwarder;
    
   // helper contract
-  let helperContract = await new Helper__factory(owner).deploy(creatorAddress, copyrAddress, mintableAddress);
+  let helperContract = await new Helper__factory(owner).deploy(creatorAddress, copyrAddress, mintableAddress, forwarderAddress);
+
+  // the new helper replaces the previous one as an operator of the copy contract
+  let copyContract = Copy__factory.connect(copyrAddress, owner);
+  let operatorTx = await copyContract.whiteListOperator(helperContract.address);
+  await operatorTx.wait();
+  let removeTx = await copyContract.removeOperator(deployedContracts[hre.network.name].helper);
+  await removeTx.wait();
 
   deployedContracts[hre.network.name].helper = helperContract.address;
 
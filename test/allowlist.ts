@@ -0,0 +1,203 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    getNow,
+    Statement,
+    CopyValidationData,
+    getCopyValidationData
+} from '../utils';
+import {
+    AllowlistTree,
+    getAllowlistLeaf,
+    getEncodedAllowlistData,
+    getEncodedAllowlistProof,
+    loadAllowlist,
+    parseAllowlistCsv,
+    parseAllowlistJson
+} from '../utils/allowlist';
+import { ERC721CopyClient } from '../utils/client';
+
+import { getAddresses } from '../scripts/deploy';
+import { IContracts } from '../scripts/deploy.type';
+
+withSnapshot('ALLOWLIST MINTABLE Contract', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+    let tree: AllowlistTree;
+
+    const DURATION = 60 * 60 * 24 * 30;
+    const PRICE = ethers.utils.parseEther('0.0001');
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = getRuleMintInfo(contracts, { mintable: contracts.allowlistMintable.address, statement: Statement.COLLECT, updatable: false });
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: PRICE,
+            extendAmount: PRICE,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: getNow() - 1000,
+            time: 99999999999999
+        };
+
+        tree = new AllowlistTree([
+            { address: addr2.address, cap: 2n },
+            { address: owner.address, cap: 0n },
+            ...addrs.slice(0, 4).map((signer) => ({ address: signer.address, cap: 1n }))
+        ]);
+    });
+
+    const publish = async (root: string = tree.root) => {
+        return await creatorClient.publish(CONTENT.contentUri, [{
+            mintInfo,
+            validation: valInfo,
+            ruleData: getEncodedAllowlistData(getCopyValidationData(valInfo), root)
+        }]);
+    };
+
+    describe('allowlist utility tests', async () => {
+
+        it('Allowlist should be parsed from CSV and JSON lists', async () => {
+            let csv = `address,cap\n# curated collectors\n${addr2.address},2\n\n${addr3.address.toLowerCase()}\n`;
+            let json = JSON.stringify([{ address: addr2.address, cap: 2 }, addr3.address]);
+            let expected = [{ address: addr2.address, cap: 2n }, { address: addr3.address, cap: 0n }];
+
+            expect(parseAllowlistCsv(csv)).to.deep.eq(expected);
+            expect(parseAllowlistJson(json)).to.deep.eq(expected);
+
+            let dir = fs.mkdtempSync(path.join(os.tmpdir(), 'allowlist-'));
+            try {
+                fs.writeFileSync(path.join(dir, 'list.csv'), csv);
+                fs.writeFileSync(path.join(dir, 'list.json'), json);
+                expect(loadAllowlist(path.join(dir, 'list.csv'))).to.deep.eq(expected);
+                expect(AllowlistTree.fromFile(path.join(dir, 'list.json')).root).to.eq(new AllowlistTree(expected).root);
+            } finally {
+                fs.rmSync(dir, { recursive: true });
+            }
+
+            expect(() => parseAllowlistCsv('0x1234,1')).to.throw('Allowlist: Invalid Address');
+            expect(() => new AllowlistTree([...expected, expected[0]])).to.throw('Allowlist: Duplicate Address');
+            expect(() => tree.getProof(addr3.address)).to.throw('Allowlist: Address Not Listed');
+        })
+
+        it('Allowlist proofs should be verified against the root', async () => {
+            for (let entry of tree.entries.values()) {
+                let { proof } = tree.getProof(entry.address);
+                let hash = proof.reduce((node, sibling) => ethers.utils.keccak256(
+                    ethers.utils.concat(node < sibling ? [node, sibling] : [sibling, node])
+                ), getAllowlistLeaf(entry));
+                expect(hash).to.eq(tree.root);
+            }
+            let single = new AllowlistTree([{ address: addr2.address, cap: 0n }]);
+            expect(single.getProof(addr2.address).proof).to.deep.eq([]);
+            expect(single.root).to.eq(getAllowlistLeaf({ address: addr2.address, cap: 0n }));
+        })
+    })
+
+    describe('function tests', async () => {
+
+        it('Listed collectors should be able to mint copies up to their cap', async () => {
+            let { copyHashes } = await publish();
+            let copyHash = copyHashes[0];
+            expect(await contracts.allowlistMintable.getMerkleRoot(copyHash)).to.eq(tree.root);
+
+            let copyId = await collectorClient.collect(copyHash, DURATION, undefined, tree.getMintData(addr2.address));
+            await collectorClient.collect(copyHash, DURATION, undefined, tree.getMintData(addr2.address));
+            expect(await contracts.allowlistMintable.getMintedBy(copyHash, addr2.address)).to.eq(2);
+            expect(await contracts.allowlistMintable.getMintCount(copyHash)).to.eq(2);
+            expect(await contracts.allowlistMintable.getBalance(addr1.address, ZERO_ADDRESS)).to.eq(PRICE.mul(2));
+
+            await expect(collectorClient.collect(copyHash, DURATION, undefined, tree.getMintData(addr2.address)))
+                .to.be.revertedWith('AllowlistMintable: Mint Cap Reached');
+
+            // copies of allowlist rules are extended as usual
+            await collectorClient.extend(copyId, DURATION);
+
+            // no cap
+            let ownerClient = new ERC721CopyClient(owner, getAddresses(contracts));
+            for (let i = 0; i < 3; i++) {
+                await ownerClient.collect(copyHash, DURATION, undefined, tree.getMintData(owner.address));
+            }
+        })
+
+        it('Collectors should not mint copies without a valid proof', async () => {
+            let { copyHashes } = await publish();
+            let copyHash = copyHashes[0];
+
+            await expect(collectorClient.collect(copyHash, DURATION)).to.be.revertedWith('AllowlistMintable: Proof Required');
+
+            // the proof of another collector
+            await expect(collectorClient.collect(copyHash, DURATION, addr3.address, tree.getMintData(addr2.address)))
+                .to.be.revertedWith('AllowlistMintable: Invalid Proof');
+
+            // a forged cap
+            let { proof } = tree.getProof(addr2.address);
+            await expect(collectorClient.collect(copyHash, DURATION, undefined, getEncodedAllowlistProof({ cap: 0n, proof })))
+                .to.be.revertedWith('AllowlistMintable: Invalid Proof');
+
+            // the mint data of the allowlist is not accepted by the Mintable contract
+            let { copyHashes: [paidHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo: { ...mintInfo, mintable: contracts.mintable.address }, validation: valInfo }
+            ]);
+            await expect(collectorClient.collect(paidHash, DURATION, undefined, tree.getMintData(addr2.address)))
+                .to.be.revertedWith('Copy: Mintable Rule Takes No Data');
+        })
+
+        it('Helper should read the validation info and the mint count of a rule from its mintable', async () => {
+            let { copyHashes: [copyHash] } = await publish();
+            let copyId = await collectorClient.collect(copyHash, DURATION, undefined, tree.getMintData(addr2.address));
+
+            let view = await contracts.helper.getMintableByHash(copyHash);
+            expect(view.mintInfo.mintable).to.eq(contracts.allowlistMintable.address);
+            expect(view.valInfo.mintAmount).to.eq(PRICE);
+            expect(view.valInfo.duration).to.eq(DURATION);
+            expect(view.count).to.eq(1);
+
+            let mintable = await collectorClient.getMintable(copyHash);
+            expect(mintable.valInfo.mintAmount).to.eq(PRICE.toBigInt());
+            expect(mintable.count).to.eq(1);
+            expect((await collectorClient.getCopy(copyId)).mintable.count).to.eq(1);
+        })
+
+        it('Collectors should be able to batch collect with proofs', async () => {
+            let first = await publish();
+            let second = await publish();
+
+            let copyIds = await collectorClient.batchCollect([
+                { copyHash: first.copyHashes[0], duration: DURATION, mintData: tree.getMintData(addr2.address) },
+                { copyHash: second.copyHashes[0], duration: DURATION / 2, mintData: tree.getMintData(addr2.address) }
+            ]);
+            expect(copyIds.length).to.eq(2);
+            expect(await contracts.copy.ownerOf(copyIds[1])).to.eq(addr2.address);
+            expect(await contracts.allowlistMintable.getBalance(addr1.address, ZERO_ADDRESS)).to.eq(PRICE.mul(2));
+
+            await expect(contracts.helper.connect(addr3)['batchCollect(address,bytes32[],uint64[],uint256[],bytes[])'](
+                addr3.address, [first.copyHashes[0]], [DURATION], [PRICE], [tree.getMintData(addr2.address)], { value: PRICE }
+            )).to.be.revertedWith('AllowlistMintable: Invalid Proof');
+        })
+    })
+})
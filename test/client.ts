@@ -0,0 +1,152 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    getNow,
+    Statement,
+    RuleState,
+    CopyValidationData
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+
+import { IContracts, IContractAddresses } from '../scripts/deploy.type';
+
+withSnapshot('CLIENT', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let addresses: IContractAddresses;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DURATION = 60 * 60 * 24 * 30;
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, ...addrs], contracts, addresses, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = getRuleMintInfo(contracts, { revokable: true });
+
+        valInfo = {
+            feeToken: contracts.test.mockFT.address,
+            duration: DURATION,
+            fragmented: true,
+            mintAmount: 10000000000,
+            extendAmount: 10000000000,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 3,
+            start: getNow() - 1000,
+            time: 99999999999999
+        };
+    });
+
+    describe('function tests', async () => {
+
+        it('Creator should be able to publish a creator token with rules', async () => {
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+
+            expect(copyHashes.length).to.eq(1);
+            expect((await contracts.copy['getCopyHashes(uint256)'](creatorId))[0]).to.eq(copyHashes[0]);
+
+            let creator = await creatorClient.getCreator(creatorId);
+            expect(creator.creatorId).to.eq(creatorId);
+            expect(creator.holder).to.eq(addr1.address);
+            expect(creator.tokenURI).to.eq(CONTENT.contentUri);
+            expect(creator.rules).to.eq(1);
+            expect(creator.copies).to.eq(0);
+        })
+
+        it('Collector should be able to collect, extend and destroy a copy paid with ERC20 tokens', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            await contracts.test.mockFT.connect(addr2).mint(addr2.address, 20000000000);
+
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            expect(await contracts.test.mockFT.balanceOf(addr2.address)).to.eq(10000000000);
+
+            let copy = await collectorClient.getCopy(copyId);
+            expect(copy.copyId).to.eq(copyId);
+            expect(copy.holder).to.eq(addr2.address);
+            expect(copy.mintable.copyHash).to.eq(copyHashes[0]);
+            expect(copy.mintable.mintInfo.statement).to.eq(Statement.USE);
+            expect(copy.mintable.valInfo.mintAmount).to.eq(10000000000n);
+            expect(copy.mintable.count).to.eq(1);
+
+            let expireAt = await collectorClient.extend(copyId, DURATION / 2);
+            expect(expireAt).to.eq(copy.expireAt + BigInt(DURATION / 2));
+            expect(await contracts.test.mockFT.balanceOf(addr2.address)).to.eq(5000000000);
+
+            let page = await collectorClient.getCopiesByAddress(addr2.address, 0, 10);
+            expect(page.copies.length).to.eq(1);
+            expect(page.meta).to.deep.eq({ offset: 0, limit: 10, count: 1 });
+
+            await collectorClient.destroy(copyId);
+            expect(await contracts.copy.balanceOf(addr2.address)).to.eq(0);
+        })
+
+        it('Creator should be able to add, pause a rule and revoke a copy paid with native tokens', async () => {
+            let { creatorId } = await creatorClient.publish(CONTENT.contentUri);
+            let value = ethers.utils.parseEther('0.0001');
+
+            let copyHash = await creatorClient.addRule(
+                { ...mintInfo, creatorId },
+                { ...valInfo, feeToken: ZERO_ADDRESS, mintAmount: value, extendAmount: value }
+            );
+            expect((await creatorClient.getMintInfoByCreator(creatorId)).mintable[0].copyHash).to.eq(copyHash);
+
+            let copyId = await collectorClient.collect(copyHash, DURATION);
+            expect((await creatorClient.getCopiesByCreator(creatorId, 0, 10)).copies[0].copyId).to.eq(copyId);
+
+            await creatorClient.pauseRule(copyHash);
+            await expect(collectorClient.collect(copyHash, DURATION)).to.be.revertedWith('Copy: Copying Disabled');
+
+            await creatorClient.revoke(copyId);
+            expect(await contracts.copy.balanceOf(addr2.address)).to.eq(0);
+        })
+
+        it('Creator should be able to pause, resume and close a rule', async () => {
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: { ...valInfo, feeToken: ZERO_ADDRESS, mintAmount: 0, extendAmount: 0 } }
+            ]);
+            let copyHash = copyHashes[0];
+            expect(await creatorClient.getRuleState(copyHash)).to.eq(RuleState.EXIST);
+            expect(await creatorClient.getRuleState(ethers.constants.HashZero)).to.eq(RuleState.NIL);
+
+            await expect(creatorClient.resumeRule(copyHash)).to.be.revertedWith('Copy: Invalid Rule State');
+            await creatorClient.pauseRule(copyHash);
+            expect((await creatorClient.getMintable(copyHash)).state).to.eq(RuleState.PAUSED);
+            await expect(collectorClient.collect(copyHash, DURATION)).to.be.revertedWith('Copy: Copying Disabled');
+
+            await expect(collectorClient.resumeRule(copyHash)).to.be.revertedWith('Copy: caller is not creator nor approved');
+            await creatorClient.resumeRule(copyHash);
+            expect((await creatorClient.getMintable(copyHash)).state).to.eq(RuleState.EXIST);
+            let copyId = await collectorClient.collect(copyHash, DURATION);
+
+            // paused rules still extend their copies
+            await creatorClient.pauseRule(copyHash);
+            await collectorClient.extend(copyId, DURATION);
+            await collectorClient.extend(copyId, DURATION, '0x');
+
+            await creatorClient.closeRule(copyHash);
+            expect((await creatorClient.getCopy(copyId)).mintable.state).to.eq(RuleState.CLOSED);
+            await expect(collectorClient.collect(copyHash, DURATION)).to.be.revertedWith('Copy: Copying Disabled');
+
+            // closed rules cannot be reopened, but their copies can still be extended
+            await expect(creatorClient.resumeRule(copyHash)).to.be.revertedWith('Copy: Invalid Rule State');
+            await expect(creatorClient.pauseRule(copyHash)).to.be.revertedWith('Copy: Invalid Rule State');
+            await expect(creatorClient.closeRule(copyHash)).to.be.revertedWith('Copy: Invalid Rule State');
+            await expect(creatorClient.addRule({ ...mintInfo, creatorId }, valInfo)).to.be.revertedWith('Copy: Mintable Rule Closed');
+            await collectorClient.extend(copyId, DURATION);
+            await collectorClient.extend(copyId, DURATION, '0x');
+        })
+    })
+})
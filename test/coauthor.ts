@@ -0,0 +1,169 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+import { hashContent } from '../utils/content';
+
+import {
+    TransferMode,
+    CopyValidationData,
+    getEncodedTransferData
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+import { CoauthorPayload, getCoauthorshipStatement, signCoauthorship, sortCoauthors } from '../utils/coauthors';
+import { PaymentSplitter__factory } from '../typechain-types';
+
+import { getAddresses } from '../scripts/deploy';
+import { IContracts } from '../scripts/deploy.type';
+
+withSnapshot('COAUTHORS', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addr4: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DAY = 60 * 60 * 24;
+    const DURATION = DAY * 30;
+    const PRICE = ethers.utils.parseEther('0.0003').toBigInt();
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    const getTimestamp = async () => (await ethers.provider.getBlock('latest')).timestamp;
+
+    const getRejection = async (promise: Promise<unknown>): Promise<string> => {
+        try {
+            await promise;
+        } catch (e) {
+            return (e as Error).message;
+        }
+        return '';
+    };
+
+    const getPayload = (weights: number[], to: string = addr1.address) => {
+        let coauthors = [addr1, addr2, addr3].slice(0, weights.length).map((signer, i) => ({
+            account: signer.address,
+            weight: weights[i]
+        }));
+        return new CoauthorPayload(contracts.creator, getCoauthorshipStatement(to, CONTENT.contentUri, coauthors, DAY));
+    };
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, addr4, ...addrs], contracts, creatorClient } = await deployFixture());
+        collectorClient = new ERC721CopyClient(addr4, getAddresses(contracts));
+
+        mintInfo = getRuleMintInfo(contracts, { mintInfoAdditional: getEncodedTransferData(1000, TransferMode.FREE) });
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: PRICE,
+            extendAmount: PRICE,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: await getTimestamp() - 1000,
+            time: 99999999999999
+        };
+    });
+
+    describe('function tests', async () => {
+
+        it('Co-authored creator tokens should require the signature of every co-author', async () => {
+            expect(() => sortCoauthors([{ account: addr1.address, weight: 1 }, { account: addr1.address, weight: 2 }]))
+                .to.throw('Coauthors: Duplicate Address');
+            expect(() => sortCoauthors([{ account: addr1.address, weight: 0 }])).to.throw('Coauthors: Invalid Weight');
+
+            let payload = getPayload([1, 2, 3]);
+            await payload.sign(addr2);
+            expect(payload.missing()).to.have.members([addr1.address, addr3.address]);
+            expect(() => payload.assemble()).to.throw('Coauthors: Missing Signature');
+            expect(await getRejection(payload.sign(addr4))).to.contain('Coauthors: Unknown Coauthor');
+
+            // a signature of another statement, or from another account, is rejected
+            let other = getPayload([1, 2, 4]);
+            let otherSig = await signCoauthorship(addr3, contracts.creator, other.statement);
+            expect(await getRejection(payload.addSignature(addr3.address, otherSig))).to.contain('Coauthors: Invalid Signature');
+            let wrongSig = await signCoauthorship(addr1, contracts.creator, payload.statement);
+            expect(await getRejection(payload.addSignature(addr3.address, wrongSig))).to.contain('Coauthors: Invalid Signature');
+
+            await payload.sign(addr3);
+            await payload.sign(addr1);
+            let [to, contentUri, contentHash, coauthors, permSigs] = payload.assemble();
+            await expect(contracts.creator.createWithCoauthors(to, contentUri, contentHash, coauthors, permSigs.slice(1)))
+                .to.be.revertedWith('Invalid coauthors');
+            await expect(contracts.creator.createWithCoauthors(to, contentUri, contentHash, [...coauthors].reverse(), permSigs))
+                .to.be.revertedWith('Invalid coauthors');
+            await expect(contracts.creator.createWithCoauthors(addr2.address, contentUri, contentHash, coauthors, permSigs))
+                .to.be.revertedWith('Invalid copyright signature');
+            await expect(contracts.creator.createWithCoauthors(to, contentUri, hashContent('tampered'), coauthors, permSigs))
+                .to.be.revertedWith('Invalid copyright signature');
+
+            let creatorId = await new ERC721CopyClient(addr4, getAddresses(contracts)).publishWithCoauthors(payload);
+            expect(await contracts.creator.ownerOf(creatorId)).to.eq(addr1.address);
+            expect(await creatorClient.getCoauthors(creatorId)).to.deep.eq(payload.statement.coauthors);
+            expect(await contracts.creator.tokenURI(creatorId)).to.eq(CONTENT.contentUri);
+
+            // the nonces are consumed
+            await expect(contracts.creator.createWithCoauthors(...payload.assemble())).to.be.revertedWith('Invalid copyright signature');
+
+            let { creatorId: soloId } = await creatorClient.publish(CONTENT.contentUri);
+            expect(await creatorClient.getCoauthors(soloId)).to.deep.eq([]);
+            expect(await creatorClient.getSplitter(soloId)).to.eq(ZERO_ADDRESS);
+        })
+
+        it('Mint and extend fees should be split between the co-authors by weight', async () => {
+            let payload = getPayload([1, 2, 3]);
+            for (let signer of [addr1, addr2, addr3]) {
+                await payload.sign(signer);
+            }
+            let creatorId = await creatorClient.publishWithCoauthors(payload);
+            let copyHash = await creatorClient.addRule({ ...mintInfo, creatorId }, valInfo);
+
+            let copyId = await collectorClient.collect(copyHash, DURATION);
+            await collectorClient.extend(copyId, DURATION);
+
+            let balances = await Promise.all(payload.statement.coauthors.map((coauthor) => creatorClient.getBalance(ZERO_ADDRESS, coauthor.account)));
+            expect(balances.reduce((a, b) => a + b, 0n)).to.eq(PRICE * 2n);
+            payload.statement.coauthors.forEach((coauthor, i) => {
+                if (i > 0) {
+                    expect(balances[i]).to.eq(PRICE * 2n * coauthor.weight / 6n);
+                }
+            });
+
+            let account = payload.statement.coauthors[1].account;
+            let signer = [addr1, addr2, addr3].find((signer) => signer.address == account)!;
+            expect(await new ERC721CopyClient(signer, getAddresses(contracts)).withdraw()).to.eq(balances[1]);
+        })
+
+        it('Royalties should be paid to the payment splitter of the co-authors', async () => {
+            let payload = getPayload([1, 3]);
+            await payload.sign(addr1);
+            await payload.sign(addr2);
+            let creatorId = await creatorClient.publishWithCoauthors(payload);
+            let copyHash = await creatorClient.addRule({ ...mintInfo, creatorId }, valInfo);
+            let copyId = await collectorClient.collect(copyHash, DURATION);
+
+            let splitter = await creatorClient.getSplitter(creatorId);
+            expect(splitter).to.not.eq(ZERO_ADDRESS);
+            expect(await collectorClient.getRoyaltyInfo(copyId, 10000)).to.deep.eq({ receiver: splitter, amount: 1000n });
+
+            let royalty = ethers.utils.parseEther('1');
+            await owner.sendTransaction({ to: splitter, value: royalty });
+            let paymentSplitter = PaymentSplitter__factory.connect(splitter, owner);
+            expect(await paymentSplitter['releasable(address)'](addr1.address)).to.eq(royalty.div(4));
+            expect(await paymentSplitter['releasable(address)'](addr2.address)).to.eq(royalty.mul(3).div(4));
+            await expect(() => paymentSplitter['release(address)'](addr2.address))
+                .to.changeEtherBalance(addr2, royalty.mul(3).div(4));
+        })
+    })
+})
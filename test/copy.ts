@@ -3,6 +3,7 @@ import { ethers } from 'hardhat';
 import { expect } from 'chai';
 import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
 import { withSnapshot } from '../utils/helper';
+import { RuleMintInfo } from './fixture';
 
 import {
     getNow,
@@ -10,11 +11,21 @@ import {
     getCopyValidationData,
     getEncodedValidationData,
     Statement,
+    CopyValidationData,
     PermSig,
     getPermSig
 } from '../utils';
+import { decodeTokenURI } from '../utils/metadata';
+import { ERC721CopyClient } from '../utils/client';
+import {
+    MockDataMintable,
+    MockDataMintable__factory,
+    MockLegacyCopy__factory,
+    MockLegacyMintable__factory,
+    Mintable__factory
+} from '../typechain-types';
 
-import { deploy } from '../scripts/deploy';
+import { deploy, getAddresses } from '../scripts/deploy';
 import { IContracts } from '../scripts/deploy.type';
 
 withSnapshot('COPY Contract', () => {
@@ -38,30 +49,29 @@ withSnapshot('COPY Contract', () => {
         it('Creator should be able to set up a Mintable Rule', async ()=> {
 
             // set Permission
-            let permSig: PermSig = await getPermSig(addr1, CONTENT.contentUri, CONTENT.copyright, 1000000);
+            let permSig: PermSig = await getPermSig(addr1, contracts.creator, CONTENT.contentUri, CONTENT.copyright, 1000000);
+
+            // get creator Id
+            let creatorId = await contracts.creator.newTokenId(addr1.address, 0);
 
             // mint a token
-            await contracts.creator.connect(addr1).create(
+            await contracts.creator.connect(addr1)['create(address,string,(uint256,uint8,bytes32,bytes32))'](
                 addr1.address,
                 CONTENT.contentUri,
                 permSig
                 );            
 
-            // get creator Id
-            let balance = (await contracts.creator.balanceOf(addr1.address)).toNumber();
-
-            let creatorId = (await contracts.creator.newTokenId(addr1.address, balance-1)).toNumber();
-
             // mint rule
             let mintInfo = {
                 mintable: contracts.mintable.address,
+                creatorContract: ZERO_ADDRESS,
                 creatorId: creatorId,
                 statement: Statement.DISTRIBUTE,
                 transferable: true,
                 updatable: true,
                 revokable: true,
                 extendable: true,
-                mintInfoAdditional: ""
+                mintInfoAdditional: "0x"
               };
 
             let valInfo = getCopyValidationData({
@@ -95,10 +105,10 @@ withSnapshot('COPY Contract', () => {
             await contracts.test.mockFT.connect(addr2).approve(contracts.mintable.address, 10000000000);
             
             // get the copyHash
-            let copyHash = (await contracts.copy.getCopyHashes(1))[0];
+            let copyHash = (await contracts.copy['getCopyHashes(uint256)'](creatorId))[0];
 
             // get a copy
-            await contracts.copy.connect(addr2).create(
+            await contracts.copy.connect(addr2)['create(address,bytes32,uint64)'](
                 addr2.address,
                 copyHash,
                 60 * 60 * 24 * 30
@@ -107,30 +117,31 @@ withSnapshot('COPY Contract', () => {
             // get copy Id
             let copyBalance = (await contracts.copy.balanceOf(addr2.address)).toNumber();
             expect(copyBalance).to.gt(0);
-            let copyId = (await contracts.copy.tokenByIndex(copyBalance-1)).toNumber();
+            let copyId = await contracts.copy.tokenByIndex(copyBalance-1);
 
             // check balance after transaction
             expect((await contracts.test.mockFT.balanceOf(addr2.address)).toNumber()).to.eq(walletBalance.add(10000000000));
             
             // check copy NFT data
-            expect(await contracts.copy.tokenURI(copyId)).to.eq(CONTENT.contentUri);
+            expect(decodeTokenURI(await contracts.copy.tokenURI(copyId)).content_uri).to.eq(CONTENT.contentUri);
         })
 
         it('Creator should be able to set up a Mintable Rule with Help[er', async ()=> {
             
             // set Permission
-            let permSig: PermSig = await getPermSig(addr1, CONTENT.contentUri, CONTENT.copyright, 1000000);
+            let permSig: PermSig = await getPermSig(addr1, contracts.creator, CONTENT.contentUri, CONTENT.copyright, 1000000);
                 
             // mint rule
             let mintInfo = {
                 mintable: contracts.mintable.address,
+                creatorContract: ZERO_ADDRESS,
                 creatorId: 0, // dummy 
                 statement: Statement.DISTRIBUTE,
                 transferable: true,
                 updatable: true,
                 revokable: true,
                 extendable: true,
-                mintInfoAdditional: ""
+                mintInfoAdditional: "0x"
             };
         
             let valInfo = getCopyValidationData({
@@ -145,8 +156,11 @@ withSnapshot('COPY Contract', () => {
                 time: 99999999999999
             });
             
+            // get creator Id
+            let creatorId = await contracts.creator.newTokenId(addr1.address, 0);
+
             // mint and set rules
-            await contracts.helper.connect(addr1).createWithMintables(
+            await contracts.helper.connect(addr1)['createWithMintables(address,string,(uint256,uint8,bytes32,bytes32),(address,uint8,bool,bool,bool,bool,address,uint256,bytes)[],bytes[])'](
                 addr1.address,
                 CONTENT.contentUri,
                 permSig,
@@ -167,10 +181,10 @@ withSnapshot('COPY Contract', () => {
             await contracts.test.mockFT.connect(addr2).approve(contracts.mintable.address, 10000000000);
             
             // get the copyHash
-            let copyHash = (await contracts.copy.getCopyHashes(1))[0];
+            let copyHash = (await contracts.copy['getCopyHashes(uint256)'](creatorId))[0];
             
             // get a copy
-            await contracts.copy.connect(addr2).create(
+            await contracts.copy.connect(addr2)['create(address,bytes32,uint64)'](
                 addr2.address,
                 copyHash,
                 60 * 60 * 24 * 30
@@ -179,14 +193,293 @@ withSnapshot('COPY Contract', () => {
             // get copy Id
             let copyBalance = (await contracts.copy.balanceOf(addr2.address)).toNumber();
             expect(copyBalance).to.gt(0);
-            let copyId = (await contracts.copy.tokenByIndex(copyBalance-1)).toNumber();
+            let copyId = await contracts.copy.tokenByIndex(copyBalance-1);
 
             // check balance after transaction
             expect((await contracts.test.mockFT.balanceOf(addr2.address)).toNumber()).to.eq(walletBalance.add(10000000000));
             
             // check copy NFT data
-            expect(await contracts.copy.tokenURI(copyId)).to.eq(CONTENT.contentUri);
+            expect(decodeTokenURI(await contracts.copy.tokenURI(copyId)).content_uri).to.eq(CONTENT.contentUri);
         })
  
     })
-})
\ No newline at end of file
+
+    describe('mint data tests', async () => {
+
+        const DURATION = 60 * 60 * 24 * 30;
+        const MINT_DATA = ethers.utils.defaultAbiCoder.encode(['string'], ['COUPON-2022']);
+
+        let dataMintable: MockDataMintable;
+        let creatorClient: ERC721CopyClient;
+        let collectorClient: ERC721CopyClient;
+        let mintInfo: RuleMintInfo;
+        let valInfo: CopyValidationData;
+
+        before(async function () {
+            dataMintable = await new MockDataMintable__factory(owner).deploy(contracts.copy.address);
+            await contracts.copy.connect(owner).whiteListMintableContract(dataMintable.address);
+
+            creatorClient = new ERC721CopyClient(addr1, getAddresses(contracts));
+            collectorClient = new ERC721CopyClient(addr2, getAddresses(contracts));
+
+            mintInfo = {
+                mintable: dataMintable.address,
+                statement: Statement.USE,
+                transferable: true,
+                updatable: true,
+                revokable: true,
+                extendable: true
+            };
+            valInfo = {
+                feeToken: ZERO_ADDRESS,
+                duration: DURATION,
+                fragmented: false,
+                mintAmount: 0,
+                extendAmount: 0,
+                requiredERC721Token: ZERO_ADDRESS,
+                limit: 10,
+                start: getNow() - 1000,
+                time: 99999999999999
+            };
+        });
+
+        it('Mintables should advertise whether they take mint data', async () => {
+            expect(await dataMintable.supportsInterface('0x01ffc9a7')).to.eq(true);
+            expect(await contracts.allowlistMintable.supportsInterface('0x01ffc9a7')).to.eq(true);
+            expect(await contracts.mintable.supportsInterface('0x01ffc9a7')).to.eq(true);
+            expect(await contracts.mintable.supportsInterface('0xffffffff')).to.eq(false);
+
+            let dataMintableId = ethers.utils.hexDataSlice(ethers.utils.hexlify(
+                ethers.BigNumber.from(dataMintable.interface.getSighash('isMintable(address,bytes32,uint64,bytes)'))
+                    .xor(dataMintable.interface.getSighash('isExtendable(address,bytes32,uint64,uint64,bytes)'))
+            ), 0, 4);
+            expect(await dataMintable.supportsInterface(dataMintableId)).to.eq(true);
+            expect(await contracts.mintable.supportsInterface(dataMintableId)).to.eq(false);
+        })
+
+        it('Copy should forward the mint data on create and extend', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+
+            let tx = contracts.copy.connect(addr2)['create(address,bytes32,uint64,bytes)'](addr2.address, copyHashes[0], DURATION, MINT_DATA);
+            await expect(tx).to.emit(dataMintable, 'MintData').withArgs(copyHashes[0], MINT_DATA);
+
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION, undefined, '0x1234');
+            await expect(contracts.copy.connect(addr2)['extend(uint256,uint64,bytes)'](copyId, DURATION, MINT_DATA))
+                .to.emit(dataMintable, 'MintData').withArgs(copyHashes[0], MINT_DATA);
+            await collectorClient.extend(copyId, DURATION, '0x');
+
+            // the legacy functions call the legacy variants of the rule
+            await collectorClient.collect(copyHashes[0], DURATION);
+            await collectorClient.extend(copyId, DURATION);
+            expect(await dataMintable.getMintCount(copyHashes[0])).to.eq(3);
+        })
+
+        it('Copy should only accept empty mint data for mintables without data', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo: { ...mintInfo, mintable: contracts.mintable.address }, validation: valInfo }
+            ]);
+
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION, undefined, '0x');
+            await collectorClient.extend(copyId, DURATION, '0x');
+            await expect(collectorClient.collect(copyHashes[0], DURATION, undefined, MINT_DATA))
+                .to.be.revertedWith('Copy: Mintable Rule Takes No Data');
+            await expect(collectorClient.extend(copyId, DURATION, MINT_DATA))
+                .to.be.revertedWith('Copy: Mintable Rule Takes No Data');
+        })
+
+        it('Mintables should keep the IMintable interface and advertise extensions taking the expiry', async () => {
+            let legacyMintable = await new MockLegacyMintable__factory(owner).deploy(contracts.copy.address);
+            let getInterfaceId = (signatures: string[]) => ethers.utils.hexDataSlice(ethers.utils.hexlify(
+                signatures.reduce((id, signature) => id.xor(legacyMintable.interface.getSighash(signature)), ethers.BigNumber.from(0))
+            ), 0, 4);
+
+            let mintableId = getInterfaceId([
+                'setupRule(bytes32,bytes)',
+                'isMintable(address,bytes32,uint64)',
+                'isExtendable(address,bytes32,uint64)',
+                'getMintCount(bytes32)'
+            ]);
+            let expiryMintableId = getInterfaceId(['isExtendable(address,bytes32,uint64,uint64)']);
+            expect(await contracts.mintable.supportsInterface(mintableId)).to.eq(true);
+            expect(await contracts.mintable.supportsInterface(expiryMintableId)).to.eq(true);
+            expect(await legacyMintable.supportsInterface(mintableId)).to.eq(true);
+            expect(await legacyMintable.supportsInterface(expiryMintableId)).to.eq(false);
+        })
+
+        it('Copy should extend copies of mintables not taking the expiry without it', async () => {
+            let legacyMintable = await new MockLegacyMintable__factory(owner).deploy(contracts.copy.address);
+            await contracts.copy.connect(owner).whiteListMintableContract(legacyMintable.address);
+
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo: { ...mintInfo, mintable: legacyMintable.address }, validation: valInfo },
+                { mintInfo: { ...mintInfo, mintable: legacyMintable.address, revokable: false }, validation: { ...valInfo, extendWindow: DURATION } }
+            ]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            let expiry = (await contracts.copy.getCopyInfo(copyId)).expireAt;
+            await collectorClient.extend(copyId, DURATION);
+            await collectorClient.extend(copyId, DURATION, '0x');
+            expect((await contracts.copy.getCopyInfo(copyId)).expireAt).to.eq(expiry.add(DURATION * 2));
+
+            // the extension window of the rule cannot be checked without the expiry
+            let windowedId = await collectorClient.collect(copyHashes[1], DURATION);
+            await expect(collectorClient.extend(windowedId, DURATION)).to.be.revertedWith('Mintable: Expiry Required');
+        })
+
+        it('Helper should carry the mint data of each item in batches', async () => {
+            let { copyHashes: [dataHash] } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let { copyHashes: [plainHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo: { ...mintInfo, mintable: contracts.mintable.address }, validation: valInfo }
+            ]);
+
+            let copyIds = await collectorClient.batchCollect([
+                { copyHash: dataHash, duration: DURATION, mintData: MINT_DATA },
+                { copyHash: plainHash, duration: DURATION }
+            ]);
+            expect(copyIds.length).to.eq(2);
+
+            let recipients = [addr2.address, addr3.address];
+            let tx = contracts.helper.connect(addr1)['batchCreate(address[],bytes32,uint64,uint256[],bytes[])'](
+                recipients, dataHash, DURATION, [0, 0], [MINT_DATA, '0xabcd']
+            );
+            await expect(tx).to.emit(dataMintable, 'MintData').withArgs(dataHash, '0xabcd');
+
+            let issued = await creatorClient.batchCreate(recipients, dataHash, DURATION, [MINT_DATA, MINT_DATA]);
+            expect(await contracts.copy.ownerOf(issued[1])).to.eq(addr3.address);
+            expect((await creatorClient.batchCreate(recipients, plainHash, DURATION)).length).to.eq(2);
+        })
+    })
+
+    describe('holder index tests', async () => {
+
+        const DAY = 60 * 60 * 24;
+        const DURATION = DAY * 30;
+
+        let creatorClient: ERC721CopyClient;
+        let collectorClient: ERC721CopyClient;
+        let mintInfo: RuleMintInfo;
+        let valInfo: CopyValidationData;
+
+        const increaseTime = async (seconds: number) => {
+            await ethers.provider.send('evm_increaseTime', [seconds]);
+            await ethers.provider.send('evm_mine', []);
+        };
+
+        before(async function () {
+            creatorClient = new ERC721CopyClient(addr1, getAddresses(contracts));
+            collectorClient = new ERC721CopyClient(addr2, getAddresses(contracts));
+
+            mintInfo = {
+                mintable: contracts.mintable.address,
+                statement: Statement.USE,
+                transferable: true,
+                updatable: false,
+                revokable: true,
+                extendable: true
+            };
+            valInfo = {
+                feeToken: ZERO_ADDRESS,
+                duration: DURATION,
+                fragmented: false,
+                mintAmount: 0,
+                extendAmount: 0,
+                requiredERC721Token: ZERO_ADDRESS,
+                limit: 100,
+                start: getNow() - 1000,
+                time: 99999999999999
+            };
+        });
+
+        it('Valid copies should follow mints, expiries, extensions, transfers and burns', async () => {
+            let first = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let second = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr2.address, first.creatorId)).to.eq(false);
+            let shortId = await collectorClient.collect(first.copyHashes[0], DAY);
+            let longId = await collectorClient.collect(first.copyHashes[0], DURATION);
+            let otherId = await collectorClient.collect(second.copyHashes[0], DAY);
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr2.address, first.creatorId)).to.eq(true);
+            expect(await collectorClient.getValidCopies(addr2.address, first.creatorId)).to.deep.eq([shortId, longId]);
+            expect(await collectorClient.getValidCopies(addr2.address, second.creatorId)).to.deep.eq([otherId]);
+
+            await increaseTime(DAY * 2);
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr2.address, second.creatorId)).to.eq(false);
+            expect(await collectorClient.getValidCopies(addr2.address, first.creatorId)).to.deep.eq([longId]);
+
+            // the latest expiry moves with the copy
+            await contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, longId);
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr2.address, first.creatorId)).to.eq(false);
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr3.address, first.creatorId)).to.eq(true);
+            expect(await collectorClient.getValidCopies(addr3.address, first.creatorId)).to.deep.eq([longId]);
+
+            await collectorClient.extend(shortId, DAY);
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr2.address, first.creatorId)).to.eq(true);
+            await collectorClient.destroy(shortId);
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr2.address, first.creatorId)).to.eq(false);
+            expect(await collectorClient.getValidCopies(addr2.address, first.creatorId)).to.deep.eq([]);
+
+            await creatorClient.revoke(longId);
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr3.address, first.creatorId)).to.eq(false);
+        })
+
+        it('Gas of hasValidCopy should not grow with the copies held', async () => {
+            let [extension, revocationExtension] = await contracts.copy.getExtensions();
+            let legacyCopy = await new MockLegacyCopy__factory(owner).deploy(
+                'Copy', 'CPY', contracts.creator.address, contracts.forwarder.address, extension, revocationExtension
+            );
+            let legacyMintable = await new Mintable__factory(owner).deploy(legacyCopy.address);
+            await legacyCopy.connect(owner).whiteListMintableContract(legacyMintable.address);
+            let addresses = { ...getAddresses(contracts), copy: legacyCopy.address, mintable: legacyMintable.address };
+            let legacyCreator = new ERC721CopyClient(addr1, addresses);
+            let legacyCollector = new ERC721CopyClient(addr2, addresses);
+
+            let { creatorId } = await legacyCreator.publish(CONTENT.contentUri);
+            let { creatorId: otherId } = await legacyCreator.publish(CONTENT.contentUri);
+            let copyHash = await legacyCreator.addRule({ ...mintInfo, mintable: legacyMintable.address, creatorId: otherId }, valInfo);
+
+            // the copies held are of another creator token, the worst case of the former scan
+            let benchmarks: { copies: number, legacy: number, indexed: number }[] = [];
+            for (let copies of [1, 10, 25]) {
+                while ((await legacyCopy.balanceOf(addr2.address)).toNumber() < copies) {
+                    await legacyCollector.collect(copyHash, DURATION);
+                }
+                benchmarks.push({
+                    copies,
+                    legacy: (await legacyCopy.estimateGas.legacyHasValidCopy(addr2.address, creatorId)).toNumber(),
+                    indexed: (await legacyCopy.estimateGas['hasValidCopy(address,uint256)'](addr2.address, creatorId)).toNumber()
+                });
+            }
+
+            expect(benchmarks[2].indexed).to.eq(benchmarks[0].indexed);
+            expect(benchmarks[1].legacy).to.gt(benchmarks[0].legacy);
+            expect(benchmarks[2].legacy).to.gt(benchmarks[1].legacy);
+            for (let benchmark of benchmarks) {
+                expect(benchmark.indexed).to.lte(benchmark.legacy);
+            }
+            expect(await legacyCopy['validCopiesOf(address,uint256)'](addr2.address, otherId)).to.have.length(25);
+        })
+
+        it('Gas of hasValidCopy should not grow with the copies held once the creator token is burned', async () => {
+            let creatorIds: bigint[] = [];
+            for (let copies of [1, 10, 25]) {
+                let { creatorId, copyHashes: [copyHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                    { mintInfo, validation: valInfo }
+                ]);
+                for (let i = 0; i < copies; i++) {
+                    await collectorClient.collect(copyHash, DURATION);
+                }
+                await contracts.creator.connect(addr1).burn(creatorId);
+                creatorIds.push(creatorId);
+            }
+
+            // the copies are frozen at the burn, the policy of the rules, see {ICopy-OrphanPolicy}
+            await increaseTime(DURATION + DAY);
+            let gas = [];
+            for (let creatorId of creatorIds) {
+                expect(await contracts.copy['hasValidCopy(address,uint256)'](addr2.address, creatorId)).to.eq(true);
+                gas.push((await contracts.copy.estimateGas['hasValidCopy(address,uint256)'](addr2.address, creatorId)).toNumber());
+            }
+            expect(gas[1]).to.eq(gas[0]);
+            expect(gas[2]).to.eq(gas[0]);
+        })
+    })
+})
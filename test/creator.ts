@@ -0,0 +1,114 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT } from '../utils/constants';
+import { hashContent } from '../utils/content';
+import { withSnapshot } from '../utils/helper';
+
+import {
+    getDeadline,
+    getPermSig,
+    getPermTypedData,
+    recoverPermSig,
+    PermSig
+} from '../utils';
+
+import { deploy } from '../scripts/deploy';
+import { IContracts } from '../scripts/deploy.type';
+
+withSnapshot('CREATOR Contract', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+
+    before(async function () {
+        [owner, addr1, addr2, ...addrs] = await ethers.getSigners();
+
+        contracts = await deploy();
+    });
+
+    describe('copyright signature tests', async () => {
+
+        it('Typed data signature should round-trip to the signer', async () => {
+            let deadline = getDeadline(1000000);
+            let typedData = await getPermTypedData(addr1, contracts.creator, CONTENT.contentUri, CONTENT.copyright, deadline);
+            let signature = ethers.utils.splitSignature(
+                await addr1._signTypedData(typedData.domain, typedData.types, typedData.value)
+            );
+            let permSig: PermSig = { deadline, v: signature.v, r: signature.r, s: signature.s };
+
+            expect(recoverPermSig(typedData, permSig)).to.eq(addr1.address);
+            expect(ethers.utils._TypedDataEncoder.hashDomain(typedData.domain)).to.eq(await contracts.creator.DOMAIN_SEPARATOR());
+
+            await contracts.creator.connect(addr1)['create(address,string,(uint256,uint8,bytes32,bytes32))'](addr1.address, CONTENT.contentUri, permSig);
+            expect(await contracts.creator.balanceOf(addr1.address)).to.eq(1);
+        })
+
+        it('Signature should not be replayable', async () => {
+            let permSig: PermSig = await getPermSig(addr1, contracts.creator, CONTENT.contentUri, CONTENT.copyright, 1000000);
+
+            expect(await contracts.creator.nonces(addr1.address)).to.eq(0);
+            await contracts.creator.connect(addr2)['create(address,string,(uint256,uint8,bytes32,bytes32))'](addr1.address, CONTENT.contentUri, permSig);
+            expect(await contracts.creator.nonces(addr1.address)).to.eq(1);
+
+            await expect(
+                contracts.creator.connect(addr2)['create(address,string,(uint256,uint8,bytes32,bytes32))'](addr1.address, CONTENT.contentUri, permSig)
+            ).to.be.revertedWith('Invalid copyright signature');
+        })
+
+        it('Signature should be bound to the content and the receiver', async () => {
+            let permSig: PermSig = await getPermSig(addr1, contracts.creator, CONTENT.contentUri, CONTENT.copyright, 1000000);
+
+            await expect(
+                contracts.creator.connect(addr1)['create(address,string,(uint256,uint8,bytes32,bytes32))'](addr1.address, 'anotherContentUri', permSig)
+            ).to.be.revertedWith('Invalid copyright signature');
+            await expect(
+                contracts.creator.connect(addr1)['create(address,string,(uint256,uint8,bytes32,bytes32))'](addr2.address, CONTENT.contentUri, permSig)
+            ).to.be.revertedWith('Invalid copyright signature');
+        })
+
+        it('Signature should be bound to the content hash', async () => {
+            let contentHash = hashContent('content');
+            let permSig: PermSig = await getPermSig(addr1, contracts.creator, CONTENT.contentUri, CONTENT.copyright, 1000000, undefined, contentHash);
+            const create = 'create(address,string,bytes32,(uint256,uint8,bytes32,bytes32))';
+
+            await expect(
+                contracts.creator.connect(addr2)[create](addr1.address, CONTENT.contentUri, hashContent('tampered'), permSig)
+            ).to.be.revertedWith('Invalid copyright signature');
+            await expect(
+                contracts.creator.connect(addr2)['create(address,string,(uint256,uint8,bytes32,bytes32))'](addr1.address, CONTENT.contentUri, permSig)
+            ).to.be.revertedWith('Invalid copyright signature');
+
+            await contracts.creator.connect(addr2)[create](addr1.address, CONTENT.contentUri, contentHash, permSig);
+            let pubId = await contracts.creator.tokenOfOwnerByIndex(addr1.address, 0);
+            expect((await contracts.creator.getVersion(pubId, 1)).contentHash).to.eq(contentHash);
+        })
+
+        it('Signature should expire after the deadline', async () => {
+            let permSig: PermSig = await getPermSig(addr1, contracts.creator, CONTENT.contentUri, CONTENT.copyright, -1000);
+
+            await expect(
+                contracts.creator.connect(addr1)['create(address,string,(uint256,uint8,bytes32,bytes32))'](addr1.address, CONTENT.contentUri, permSig)
+            ).to.be.revertedWith('Expired Signature');
+        })
+
+        it('Update should consume a new signature', async () => {
+            let permSig: PermSig = await getPermSig(addr1, contracts.creator, CONTENT.contentUri, CONTENT.copyright, 1000000);
+            await contracts.creator.connect(addr1)['create(address,string,(uint256,uint8,bytes32,bytes32))'](addr1.address, CONTENT.contentUri, permSig);
+            let pubId = await contracts.creator.tokenOfOwnerByIndex(addr1.address, 0);
+
+            // signatures for the following nonces can be prepared in advance
+            let updateSig: PermSig = await getPermSig(addr1, contracts.creator, 'updatedContentUri', CONTENT.copyright, 1000000, 1);
+            await contracts.creator.connect(addr1)['update(uint256,string,(uint256,uint8,bytes32,bytes32))'](pubId, 'updatedContentUri', updateSig);
+            expect(await contracts.creator.tokenURI(pubId)).to.eq('updatedContentUri');
+
+            await expect(
+                contracts.creator.connect(addr1)['update(uint256,string,(uint256,uint8,bytes32,bytes32))'](pubId, 'updatedContentUri', updateSig)
+            ).to.be.revertedWith('Invalid copyright signature');
+        })
+    })
+})
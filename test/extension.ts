@@ -0,0 +1,99 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { artifacts, ethers } from 'hardhat';
+import { CompilerOutputContract } from 'hardhat/types';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo } from './fixture';
+
+import { CopyValidationData } from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+
+import { IContracts } from '../scripts/deploy.type';
+
+interface StorageSlot {
+    label: string;
+    slot: string;
+    offset: number;
+    type: string;
+}
+
+/**
+ * @dev The storage layout of a contract from its compiler output. Types are named after their AST ids, which
+ * differ between compilations, so they are dropped
+ */
+const getStorageLayout = async (name: string): Promise<StorageSlot[]> => {
+    const { sourceName, contractName } = await artifacts.readArtifact(name);
+    const buildInfo = await artifacts.getBuildInfo(`${sourceName}:${contractName}`);
+    const output = buildInfo!.output.contracts[sourceName][contractName] as CompilerOutputContract & {
+        storageLayout: { storage: StorageSlot[] }
+    };
+    return output.storageLayout.storage.map(({ label, slot, offset, type }) => ({ label, slot, offset, type: type.replace(/\)\d+/g, ')') }));
+};
+
+withSnapshot('EXTENSION', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+
+    const DURATION = 60 * 60 * 24 * 30;
+
+    let copyHash: string;
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, ...addrs], contracts, creatorClient } = await deployFixture());
+
+        let valInfo: CopyValidationData = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: true,
+            mintAmount: 0,
+            extendAmount: 0,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: (await ethers.provider.getBlock('latest')).timestamp - 1000,
+            time: 99999999999999
+        };
+        ({ copyHashes: [copyHash] } = await creatorClient.publish(CONTENT.contentUri, [
+            { mintInfo: getRuleMintInfo(contracts, { revokable: true }), validation: valInfo }
+        ]));
+    });
+
+    describe('function tests', async () => {
+
+        it('Extensions should share the storage layout of Copy', async () => {
+            let layout = await getStorageLayout('Copy');
+            expect(layout).to.not.be.empty;
+            expect(await getStorageLayout('CopyExtension')).to.deep.eq(layout);
+            expect(await getStorageLayout('CopyRevocationExtension')).to.deep.eq(layout);
+            expect(await getStorageLayout('MockLegacyCopy')).to.deep.eq(layout);
+        })
+
+        it('Copy should return the results of the functions run by the extensions', async () => {
+            let copy = contracts.copy.connect(addr2);
+            let copyId = await copy.callStatic['create(address,bytes32,uint64)'](addr2.address, copyHash, DURATION);
+            await copy['create(address,bytes32,uint64)'](addr2.address, copyHash, DURATION);
+            expect(await contracts.copy.ownerOf(copyId)).to.eq(addr2.address);
+
+            let expiry = await copy.callStatic['extend(uint256,uint64)'](copyId, DURATION);
+            await copy['extend(uint256,uint64)'](copyId, DURATION);
+            expect((await contracts.copy.getCopyInfo(copyId)).expireAt).to.eq(expiry);
+
+            let uri = await copy.callStatic['update(uint256)'](copyId);
+            expect(uri).to.eq((await contracts.copy.getCopyInfo(copyId)).copyURI);
+        })
+
+        it('Copy should bubble up the reverts of the extensions', async () => {
+            await expect(contracts.copy.connect(addr1)['extend(uint256,uint64)'](999, DURATION))
+                .to.be.revertedWith('Copy: Mint info not set');
+            await expect(contracts.copy.connect(addr1)['extend(uint256,uint64,bytes)'](999, DURATION, '0x'))
+                .to.be.revertedWith('Copy: Mint info not set');
+            await expect(contracts.copy.connect(addr1).destroy(999)).to.be.revertedWith('ERC721: invalid token ID');
+        })
+    })
+})
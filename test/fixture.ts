@@ -0,0 +1,53 @@
+import { ethers } from 'hardhat';
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { CopyMintData, Statement } from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+import { deploy, getAddresses } from '../scripts/deploy';
+import { IContractAddresses, IContracts } from '../scripts/deploy.type';
+
+// the mint info of a rule, before the creator token is published
+export type RuleMintInfo = Omit<CopyMintData, 'creatorId'>;
+
+export interface Fixture {
+  signers: SignerWithAddress[];
+  contracts: IContracts;
+  addresses: IContractAddresses;
+  // the clients of the first two signers after the deployer
+  creatorClient: ERC721CopyClient;
+  collectorClient: ERC721CopyClient;
+}
+
+/**
+ * @notice Deploys the contracts for a test suite, to be called once in its before hook
+ */
+export async function deployFixture(): Promise<Fixture> {
+  const signers = await ethers.getSigners();
+  const contracts = await deploy();
+  const addresses = getAddresses(contracts);
+  return {
+    signers,
+    contracts,
+    addresses,
+    creatorClient: new ERC721CopyClient(signers[1], addresses),
+    collectorClient: new ERC721CopyClient(signers[2], addresses)
+  };
+}
+
+/**
+ * @notice The mint info of a rule of the Mintable contract, to publish with {ERC721CopyClient-publish}. Copies are
+ * used, transferable, updatable and extendable, but not revokable, unless overridden
+ */
+export function getRuleMintInfo(
+  contracts: IContracts,
+  overrides: Partial<RuleMintInfo> = {}
+): RuleMintInfo {
+  return {
+    mintable: contracts.mintable.address,
+    statement: Statement.USE,
+    transferable: true,
+    updatable: true,
+    revokable: false,
+    extendable: true,
+    ...overrides
+  };
+}
@@ -13,6 +13,7 @@ import {
     PermSig,
     getPermSig
 } from '../utils';
+import { decodeTokenURI } from '../utils/metadata';
 
 import {
     MockFT,
@@ -46,18 +47,19 @@ withSnapshot('HELPER Contract', () => {
         it('Creator should be able to set up a Mintable Rule with Help[er', async ()=> {
             
             // set Permission
-            let permSig: PermSig = await getPermSig(addr1, CONTENT.contentUri, CONTENT.copyright, 1000000);
+            let permSig: PermSig = await getPermSig(addr1, contracts.creator, CONTENT.contentUri, CONTENT.copyright, 1000000);
                 
             // mint rule
             let mintInfo = {
                 mintable: contracts.mintable.address,
+                creatorContract: ZERO_ADDRESS,
                 creatorId: 0, // dummy 
                 statement: Statement.DISTRIBUTE,
                 transferable: true,
                 updatable: true,
                 revokable: true,
                 extendable: true,
-                mintInfoAdditional: "",
+                mintInfoAdditional: "0x",
             };
         
             let valInfo = getCopyValidationData({
@@ -72,8 +74,11 @@ withSnapshot('HELPER Contract', () => {
                 time: 99999999999999
             });
             
+            // get creator Id
+            let creatorId = await contracts.creator.newTokenId(addr1.address, 0);
+
             // mint and set rules
-            await contracts.helper.connect(addr1).createWithMintables(
+            await contracts.helper.connect(addr1)['createWithMintables(address,string,(uint256,uint8,bytes32,bytes32),(address,uint8,bool,bool,bool,bool,address,uint256,bytes)[],bytes[])'](
                 addr1.address,
                 CONTENT.contentUri,
                 permSig,
@@ -94,10 +99,10 @@ withSnapshot('HELPER Contract', () => {
             await mockFT.connect(addr2).approve(contracts.mintable.address, 10000000000);
             
             // get the copyHash
-            let copyHash = (await contracts.copy.getCopyHashes(1))[0];
+            let copyHash = (await contracts.copy['getCopyHashes(uint256)'](creatorId))[0];
             
             // get a copy
-            await contracts.copy.connect(addr2).create(
+            await contracts.copy.connect(addr2)['create(address,bytes32,uint64)'](
                 addr2.address,
                 copyHash,
                 60 * 60 * 24 * 30
@@ -106,13 +111,13 @@ withSnapshot('HELPER Contract', () => {
             // get copy Id
             let copyBalance = (await contracts.copy.balanceOf(addr2.address)).toNumber();
             expect(copyBalance).to.gt(0);
-            let copyId = (await contracts.copy.tokenByIndex(copyBalance-1)).toNumber();
+            let copyId = await contracts.copy.tokenByIndex(copyBalance-1);
 
             // check balance after transaction
             expect((await mockFT.balanceOf(addr2.address)).toNumber()).to.eq(walletBalance.add(10000000000));
             
             // check copy NFT data
-            expect(await contracts.copy.tokenURI(copyId)).to.eq(CONTENT.contentUri);
+            expect(decodeTokenURI(await contracts.copy.tokenURI(copyId)).content_uri).to.eq(CONTENT.contentUri);
         })
  
     })
@@ -0,0 +1,170 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    getNow,
+    Statement,
+    RuleState,
+    CopyValidationData
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+import { CopyView } from '../utils/client.type';
+
+import { IContracts, IContractAddresses } from '../scripts/deploy.type';
+import { Indexer } from '../scripts/indexer';
+import { JsonStore } from '../scripts/indexer/store';
+
+const byCopyId = (a: CopyView, b: CopyView) => a.copyId < b.copyId ? -1 : 1;
+
+withSnapshot('INDEXER', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let addresses: IContractAddresses;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+    let storePath: string;
+
+    const DURATION = 60 * 60 * 24 * 30;
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, addresses, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = getRuleMintInfo(contracts, { statement: Statement.COLLECT, revokable: true });
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: 0,
+            extendAmount: 0,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: getNow() - 1000,
+            time: 99999999999999
+        };
+    });
+
+    beforeEach(async function () {
+        storePath = path.join(os.tmpdir(), `indexer-${Date.now()}.json`);
+    });
+
+    afterEach(async function () {
+        if (fs.existsSync(storePath)) fs.unlinkSync(storePath);
+    });
+
+    describe('function tests', async () => {
+
+        it('Indexer should answer the Helper queries from events', async () => {
+            let first = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: valInfo },
+                { mintInfo: { ...mintInfo, statement: Statement.USE }, validation: valInfo }
+            ]);
+            let second = await creatorClient.publish('secondContentUri', [{ mintInfo, validation: valInfo }]);
+
+            let copy1 = await collectorClient.collect(first.copyHashes[0], DURATION);
+            let copy2 = await collectorClient.collect(first.copyHashes[1], DURATION);
+            let copy3 = await collectorClient.collect(second.copyHashes[0], DURATION);
+            let copy4 = await collectorClient.collect(second.copyHashes[0], DURATION, addr3.address);
+
+            await collectorClient.extend(copy1, DURATION);
+            await contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, copy2);
+            await creatorClient.revoke(copy2, { reason: 1, reasonURI: 'reasonUri', gracePeriod: DURATION, refund: true });
+            await collectorClient.destroy(copy3);
+            await creatorClient.revoke(copy4);
+            await creatorClient.pauseRule(first.copyHashes[1]);
+            await creatorClient.pauseRule(first.copyHashes[0]);
+            await creatorClient.resumeRule(first.copyHashes[0]);
+            await creatorClient.closeRule(second.copyHashes[0]);
+
+            let indexer = new Indexer(ethers.provider, addresses, new JsonStore(storePath), { batchSize: 3 });
+            expect(await indexer.sync()).to.eq(await ethers.provider.getBlockNumber());
+
+            for (let creatorId of [first.creatorId, second.creatorId]) {
+                expect(indexer.getCreatorTokenById(creatorId)).to.deep.eq(await creatorClient.getCreator(creatorId));
+                expect(indexer.getMintInfoByCreator(creatorId)).to.deep.eq(await creatorClient.getMintInfoByCreator(creatorId));
+            }
+            for (let copyId of [copy1, copy2]) {
+                expect(indexer.getCopyTokenById(copyId)).to.deep.eq(await creatorClient.getCopy(copyId));
+            }
+            expect(indexer.getCopyTokenById(copy2)!.revocation!.refund).to.eq(true);
+            expect(indexer.getCopyTokenById(copy3)).to.be.undefined;
+            expect(indexer.getCopyTokenById(copy4)).to.be.undefined;
+
+            for (let collector of [addr2.address, addr3.address]) {
+                let indexed = indexer.getCopyTokensByAddress(collector, 0, 10);
+                let onChain = await creatorClient.getCopiesByAddress(collector, 0, 10);
+                expect(indexed.meta).to.deep.eq(onChain.meta);
+                expect(indexed.copies.sort(byCopyId)).to.deep.eq(onChain.copies.sort(byCopyId));
+            }
+            expect(indexer.getCreatorTokensByAddress(addr1.address, 0, 10)).to.deep.eq(
+                await creatorClient.getCreatorsByAddress(addr1.address, 0, 10)
+            );
+            expect(indexer.getCopyTokens(0, 10).meta).to.deep.eq((await creatorClient.getCopies(0, 10)).meta);
+            expect(indexer.getCopyTokensByCreator(first.creatorId, 1, 10).meta).to.deep.eq({ offset: 1, limit: 10, count: 2 });
+
+            expect(indexer.state.rules.get(first.copyHashes[0])!.state).to.eq(RuleState.EXIST);
+            expect(indexer.state.rules.get(first.copyHashes[1])!.state).to.eq(RuleState.PAUSED);
+            expect(indexer.state.rules.get(second.copyHashes[0])!.state).to.eq(RuleState.CLOSED);
+        })
+
+        it('Indexer should resume from the checkpoint of the store', async () => {
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let copy1 = await collectorClient.collect(copyHashes[0], DURATION);
+
+            let indexer = new Indexer(ethers.provider, addresses, new JsonStore(storePath));
+            let checkpoint = await indexer.sync();
+
+            let copy2 = await collectorClient.collect(copyHashes[0], DURATION, addr3.address);
+            await collectorClient.extend(copy1, DURATION);
+
+            // a new indexer instance picks up the persisted state
+            let resumed = new Indexer(ethers.provider, addresses, new JsonStore(storePath));
+            expect(resumed.state.checkpoint).to.eq(checkpoint);
+            expect(resumed.getCopyTokenById(copy2)).to.be.undefined;
+
+            await resumed.sync();
+            expect(resumed.getCopyTokenById(copy1)).to.deep.eq(await creatorClient.getCopy(copy1));
+            expect(resumed.getCopyTokenById(copy2)).to.deep.eq(await creatorClient.getCopy(copy2));
+            expect(resumed.getCreatorTokenById(creatorId)!.copies).to.eq(2);
+            expect(resumed.getMintableByHash(copyHashes[0])!.count).to.eq(2);
+        })
+
+        it('Indexer should support arbitrary filters', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: valInfo },
+                { mintInfo: { ...mintInfo, statement: Statement.MODIFY }, validation: { ...valInfo, limit: 1 } }
+            ]);
+            let copy1 = await collectorClient.collect(copyHashes[0], DURATION);
+            let copy2 = await collectorClient.collect(copyHashes[1], DURATION * 2);
+
+            let indexer = new Indexer(ethers.provider, addresses, new JsonStore());
+            await indexer.sync();
+
+            let longLived = indexer.findCopies((copy) => copy.expireAt > BigInt(getNow() + DURATION * 3 / 2));
+            expect(longLived.copies.map((copy) => copy.copyId)).to.deep.eq([copy2]);
+
+            let modifiable = indexer.findRules((rule) => rule.mintInfo!.statement == Statement.MODIFY);
+            expect(modifiable.map((rule) => rule.copyHash)).to.deep.eq([copyHashes[1]]);
+
+            let soldOut = indexer.findRules((rule) => BigInt(rule.count) >= rule.valInfo!.limit);
+            expect(soldOut.map((rule) => rule.copyHash)).to.deep.eq([copyHashes[1]]);
+            expect(indexer.findCopies(() => true).copies.map((copy) => copy.copyId)).to.deep.eq([copy1, copy2]);
+        })
+    })
+})
@@ -9,6 +9,7 @@ import {
     getCopyValidationData,
     getEncodedValidationData,
     Statement,
+    CopyValidationData,
     PermSig,
     getPermSig
 } from '../utils';
@@ -16,8 +17,10 @@ import {
 import {
     MockFT,
     MockFT__factory,
+    MockFalseFT__factory,
 } from "../typechain-types";
-import { deploy } from '../scripts/deploy';
+import { ERC721CopyClient } from '../utils/client';
+import { deploy, getAddresses } from '../scripts/deploy';
 import { IContracts } from '../scripts/deploy.type';
 import { withSnapshot } from '../utils/helper';
 
@@ -43,16 +46,18 @@ withSnapshot('MINTABLE Contract', () => {
         // mint rule
         mintInfo = {
             mintable: contracts.mintable.address,
+            creatorContract: ZERO_ADDRESS,
             creatorId: 0, // dummy 
             statement: Statement.DISTRIBUTE,
             transferable: true,
             updatable: true,
             revokable: true,
-            extendable: true
+            extendable: true,
+            mintInfoAdditional: "0x"
         };
 
         // set Permission
-        permSig = await getPermSig(addr1, CONTENT.contentUri, CONTENT.copyright, 1000000);
+        permSig = await getPermSig(addr1, contracts.creator, CONTENT.contentUri, CONTENT.copyright, 1000000);
 
         // deploy mock ERC20 contract
         mockFT = await new MockFT__factory(owner).deploy("MOCK_USDT", "MUSDT");
@@ -74,8 +79,11 @@ withSnapshot('MINTABLE Contract', () => {
                 time: 99999999999999
             });
             
+            // get creator Id
+            let creatorId = await contracts.creator.newTokenId(addr1.address, 0);
+
             // mint and set rules
-            await contracts.helper.connect(addr1).createWithMintables(
+            await contracts.helper.connect(addr1)['createWithMintables(address,string,(uint256,uint8,bytes32,bytes32),(address,uint8,bool,bool,bool,bool,address,uint256,bytes)[],bytes[])'](
                 addr1.address,
                 CONTENT.contentUri,
                 permSig,
@@ -90,10 +98,10 @@ withSnapshot('MINTABLE Contract', () => {
             await mockFT.connect(addr2).approve(contracts.mintable.address, 10000000000);
             
             // get the copyHash
-            let copyHash = (await contracts.copy.getCopyHashes(1))[0];
+            let copyHash = (await contracts.copy['getCopyHashes(uint256)'](creatorId))[0];
             
             // get a copy
-            await contracts.copy.connect(addr2).create(
+            await contracts.copy.connect(addr2)['create(address,bytes32,uint64)'](
                 addr2.address,
                 copyHash,
                 60 * 60 * 24 * 30
@@ -116,8 +124,11 @@ withSnapshot('MINTABLE Contract', () => {
                 time: 99999999999999
             });
 
+            // get creator Id
+            let creatorId = await contracts.creator.newTokenId(addr1.address, 0);
+
             // mint and set rules
-            await contracts.helper.connect(addr1).createWithMintables(
+            await contracts.helper.connect(addr1)['createWithMintables(address,string,(uint256,uint8,bytes32,bytes32),(address,uint8,bool,bool,bool,bool,address,uint256,bytes)[],bytes[])'](
                 addr1.address,
                 CONTENT.contentUri,
                 permSig,
@@ -126,23 +137,355 @@ withSnapshot('MINTABLE Contract', () => {
             )
             
             // get the copyHash
-            let copyHash = (await contracts.copy.getCopyHashes(1))[0];
+            let copyHash = (await contracts.copy['getCopyHashes(uint256)'](creatorId))[0];
 
             // get a copy
-            await contracts.copy.connect(addr2).create(
+            await contracts.copy.connect(addr2)['create(address,bytes32,uint64)'](
                 addr2.address,
                 copyHash,
                 60 * 60 * 24 * 30,
                 {value: value}
             );
 
+            // get copy Id
+            let copyId = await contracts.copy.tokenOfOwnerByIndex(addr2.address, 0);
+
             // extend by 1 day
             let extendValue = value.div(30);
-            await contracts.copy.connect(addr2).extend(
-                1,
+            await contracts.copy.connect(addr2)['extend(uint256,uint64)'](
+                copyId,
                 60 * 60 * 24,
                 {value: extendValue}
             );
         })
     })
-})
\ No newline at end of file
+
+    describe('escrow tests', async () => {
+
+        const DURATION = 60 * 60 * 24 * 30;
+        const PRICE = ethers.utils.parseEther('0.0001');
+
+        let creatorClient: ERC721CopyClient;
+        let collectorClient: ERC721CopyClient;
+        let valInfo: CopyValidationData;
+
+        before(async function () {
+            creatorClient = new ERC721CopyClient(addr1, getAddresses(contracts));
+            collectorClient = new ERC721CopyClient(addr2, getAddresses(contracts));
+
+            valInfo = {
+                feeToken: ZERO_ADDRESS,
+                duration: DURATION,
+                fragmented: false,
+                mintAmount: PRICE,
+                extendAmount: PRICE,
+                requiredERC721Token: ZERO_ADDRESS,
+                limit: 10,
+                start: getNow() - 1000,
+                time: 99999999999999
+            };
+        });
+
+        it('Native fees should be held in escrow and overpayments refunded to the collector', async () => {
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let fee = PRICE;
+
+            let creatorBalance = await addr1.getBalance();
+            await contracts.copy.connect(addr2)['create(address,bytes32,uint64)'](addr2.address, copyHashes[0], DURATION, { value: fee.mul(3) });
+            expect(await addr1.getBalance()).to.eq(creatorBalance);
+            expect(await ethers.provider.getBalance(contracts.mintable.address)).to.eq(fee.mul(3));
+            expect(await creatorClient.getBalance()).to.eq(fee.toBigInt());
+            expect(await collectorClient.getBalance()).to.eq(fee.mul(2).toBigInt());
+
+            // fees are credited to the holder of the creator token at the time of the mint
+            await contracts.creator.connect(addr1).transferFrom(addr1.address, addr3.address, creatorId);
+            await collectorClient.collect(copyHashes[0], DURATION);
+            expect(await creatorClient.getBalance(ZERO_ADDRESS, addr3.address)).to.eq(fee.toBigInt());
+
+            await expect(contracts.mintable.connect(addr1).withdraw(ZERO_ADDRESS)).to.emit(contracts.mintable, 'Withdraw').withArgs(addr1.address, ZERO_ADDRESS, fee);
+            expect(await collectorClient.withdraw()).to.eq(fee.mul(2).toBigInt());
+            expect(await creatorClient.getBalance()).to.eq(0n);
+            await expect(creatorClient.withdraw()).to.be.revertedWith('Mintable: Nothing to Withdraw');
+        })
+
+        it('Creator tokens held by contracts should not block minting', async () => {
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            await contracts.creator.connect(addr1).transferFrom(addr1.address, mockFT.address, creatorId);
+
+            await collectorClient.collect(copyHashes[0], DURATION);
+            expect(await creatorClient.getBalance(ZERO_ADDRESS, mockFT.address)).to.eq(PRICE.toBigInt());
+        })
+
+        it('ERC20 fees should be held in escrow and listed as claimable balances', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: { ...valInfo, feeToken: mockFT.address, mintAmount: 10000000000, extendAmount: 10000000000 } }
+            ]);
+            await mockFT.connect(addr2).mint(addr2.address, 10000000000);
+            let value = ethers.utils.parseEther('0.0001');
+
+            // native tokens sent along with an ERC20 fee are refunded
+            await mockFT.connect(addr2).approve(contracts.mintable.address, 10000000000);
+            await contracts.copy.connect(addr2)['create(address,bytes32,uint64)'](addr2.address, copyHashes[0], DURATION, { value });
+            expect(await mockFT.balanceOf(contracts.mintable.address)).to.eq(10000000000);
+            expect(await collectorClient.getClaimableBalances([ZERO_ADDRESS, mockFT.address])).to.deep.eq([
+                { token: ZERO_ADDRESS, amount: value.toBigInt() }
+            ]);
+
+            expect(await creatorClient.getClaimableBalances([ZERO_ADDRESS, mockFT.address])).to.deep.eq([
+                { token: mockFT.address, amount: 10000000000n }
+            ]);
+            let balance = await mockFT.balanceOf(addr1.address);
+            expect(await creatorClient.withdraw(mockFT.address)).to.eq(10000000000n);
+            expect(await mockFT.balanceOf(addr1.address)).to.eq(balance.add(10000000000));
+        })
+
+        it('ERC20 fee tokens returning false should not be accepted as paid', async () => {
+            let falseFT = await new MockFalseFT__factory(owner).deploy('MOCK_FALSE', 'MFALSE');
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: { ...valInfo, feeToken: falseFT.address, mintAmount: 10000000000, extendAmount: 10000000000 } }
+            ]);
+
+            await expect(contracts.copy.connect(addr2)['create(address,bytes32,uint64)'](addr2.address, copyHashes[0], DURATION))
+                .to.be.revertedWith('SafeERC20: ERC20 operation did not succeed');
+        })
+    })
+
+    describe('extension tests', async () => {
+
+        const DURATION = 60 * 60 * 24 * 30;
+        const DAY = 60 * 60 * 24;
+        const MINT_PRICE = ethers.utils.parseEther('0.001');
+        const EXTEND_PRICE = ethers.utils.parseEther('0.0001');
+
+        let creatorClient: ERC721CopyClient;
+        let collectorClient: ERC721CopyClient;
+        let valInfo: CopyValidationData;
+
+        const increaseTime = async (seconds: number) => {
+            await ethers.provider.send('evm_increaseTime', [seconds]);
+            await ethers.provider.send('evm_mine', []);
+        };
+
+        before(async function () {
+            creatorClient = new ERC721CopyClient(addr1, getAddresses(contracts));
+            collectorClient = new ERC721CopyClient(addr2, getAddresses(contracts));
+
+            valInfo = {
+                feeToken: ZERO_ADDRESS,
+                duration: DURATION,
+                fragmented: false,
+                mintAmount: MINT_PRICE,
+                extendAmount: EXTEND_PRICE,
+                requiredERC721Token: ZERO_ADDRESS,
+                limit: 10,
+                start: getNow() - 1000,
+                time: 99999999999999
+            };
+        });
+
+        it('Extensions should be priced with the extendAmount', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: valInfo },
+                { mintInfo: { ...mintInfo, statement: Statement.USE }, validation: { ...valInfo, extendAmount: 0 } }
+            ]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            let freeCopyId = await collectorClient.collect(copyHashes[1], DURATION);
+            expect(await creatorClient.getBalance()).to.eq(MINT_PRICE.mul(2).toBigInt());
+
+            // the extension price is charged, not the mint price
+            await contracts.copy.connect(addr2)['extend(uint256,uint64)'](copyId, DURATION, { value: EXTEND_PRICE });
+            expect(await creatorClient.getBalance()).to.eq(MINT_PRICE.mul(2).add(EXTEND_PRICE).toBigInt());
+            await expect(contracts.copy.connect(addr2)['extend(uint256,uint64)'](copyId, DURATION, { value: EXTEND_PRICE.sub(1) }))
+                .to.be.revertedWith('Mintable: Insufficient Native Tokens');
+
+            // free extensions of a paid rule
+            await contracts.copy.connect(addr2)['extend(uint256,uint64)'](freeCopyId, DURATION);
+            await collectorClient.extend(copyId, DURATION);
+            expect(await creatorClient.getBalance()).to.eq(MINT_PRICE.mul(2).add(EXTEND_PRICE.mul(2)).toBigInt());
+        })
+
+        it('Fragmented extensions should be priced with the extendAmount in ERC20 tokens', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: { ...valInfo, feeToken: mockFT.address, fragmented: true, mintAmount: 30000000000, extendAmount: 3000000000 } }
+            ]);
+            await mockFT.connect(addr2).mint(addr2.address, 40000000000);
+            let balance = await mockFT.balanceOf(addr2.address);
+
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            await collectorClient.extend(copyId, DURATION / 3);
+            expect(await mockFT.balanceOf(addr2.address)).to.eq(balance.sub(30000000000).sub(1000000000));
+        })
+
+        it('Copies should not be minted nor extended above the validity cap', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: { ...valInfo, mintAmount: 0, extendAmount: 0, maxValidity: DURATION } }
+            ]);
+            expect((await creatorClient.getValidationInfo(copyHashes[0])).maxValidity).to.eq(BigInt(DURATION));
+            await expect(collectorClient.collect(copyHashes[0], DURATION + 1)).to.be.revertedWith('Mintable: Validity Cap Exceeded');
+
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            await expect(collectorClient.extend(copyId, DAY)).to.be.revertedWith('Mintable: Validity Cap Exceeded');
+
+            await increaseTime(DAY);
+            await collectorClient.extend(copyId, DAY - 10);
+
+            // expired copies are extended from now
+            await increaseTime(DURATION * 2);
+            await collectorClient.extend(copyId, DURATION - 10);
+        })
+
+        it('Copies should only be extended within the extension window', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: { ...valInfo, mintAmount: 0, extendAmount: 0, extendWindow: DAY } }
+            ]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            await expect(collectorClient.extend(copyId, DURATION)).to.be.revertedWith('Mintable: Extension Window Not Open');
+
+            await increaseTime(DURATION - DAY);
+            await collectorClient.extend(copyId, DURATION);
+            await expect(collectorClient.extend(copyId, DURATION)).to.be.revertedWith('Mintable: Extension Window Not Open');
+        })
+
+        it('Extensions should check the required token if enabled', async () => {
+            await contracts.test.mockNFT.connect(addr2).mintToken(CONTENT.contentUri);
+            let tokenId = await contracts.test.mockNFT.tokenOfOwnerByIndex(addr2.address, 0);
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: { ...valInfo, mintAmount: 0, extendAmount: 0, requiredERC721Token: contracts.test.mockNFT.address } },
+                { mintInfo: { ...mintInfo, statement: Statement.USE }, validation: { ...valInfo, mintAmount: 0, extendAmount: 0, requiredERC721Token: contracts.test.mockNFT.address, extendRequiresToken: true } }
+            ]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            let boundCopyId = await collectorClient.collect(copyHashes[1], DURATION);
+
+            await contracts.test.mockNFT.connect(addr2).transferFrom(addr2.address, addr3.address, tokenId);
+            await collectorClient.extend(copyId, DURATION);
+            await expect(collectorClient.extend(boundCopyId, DURATION)).to.be.revertedWith('Mintable: Required ERC721 Token has Zero Balance');
+        })
+
+        it('Copies should not be extended after the minting period', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: { ...valInfo, mintAmount: 0, extendAmount: 0, time: 1000 + DAY } }
+            ]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+
+            await increaseTime(DAY * 2);
+            await expect(collectorClient.extend(copyId, DURATION)).to.be.revertedWith('Mintable: Minting Period Ended');
+        })
+    })
+
+    describe('versioning tests', async () => {
+
+        const DURATION = 60 * 60 * 24 * 30;
+        const PRICE = ethers.utils.parseEther('0.0001');
+
+        let creatorClient: ERC721CopyClient;
+        let collectorClient: ERC721CopyClient;
+        let valInfo: CopyValidationData;
+
+        before(async function () {
+            creatorClient = new ERC721CopyClient(addr1, getAddresses(contracts));
+            collectorClient = new ERC721CopyClient(addr2, getAddresses(contracts));
+
+            valInfo = {
+                feeToken: ZERO_ADDRESS,
+                duration: DURATION,
+                fragmented: false,
+                mintAmount: PRICE,
+                extendAmount: PRICE,
+                requiredERC721Token: ZERO_ADDRESS,
+                limit: 10,
+                start: getNow() - 1000,
+                time: 99999999999999
+            };
+        });
+
+        it('Rule updates should be recorded as versions without losing the mint count', async () => {
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            await collectorClient.collect(copyHashes[0], DURATION);
+
+            let copyHash = await creatorClient.addRule({ ...mintInfo, creatorId }, { ...valInfo, mintAmount: PRICE.mul(2), limit: 5 });
+            expect(copyHash).to.eq(copyHashes[0]);
+            expect(await creatorClient.getRuleVersion(copyHash)).to.eq(2);
+            expect(await contracts.mintable.getMintCount(copyHash)).to.eq(1);
+
+            let history = await creatorClient.getRuleHistory(copyHash);
+            expect(history.map((version) => version.version)).to.deep.eq([1, 2]);
+            expect(history[0].previous.limit).to.eq(0n);
+            expect(history[0].validation.mintAmount).to.eq(PRICE.toBigInt());
+            expect(history[1].previous).to.deep.eq(history[0].validation);
+            expect(history[1].validation.mintAmount).to.eq(PRICE.mul(2).toBigInt());
+            expect(history[1].validation.limit).to.eq(5n);
+            expect(await creatorClient.getValidationInfo(copyHash)).to.deep.eq(history[1].validation);
+        })
+
+        it('Guarded rules should not be updated against the collectors once minting has started', async () => {
+            let guarded = { ...valInfo, guarded: true };
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: guarded }]);
+            let rule = { ...mintInfo, creatorId };
+
+            // prices can be raised before the first mint
+            await creatorClient.addRule(rule, { ...guarded, mintAmount: PRICE.mul(2) });
+            await collectorClient.collect(copyHashes[0], DURATION);
+            await collectorClient.collect(copyHashes[0], DURATION);
+
+            await expect(creatorClient.addRule(rule, { ...guarded, mintAmount: PRICE.mul(2), limit: 1 }))
+                .to.be.revertedWith('Mintable: Limit Below Mint Count');
+            await expect(creatorClient.addRule(rule, { ...guarded, mintAmount: PRICE.mul(3) }))
+                .to.be.revertedWith('Mintable: Price Raised After Minting');
+            await expect(creatorClient.addRule(rule, { ...guarded, mintAmount: PRICE, extendAmount: PRICE.mul(2) }))
+                .to.be.revertedWith('Mintable: Price Raised After Minting');
+            await expect(creatorClient.addRule(rule, { ...guarded, feeToken: mockFT.address }))
+                .to.be.revertedWith('Mintable: Price Raised After Minting');
+            await expect(creatorClient.addRule(rule, { ...valInfo, mintAmount: PRICE.mul(3) }))
+                .to.be.revertedWith('Mintable: Guarded Rule');
+
+            // lowering the prices and keeping the limit above the mint count is allowed
+            await creatorClient.addRule(rule, { ...guarded, mintAmount: PRICE.div(2), limit: 2 });
+            expect(await creatorClient.getRuleVersion(copyHashes[0])).to.eq(3);
+        })
+
+        it('Guarded rules should not raise the price per duration nor move the periods once minting has started', async () => {
+            let guarded = { ...valInfo, fragmented: true, maxValidity: DURATION * 2, extendWindow: DURATION, guarded: true };
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: guarded }]);
+            let rule = { ...mintInfo, creatorId };
+            await collectorClient.collect(copyHashes[0], DURATION);
+
+            // the fee of fragmented rules is prorated over their duration
+            await expect(creatorClient.addRule(rule, { ...guarded, duration: DURATION / 2 }))
+                .to.be.revertedWith('Mintable: Price Raised After Minting');
+            await expect(creatorClient.addRule(rule, { ...guarded, duration: DURATION * 2, extendAmount: PRICE.mul(3) }))
+                .to.be.revertedWith('Mintable: Price Raised After Minting');
+
+            let changes = [
+                { fragmented: false },
+                { start: getNow() + DURATION },
+                { time: DURATION },
+                { maxValidity: DURATION },
+                { extendWindow: DURATION / 2 },
+                { requiredERC721Token: contracts.test.mockNFT.address },
+                { extendRequiresToken: true }
+            ];
+            for (let change of changes) {
+                await expect(creatorClient.addRule(rule, { ...guarded, ...change }))
+                    .to.be.revertedWith('Mintable: Terms Changed After Minting');
+            }
+
+            // the same price over a longer duration is allowed
+            await creatorClient.addRule(rule, {
+                ...guarded,
+                duration: DURATION * 2,
+                mintAmount: PRICE.mul(2),
+                extendAmount: PRICE.mul(2)
+            });
+            expect(await creatorClient.getRuleVersion(copyHashes[0])).to.eq(2);
+        })
+
+        it('Unguarded rules should be freely updated', async () => {
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            await collectorClient.collect(copyHashes[0], DURATION);
+
+            await creatorClient.addRule({ ...mintInfo, creatorId }, { ...valInfo, mintAmount: PRICE.mul(3), limit: 0, guarded: true });
+            expect((await creatorClient.getValidationInfo(copyHashes[0])).guarded).to.eq(true);
+            await expect(collectorClient.collect(copyHashes[0], DURATION)).to.be.revertedWith('Mintable: Minting Limit Reached');
+        })
+    })
+})
@@ -0,0 +1,215 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    TransferMode,
+    OrphanPolicy,
+    CopyValidationData,
+    getEncodedTransferData
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+
+import { getAddresses } from '../scripts/deploy';
+import { IContracts } from '../scripts/deploy.type';
+
+withSnapshot('ORPHAN POLICY', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DAY = 60 * 60 * 24;
+    const DURATION = DAY * 30;
+    const PRICE = ethers.utils.parseEther('0.0003');
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+    let freezeId: bigint, expireId: bigint, fallbackId: bigint;
+    let freezeHash: string, expireHash: string, fallbackHash: string;
+
+    const getTimestamp = async () => (await ethers.provider.getBlock('latest')).timestamp;
+
+    const increaseTime = async (seconds: number) => {
+        await ethers.provider.send('evm_increaseTime', [seconds]);
+        await ethers.provider.send('evm_mine', []);
+    };
+
+    const withPolicy = (policy: OrphanPolicy, fallbackRevoker: string = ZERO_ADDRESS) => ({
+        ...mintInfo,
+        mintInfoAdditional: getEncodedTransferData(0, TransferMode.FREE, 0, true, false, policy, fallbackRevoker)
+    });
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = getRuleMintInfo(contracts);
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: PRICE,
+            extendAmount: PRICE,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: await getTimestamp() - 1000,
+            time: 99999999999999
+        };
+
+        // the permit signatures of publish expire, so the creator tokens are published before any time travel
+        ({ creatorId: freezeId, copyHashes: [freezeHash] } = await creatorClient.publish(CONTENT.contentUri, [
+            { mintInfo, validation: valInfo }
+        ]));
+        ({ creatorId: expireId, copyHashes: [expireHash] } = await creatorClient.publish(CONTENT.contentUri, [
+            { mintInfo: withPolicy(OrphanPolicy.EXPIRE), validation: valInfo }
+        ]));
+        ({ creatorId: fallbackId, copyHashes: [fallbackHash] } = await creatorClient.publish(CONTENT.contentUri, [
+            { mintInfo: withPolicy(OrphanPolicy.FALLBACK_REVOKER, addr3.address), validation: valInfo }
+        ]));
+    });
+
+    describe('function tests', async () => {
+
+        it('Rules should declare a fallback revoker with the FALLBACK_REVOKER policy only', async () => {
+            await expect(creatorClient.addRule({ ...withPolicy(OrphanPolicy.FALLBACK_REVOKER), creatorId: freezeId }, valInfo))
+                .to.be.revertedWith('Copy: Invalid Orphan Policy');
+            await expect(creatorClient.addRule({ ...withPolicy(OrphanPolicy.EXPIRE, addr3.address), creatorId: freezeId }, valInfo))
+                .to.be.revertedWith('Copy: Invalid Orphan Policy');
+
+            expect(await creatorClient.getOrphanRule(freezeHash)).to.deep.eq({ policy: OrphanPolicy.FREEZE, fallbackRevoker: ZERO_ADDRESS });
+            expect(await creatorClient.getOrphanRule(fallbackHash))
+                .to.deep.eq({ policy: OrphanPolicy.FALLBACK_REVOKER, fallbackRevoker: addr3.address });
+        })
+
+        it('Copies of FREEZE rules should be permanent once the creator token is burned', async () => {
+            let copyId = await collectorClient.collect(freezeHash, DURATION);
+            await contracts.creator.connect(addr1).burn(freezeId);
+            expect(await collectorClient.isOrphaned(copyId)).to.eq(true);
+
+            await increaseTime(DURATION + DAY);
+            expect(await contracts.copy.isExpired(copyId)).to.eq(false);
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr2.address, freezeId)).to.eq(true);
+            expect(await contracts.copy.isRevokable(copyId)).to.eq(false);
+            expect(await contracts.copy.isTransferable(copyId)).to.eq(true);
+
+            await expect(collectorClient.collect(freezeHash, DURATION)).to.be.revertedWith('Copy: Creator Token Burned');
+            await expect(collectorClient.extend(copyId, DURATION)).to.be.revertedWith('Copy: Non-extendable');
+            await expect(collectorClient.update(copyId)).to.be.revertedWith('Copy: Non-updatable');
+            await expect(creatorClient.revoke(copyId)).to.be.revertedWith('Copy: Non-revokable');
+            await expect(creatorClient.pauseRule(freezeHash)).to.be.revertedWith('Copy: caller is not creator nor approved');
+        })
+
+        it('Copies of FREEZE rules that had expired at the burn should stay expired', async () => {
+            let expiredId = await collectorClient.collect(freezeHash, DAY);
+            let liveId = await collectorClient.collect(freezeHash, DURATION);
+            await increaseTime(DAY * 2);
+            expect(await contracts.copy.isExpired(expiredId)).to.eq(true);
+
+            await contracts.creator.connect(addr1).burn(freezeId);
+            expect(await contracts.creator.burnedAt(freezeId)).to.eq(await getTimestamp());
+            await increaseTime(DURATION);
+            expect(await contracts.copy.isExpired(expiredId)).to.eq(true);
+            expect(await contracts.copy.isExpired(liveId)).to.eq(false);
+            expect(await collectorClient.getValidCopies(addr2.address, freezeId)).to.deep.eq([liveId]);
+            await expect(contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, expiredId))
+                .to.be.revertedWith('Copy: Non-transferable');
+        })
+
+        it('Copies of EXPIRE rules should expire once the creator token is burned', async () => {
+            let copyId = await collectorClient.collect(expireHash, DURATION);
+            await collectorClient.rent(copyId, addr3.address);
+            expect(await contracts.copy['hasValidUse(address,uint256)'](addr3.address, expireId)).to.eq(true);
+
+            await contracts.creator.connect(addr1).burn(expireId);
+            expect(await contracts.copy.isExpired(copyId)).to.eq(true);
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr2.address, expireId)).to.eq(false);
+            expect(await contracts.copy['hasValidUse(address,uint256)'](addr3.address, expireId)).to.eq(false);
+            expect(await collectorClient.getValidCopies(addr2.address, expireId)).to.deep.eq([]);
+            await expect(contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, copyId))
+                .to.be.revertedWith('Copy: Non-transferable');
+            await collectorClient.destroy(copyId);
+        })
+
+        it('Fallback revokers should revoke the copies of FALLBACK_REVOKER rules once the creator token is burned', async () => {
+            let copyId = await collectorClient.collect(fallbackHash, DURATION);
+            let otherId = await collectorClient.collect(fallbackHash, DURATION);
+            await expect(new ERC721CopyClient(addr3, getAddresses(contracts)).revoke(copyId))
+                .to.be.revertedWith('Copy: Non-revokable');
+
+            await contracts.creator.connect(addr1).burn(fallbackId);
+            expect(await contracts.copy.isRevokable(copyId)).to.eq(true);
+            await expect(creatorClient.revoke(copyId)).to.be.revertedWith('Copy: caller is not creator nor approved');
+
+            // nothing is held in escrow for a burned creator token, so the fallback revoker pays the refund
+            let balance = await collectorClient.getBalance();
+            let expireAt = (await contracts.copy.expireAt(copyId)).toBigInt();
+            await new ERC721CopyClient(addr3, getAddresses(contracts)).revoke(copyId, { reason: 1, refund: true });
+            expect(await collectorClient.getBalance() - balance)
+                .to.eq((expireAt - BigInt(await getTimestamp())) * PRICE.toBigInt() / BigInt(DURATION));
+
+            // the other copies expire as usual
+            expect(await contracts.copy.isExpired(otherId)).to.eq(false);
+            await increaseTime(DURATION + DAY);
+            expect(await contracts.copy.isExpired(otherId)).to.eq(true);
+        })
+
+        it('hasValidCopy should follow the orphan policy of each copy held once the creator token is burned', async () => {
+            let otherExpireHash = await creatorClient.addRule({ ...withPolicy(OrphanPolicy.EXPIRE), creatorId: freezeId }, valInfo);
+            let otherFallbackHash = await creatorClient.addRule({
+                ...withPolicy(OrphanPolicy.FALLBACK_REVOKER, addr3.address),
+                creatorId: freezeId
+            }, valInfo);
+            await collectorClient.collect(freezeHash, DAY);
+            let fallbackCopyId = await collectorClient.collect(otherFallbackHash, DURATION);
+            await collectorClient.collect(otherExpireHash, DURATION * 2);
+            await increaseTime(DAY * 2);
+
+            // the copy of the FREEZE rule had expired at the burn, the copy of the EXPIRE rule expires with it
+            await contracts.creator.connect(addr1).burn(freezeId);
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr2.address, freezeId)).to.eq(true);
+            expect(await collectorClient.getValidCopies(addr2.address, freezeId)).to.deep.eq([fallbackCopyId]);
+
+            await increaseTime(DURATION);
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr2.address, freezeId)).to.eq(false);
+            expect(await collectorClient.getValidCopies(addr2.address, freezeId)).to.deep.eq([]);
+        })
+
+        it('Rules of creator contracts that do not record the time of the burn should not freeze their copies', async () => {
+            let nftId = (await contracts.test.mockNFT.connect(addr1).callStatic.mintToken(CONTENT.contentUri)).toBigInt();
+            await contracts.test.mockNFT.connect(addr1).mintToken(CONTENT.contentUri);
+            let external = { creatorContract: contracts.test.mockNFT.address, creatorId: nftId };
+            await expect(creatorClient.addRule({ ...mintInfo, ...external }, valInfo))
+                .to.be.revertedWith('Copy: Orphan Policy Not Supported');
+            await expect(creatorClient.addRule({ ...withPolicy(OrphanPolicy.FREEZE), ...external }, valInfo))
+                .to.be.revertedWith('Copy: Orphan Policy Not Supported');
+
+            let copyHash = await creatorClient.addRule({ ...withPolicy(OrphanPolicy.EXPIRE), ...external }, valInfo);
+            expect(await creatorClient.getOrphanRule(copyHash)).to.deep.eq({ policy: OrphanPolicy.EXPIRE, fallbackRevoker: ZERO_ADDRESS });
+        })
+
+        it('Views should handle burned creator tokens', async () => {
+            let copyId = await collectorClient.collect(freezeHash, DURATION);
+            await contracts.creator.connect(addr1).burn(freezeId);
+
+            let creator = await collectorClient.getCreator(freezeId);
+            expect(creator.holder).to.eq(ZERO_ADDRESS);
+            expect(creator.tokenURI).to.eq('');
+            expect(creator.rules).to.eq(1);
+
+            let { copies } = await collectorClient.getCopiesByCreator(freezeId, 0, 10);
+            expect(copies.map((copy) => copy.copyId)).to.deep.eq([copyId]);
+            expect(await collectorClient.getCopy(copies[0].copyId)).to.deep.eq(copies[0]);
+            expect(await collectorClient.getRoyaltyInfo(copies[0].copyId, 10000)).to.deep.eq({ receiver: ZERO_ADDRESS, amount: 0n });
+        })
+    })
+})
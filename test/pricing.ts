@@ -0,0 +1,173 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, RuleMintInfo } from './fixture';
+
+import {
+    Statement,
+    CopyValidationData,
+    getCopyValidationData
+} from '../utils';
+import {
+    getAuctionPrice,
+    getCurvePrice,
+    getEncodedAuctionData,
+    getEncodedCurveData
+} from '../utils/pricing';
+import { ERC721CopyClient } from '../utils/client';
+
+import { IContracts } from '../scripts/deploy.type';
+
+withSnapshot('PRICING MINTABLE Contracts', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DAY = 60 * 60 * 24;
+    const DURATION = DAY * 30;
+    const PRICE = ethers.utils.parseEther('0.0001');
+
+    let mintInfo: Omit<RuleMintInfo, 'mintable'>;
+    let valInfo: CopyValidationData;
+
+    const getTimestamp = async () => (await ethers.provider.getBlock('latest')).timestamp;
+
+    const increaseTime = async (seconds: number) => {
+        await ethers.provider.send('evm_increaseTime', [seconds]);
+        await ethers.provider.send('evm_mine', []);
+    };
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = {
+            statement: Statement.COLLECT,
+            transferable: true,
+            updatable: false,
+            revokable: false,
+            extendable: true
+        };
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: PRICE.mul(10),
+            extendAmount: PRICE,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: 0,
+            time: DAY * 10
+        };
+    });
+
+    describe('dutch auction tests', async () => {
+
+        const publishAuction = async (validation: CopyValidationData, floorPrice = PRICE) => {
+            return await creatorClient.publish(CONTENT.contentUri, [{
+                mintInfo: { ...mintInfo, mintable: contracts.dutchAuctionMintable.address },
+                validation,
+                ruleData: getEncodedAuctionData(getCopyValidationData(validation), floorPrice)
+            }]);
+        };
+
+        it('Auction price should decay from the start price to the floor over the minting period', async () => {
+            let validation = { ...valInfo, start: await getTimestamp() };
+            let { copyHashes: [copyHash] } = await publishAuction(validation);
+            let rule = await creatorClient.getValidationInfo(copyHash);
+            expect(await contracts.dutchAuctionMintable.getFloorPrice(copyHash)).to.eq(PRICE);
+
+            await increaseTime(DAY * 4);
+            let quote = await collectorClient.quote(copyHash, DURATION);
+            expect(quote < PRICE.mul(10).toBigInt() && quote > PRICE.toBigInt()).to.eq(true);
+
+            // the fee is the price at the block of the mint, the quote of an earlier block covers it
+            await collectorClient.collect(copyHash, DURATION);
+            let price = getAuctionPrice(rule, PRICE, await getTimestamp());
+            expect(await contracts.dutchAuctionMintable.getBalance(addr1.address, ZERO_ADDRESS)).to.eq(price);
+            expect(await contracts.dutchAuctionMintable.getBalance(addr2.address, ZERO_ADDRESS)).to.eq(quote - price);
+
+            // the price reaches the floor at the end of the minting period
+            await increaseTime(DAY * 7);
+            expect(await contracts.dutchAuctionMintable.getPrice(copyHash)).to.eq(PRICE);
+            await expect(collectorClient.collect(copyHash, DURATION)).to.be.revertedWith('Mintable: Minting Period Ended');
+        })
+
+        it('Auction should prorate fragmented rules and reject a floor above the start price', async () => {
+            let validation = { ...valInfo, fragmented: true, start: await getTimestamp() - DAY * 5 };
+            let { copyHashes: [copyHash] } = await publishAuction(validation);
+            let price = await contracts.dutchAuctionMintable.getPrice(copyHash);
+            expect(await contracts.dutchAuctionMintable.quote(copyHash, DURATION / 2)).to.eq(price.div(2));
+
+            await expect(publishAuction(validation, PRICE.mul(11))).to.be.revertedWith('DutchAuctionMintable: Floor Above Start Price');
+        })
+    })
+
+    describe('bonding curve tests', async () => {
+
+        const INCREMENT = PRICE.div(2);
+
+        const publishCurve = async (validation: CopyValidationData, increment = INCREMENT) => {
+            return await creatorClient.publish(CONTENT.contentUri, [{
+                mintInfo: { ...mintInfo, mintable: contracts.bondingCurveMintable.address },
+                validation,
+                ruleData: getEncodedCurveData(getCopyValidationData(validation), increment)
+            }]);
+        };
+
+        it('Curve price should rise with the mint count', async () => {
+            let validation = { ...valInfo, mintAmount: PRICE, start: await getTimestamp() - 1000 };
+            let { copyHashes: [copyHash] } = await publishCurve(validation);
+            let rule = await creatorClient.getValidationInfo(copyHash);
+
+            let total = 0n;
+            for (let i = 0; i < 3; i++) {
+                let quote = await collectorClient.quote(copyHash, DURATION);
+                expect(quote).to.eq(getCurvePrice(rule, INCREMENT, i));
+                await collectorClient.collect(copyHash, DURATION);
+                total += quote;
+            }
+            expect(await contracts.bondingCurveMintable.getBalance(addr1.address, ZERO_ADDRESS)).to.eq(total);
+            expect(await contracts.bondingCurveMintable.getPrice(copyHash)).to.eq(PRICE.add(INCREMENT.mul(3)));
+
+            // a stale quote does not cover the next copy
+            await expect(contracts.copy.connect(addr3)['create(address,bytes32,uint64)'](
+                addr3.address, copyHash, DURATION, { value: PRICE }
+            )).to.be.revertedWith('Mintable: Insufficient Native Tokens');
+        })
+
+        it('Client should approve the quoted ERC20 fee', async () => {
+            let validation = {
+                ...valInfo,
+                feeToken: contracts.test.mockFT.address,
+                mintAmount: PRICE,
+                start: await getTimestamp() - 1000,
+                guarded: true
+            };
+            let { copyHashes: [copyHash] } = await publishCurve(validation);
+            await contracts.test.mockFT.connect(addr2).mint(addr2.address, PRICE.mul(10));
+
+            await collectorClient.collect(copyHash, DURATION);
+            await collectorClient.collect(copyHash, DURATION);
+            expect(await contracts.bondingCurveMintable.getBalance(addr1.address, contracts.test.mockFT.address))
+                .to.eq(PRICE.mul(2).add(INCREMENT));
+
+            // the curve of a guarded rule cannot be steepened once minting has started
+            let { creatorId } = await contracts.copy.getMintInfo(copyHash);
+            let rule = { ...mintInfo, mintable: contracts.bondingCurveMintable.address, creatorId };
+            await expect(creatorClient.addRule(rule, validation, getEncodedCurveData(getCopyValidationData(validation), INCREMENT.mul(2))))
+                .to.be.revertedWith('Mintable: Price Raised After Minting');
+            await creatorClient.addRule(rule, validation, getEncodedCurveData(getCopyValidationData(validation), INCREMENT.div(2)));
+            expect(await contracts.bondingCurveMintable.getIncrement(copyHash)).to.eq(INCREMENT.div(2));
+        })
+    })
+})
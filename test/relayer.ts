@@ -0,0 +1,179 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    getNow,
+    CopyValidationData
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+import { SignedForwardRequest, signForwardRequest } from '../utils/forwarder';
+
+import { IContracts, IContractAddresses } from '../scripts/deploy.type';
+import { createRelayer } from '../scripts/relayer';
+
+const request = (server: http.Server, method: string, path: string, body?: unknown): Promise<{ status: number, body: any }> => {
+    const { port } = server.address() as AddressInfo;
+    return new Promise((resolve, reject) => {
+        let req = http.request({ host: '127.0.0.1', port, path, method }, (res) => {
+            let data = '';
+            res.on('data', (chunk) => data += chunk);
+            res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+        }).on('error', reject);
+        req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+};
+
+withSnapshot('RELAYER', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let addresses: IContractAddresses;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DURATION = 60 * 60 * 24 * 30;
+    const PRICE = 3000;
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    const listen = (): Promise<http.Server> => {
+        const server = createRelayer(contracts.forwarder.connect(owner), [addresses.copy, addresses.creator, addresses.helper]);
+        return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+    };
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, addresses, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = getRuleMintInfo(contracts);
+
+        valInfo = {
+            feeToken: contracts.test.mockFT.address,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: PRICE,
+            extendAmount: PRICE,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: getNow() - 1000,
+            time: 99999999999999
+        };
+    });
+
+    describe('function tests', async () => {
+
+        it('Copy and Creator should read the signer of forwarded requests as the sender', async () => {
+            let { creatorId, copyHashes: [copyHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: { ...valInfo, feeToken: ZERO_ADDRESS, mintAmount: 0 } }
+            ]);
+            let copyId = await collectorClient.collect(copyHash, DURATION);
+            expect(await contracts.copy.isTrustedForwarder(contracts.forwarder.address)).to.eq(true);
+
+            let destroy = await signForwardRequest(addr2, contracts.forwarder, {
+                to: contracts.copy.address,
+                data: contracts.copy.interface.encodeFunctionData('destroy', [copyId])
+            });
+            await contracts.forwarder.connect(owner).execute(destroy.request, destroy.signature);
+            expect(await contracts.copy.balanceOf(addr2.address)).to.eq(0);
+
+            let transfer = await signForwardRequest(addr1, contracts.forwarder, {
+                to: contracts.creator.address,
+                data: contracts.creator.interface.encodeFunctionData('transferFrom', [addr1.address, addr3.address, creatorId])
+            });
+            await contracts.forwarder.connect(owner).execute(transfer.request, transfer.signature);
+            expect(await contracts.creator.ownerOf(creatorId)).to.eq(addr3.address);
+
+            // requests are signed for a nonce, and cannot be replayed
+            expect(await contracts.forwarder.verify(transfer.request, transfer.signature)).to.eq(false);
+        })
+
+        it('Collectors without native tokens should collect with fee permits through the relayer', async () => {
+            let { copyHashes: [copyHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: valInfo }
+            ]);
+            await contracts.test.mockFT.mint(addr2.address, PRICE * 2);
+            let server = await listen();
+
+            try {
+                let signedRequest = await collectorClient.signRelayedCollect([
+                    { copyHash, duration: DURATION },
+                    { copyHash, duration: DURATION }
+                ]);
+                let ethBalance = await addr2.getBalance();
+                let res = await request(server, 'POST', '/relay', signedRequest);
+                expect(res.status).to.eq(200);
+
+                let receipt = await ethers.provider.getTransactionReceipt(res.body.transactionHash);
+                expect(receipt.from).to.eq(owner.address);
+                expect(await contracts.copy.balanceOf(addr2.address)).to.eq(2);
+                expect(await addr2.getBalance()).to.eq(ethBalance);
+                expect(await contracts.test.mockFT.balanceOf(addr2.address)).to.eq(0);
+                expect(await creatorClient.getBalance(contracts.test.mockFT.address)).to.eq(BigInt(PRICE * 2));
+                expect((await request(server, 'GET', `/nonces/${addr2.address}`)).body).to.deep.eq({ nonce: '1' });
+
+                // replayed, to other contracts, or reverting requests are not submitted
+                expect((await request(server, 'POST', '/relay', signedRequest)).body).to.deep.eq({ error: 'Invalid Signature' });
+                let other = await signForwardRequest(addr2, contracts.forwarder, {
+                    to: contracts.test.mockFT.address,
+                    data: contracts.test.mockFT.interface.encodeFunctionData('approve', [addr3.address, 1])
+                });
+                expect((await request(server, 'POST', '/relay', other)).body).to.deep.eq({ error: 'Target Not Allowed' });
+                let forOther = await signForwardRequest(addr3, contracts.forwarder, {
+                    to: contracts.helper.address,
+                    data: contracts.helper.interface.encodeFunctionData('batchCollectWithPermits', [addr2.address, [], [], [], []]),
+                    gas: 100000
+                });
+                expect((await request(server, 'POST', '/relay', forOther)).body).to.deep.eq({ error: 'Helper: Caller Is Not Collector' });
+                let invalid: SignedForwardRequest = { ...signedRequest, request: { ...signedRequest.request, nonce: 'a' } };
+                expect((await request(server, 'POST', '/relay', invalid)).status).to.eq(400);
+                expect((await request(server, 'GET', '/relay')).status).to.eq(405);
+            } finally {
+                server.close();
+            }
+        })
+
+        it('Front-run fee permits should not be spent on the rules of others', async () => {
+            let { copyHashes: [copyHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: valInfo }
+            ]);
+            let { copyHashes: [attackerRule] } = await new ERC721CopyClient(addr3, addresses).publish(CONTENT.contentUri, [
+                { mintInfo, validation: valInfo }
+            ]);
+            await contracts.test.mockFT.mint(addr2.address, PRICE);
+            let server = await listen();
+
+            try {
+                let signedRequest = await collectorClient.signRelayedCollect([{ copyHash, duration: DURATION }]);
+                let [, , , , [permit]] = contracts.helper.interface.decodeFunctionData('batchCollectWithPermits', signedRequest.request.data);
+
+                // the permit is public once the request is posted
+                await contracts.test.mockFT.connect(addr3).permit(
+                    addr2.address, permit.spender, permit.value, permit.deadline, permit.v, permit.r, permit.s
+                );
+                await expect(contracts.copy.connect(addr3)['create(address,bytes32,uint64)'](addr2.address, attackerRule, DURATION))
+                    .to.be.revertedWith('Copy: Caller Is Not Payer');
+                await expect(contracts.helper.connect(addr3)['batchCollect(address,bytes32[],uint64[],uint256[])'](addr2.address, [attackerRule], [DURATION], [0]))
+                    .to.be.revertedWith('Helper: Caller Is Not Collector');
+
+                // the relayed request skips the used permit and collects with the allowance it granted
+                expect((await request(server, 'POST', '/relay', signedRequest)).status).to.eq(200);
+                expect(await contracts.copy.balanceOf(addr2.address)).to.eq(1);
+                expect(await creatorClient.getBalance(contracts.test.mockFT.address)).to.eq(BigInt(PRICE));
+                expect(await contracts.test.mockFT.balanceOf(addr2.address)).to.eq(0);
+            } finally {
+                server.close();
+            }
+        })
+    })
+})
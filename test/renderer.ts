@@ -0,0 +1,117 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    getNow,
+    Statement,
+    CopyValidationData
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+import { decodeTokenURI, getCopyAttributes } from '../utils/metadata';
+
+import { IContracts } from '../scripts/deploy.type';
+
+withSnapshot('RENDERER Contract', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DURATION = 60 * 60 * 24 * 30;
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = getRuleMintInfo(contracts, { statement: Statement.COLLECT, updatable: false, revokable: true, extendable: false });
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: 0,
+            extendAmount: 0,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: getNow() - 1000,
+            time: 99999999999999
+        };
+    });
+
+    describe('function tests', async () => {
+
+        for (let statement of [Statement.COLLECT, Statement.USE, Statement.MODIFY, Statement.DISTRIBUTE]) {
+            it(`Copy metadata should describe a ${Statement[statement]} copy`, async () => {
+                let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                    { mintInfo: { ...mintInfo, statement }, validation: valInfo }
+                ]);
+                let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+                let expireAt = await contracts.copy.expireAt(copyId);
+
+                let metadata = await collectorClient.getCopyMetadata(copyId);
+                expect(metadata).to.deep.eq({
+                    name: `Copy of Creator #${creatorId}`,
+                    description: `A ${Statement[statement]} copy of the creator token #${creatorId}`,
+                    external_url: CONTENT.contentUri,
+                    content_uri: CONTENT.contentUri,
+                    attributes: [
+                        { trait_type: 'Statement', value: Statement[statement] },
+                        { trait_type: 'Status', value: 'Valid' },
+                        { display_type: 'date', trait_type: 'Expire At', value: expireAt.toNumber() },
+                        { trait_type: 'Transferable', value: 'Yes' },
+                        { trait_type: 'Updatable', value: 'No' },
+                        { trait_type: 'Revokable', value: 'Yes' },
+                        { trait_type: 'Extendable', value: 'No' },
+                        { trait_type: 'Copy Hash', value: copyHashes[0] }
+                    ]
+                });
+                expect(getCopyAttributes(metadata).statement).to.eq(statement);
+            })
+        }
+
+        it('Copy metadata should show the expiry state', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+
+            expect(getCopyAttributes(await collectorClient.getCopyMetadata(copyId)).status).to.eq('Valid');
+
+            await ethers.provider.send('evm_increaseTime', [DURATION + 1]);
+            await ethers.provider.send('evm_mine', []);
+
+            let attributes = getCopyAttributes(await collectorClient.getCopyMetadata(copyId));
+            expect(attributes.status).to.eq('Expired');
+            expect(attributes.expireAt).to.eq((await contracts.copy.expireAt(copyId)).toNumber());
+        })
+
+        it('Copy metadata should escape the content uri', async () => {
+            let contentUri = 'ar://"quoted"\\path\n';
+            let { copyHashes } = await creatorClient.publish(contentUri, [{ mintInfo, validation: valInfo }]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+
+            expect((await collectorClient.getCopyMetadata(copyId)).content_uri).to.eq(contentUri);
+        })
+
+        it('Copy should return the raw copyURI without a renderer', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+
+            await expect(contracts.copy.connect(addr1).setRenderer(ZERO_ADDRESS)).to.be.revertedWith('Ownable: caller is not the owner');
+            await contracts.copy.connect(owner).setRenderer(ZERO_ADDRESS);
+
+            let tokenURI = await contracts.copy.tokenURI(copyId);
+            expect(tokenURI).to.eq(CONTENT.contentUri);
+            expect(() => decodeTokenURI(tokenURI)).to.throw('Metadata: Not a base64 JSON data URI');
+        })
+    })
+})
@@ -0,0 +1,121 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo } from './fixture';
+
+import {
+    TransferMode,
+    CopyValidationData,
+    getEncodedTransferData
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+
+import { IContracts } from '../scripts/deploy.type';
+
+withSnapshot('RENTAL', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DAY = 60 * 60 * 24;
+    const DURATION = DAY * 30;
+
+    let creatorId: bigint;
+    let rentableHash: string;
+    let fixedHash: string;
+
+    const getTimestamp = async () => (await ethers.provider.getBlock('latest')).timestamp;
+
+    const increaseTime = async (seconds: number) => {
+        await ethers.provider.send('evm_increaseTime', [seconds]);
+        await ethers.provider.send('evm_mine', []);
+    };
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+
+        let mintInfo = getRuleMintInfo(contracts, { updatable: false, extendable: false });
+
+        let valInfo: CopyValidationData = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: 0,
+            extendAmount: 0,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 20,
+            start: await getTimestamp() - 1000,
+            time: 99999999999999
+        };
+
+        ({ creatorId, copyHashes: [rentableHash, fixedHash] } = await creatorClient.publish(CONTENT.contentUri, [
+            { mintInfo: { ...mintInfo, mintInfoAdditional: getEncodedTransferData(0, TransferMode.FREE, 0, true) }, validation: valInfo },
+            { mintInfo, validation: valInfo }
+        ]));
+    });
+
+    describe('function tests', async () => {
+
+        it('Copy should support the EIP-4907 interface', async () => {
+            expect(await contracts.copy.supportsInterface('0xad092b5c')).to.eq(true);
+        })
+
+        it('Holders should rent out copies of rentable rules until their expiry', async () => {
+            let copyId = await collectorClient.collect(rentableHash, DURATION);
+            let fixedId = await collectorClient.collect(fixedHash, DURATION);
+            let expireAt = (await contracts.copy.expireAt(copyId)).toBigInt();
+
+            expect(await contracts.copy.isRentable(copyId)).to.eq(true);
+            expect(await contracts.copy.isRentable(fixedId)).to.eq(false);
+            await expect(collectorClient.rent(fixedId, addr3.address)).to.be.revertedWith('Copy: Non-rentable');
+            await expect(collectorClient.rent(copyId, addr3.address, expireAt + 1n)).to.be.revertedWith('Copy: Rental Exceeds Expiry');
+            await expect(contracts.copy.connect(addr3).setUser(copyId, addr3.address, expireAt))
+                .to.be.revertedWith('ERC721: caller is not token owner nor approved');
+
+            expect(await contracts.copy['hasValidUse(address,uint256)'](addr3.address, creatorId)).to.eq(false);
+            await expect(contracts.copy.connect(addr2).setUser(copyId, addr3.address, expireAt))
+                .to.emit(contracts.copy, 'UpdateUser').withArgs(copyId, addr3.address, expireAt);
+            expect(await collectorClient.getRental(copyId)).to.deep.eq({ user: addr3.address, expires: expireAt });
+
+            // the user can use the copy without holding it, the holder keeps using it as well
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr3.address, creatorId)).to.eq(false);
+            expect(await contracts.copy['hasValidUse(address,uint256)'](addr3.address, creatorId)).to.eq(true);
+            expect(await contracts.copy['hasValidUse(address,uint256)'](addr2.address, creatorId)).to.eq(true);
+
+            await collectorClient.unrent(copyId);
+            expect(await collectorClient.getRental(copyId)).to.deep.eq({ user: ZERO_ADDRESS, expires: 0n });
+            expect(await contracts.copy['hasValidUse(address,uint256)'](addr3.address, creatorId)).to.eq(false);
+        })
+
+        it('Rentals should end at their expiry, and when the copy is transferred or destroyed', async () => {
+            let copyId = await collectorClient.collect(rentableHash, DURATION);
+            let otherId = await collectorClient.collect(rentableHash, DURATION);
+
+            await collectorClient.rent(copyId, addr3.address, await getTimestamp() + DAY);
+            await collectorClient.rent(otherId, addr3.address, await getTimestamp() + DAY * 2);
+            await increaseTime(DAY + 1);
+            expect((await collectorClient.getRental(copyId)).user).to.eq(ZERO_ADDRESS);
+            expect(await contracts.copy['hasValidUse(address,uint256)'](addr3.address, creatorId)).to.eq(true);
+
+            // the longest rental ends with the transfer of its copy
+            await expect(contracts.copy.connect(addr2).transferFrom(addr2.address, addrs[0].address, otherId))
+                .to.emit(contracts.copy, 'UpdateUser').withArgs(otherId, ZERO_ADDRESS, 0);
+            expect(await contracts.copy['hasValidUse(address,uint256)'](addr3.address, creatorId)).to.eq(false);
+
+            await collectorClient.rent(copyId, addr3.address);
+            expect(await contracts.copy['hasValidUse(address,uint256)'](addr3.address, creatorId)).to.eq(true);
+            await collectorClient.destroy(copyId);
+            expect(await contracts.copy['hasValidUse(address,uint256)'](addr3.address, creatorId)).to.eq(false);
+            expect(await contracts.copy.userExpires(copyId)).to.eq(0);
+        })
+    })
+})
@@ -0,0 +1,188 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo } from './fixture';
+
+import {
+    Statement,
+    CopyValidationData,
+    getCopyValidationData
+} from '../utils';
+import { getEncodedCurveData } from '../utils/pricing';
+import { ERC721CopyClient } from '../utils/client';
+
+import { IContracts } from '../scripts/deploy.type';
+
+withSnapshot('REVOCATION', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DAY = 60 * 60 * 24;
+    const DURATION = DAY * 30;
+    const PRICE = ethers.utils.parseEther('0.0003');
+    const REASON_URI = 'ipfs://bafkreib7p3v6shtoz2v4ynzwnf6cvfn6x3bmcfuvhcrs3ia7efbhg4zsbm';
+
+    let nativeHash: string;
+    let erc20Hash: string;
+    let curveHash: string;
+    let extendedHash: string;
+
+    const getTimestamp = async () => (await ethers.provider.getBlock('latest')).timestamp;
+
+    const increaseTime = async (seconds: number) => {
+        await ethers.provider.send('evm_increaseTime', [seconds]);
+        await ethers.provider.send('evm_mine', []);
+    };
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+
+        let mintInfo = getRuleMintInfo(contracts, { updatable: false, revokable: true });
+
+        let valInfo: CopyValidationData = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: PRICE,
+            extendAmount: PRICE,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 20,
+            start: await getTimestamp() - 1000,
+            time: 99999999999999
+        };
+
+        ({ copyHashes: [nativeHash, erc20Hash, curveHash, extendedHash] } = await creatorClient.publish(CONTENT.contentUri, [
+            { mintInfo, validation: valInfo },
+            { mintInfo: { ...mintInfo, statement: Statement.COLLECT }, validation: { ...valInfo, feeToken: contracts.test.mockFT.address } },
+            {
+                mintInfo: { ...mintInfo, mintable: contracts.bondingCurveMintable.address },
+                validation: valInfo,
+                ruleData: getEncodedCurveData(getCopyValidationData(valInfo), PRICE)
+            },
+            { mintInfo: { ...mintInfo, statement: Statement.MODIFY }, validation: { ...valInfo, extendAmount: PRICE.mul(2) } }
+        ]));
+
+        await contracts.test.mockFT.connect(addr1).mint(addr1.address, PRICE.mul(10));
+        await contracts.test.mockFT.connect(addr2).mint(addr2.address, PRICE.mul(10));
+    });
+
+    describe('function tests', async () => {
+
+        it('Revocations should refund the remaining validity from the escrow of the creator', async () => {
+            let copyId = await collectorClient.collect(nativeHash, DURATION);
+            let expireAt = (await contracts.copy.expireAt(copyId)).toBigInt();
+            await increaseTime(DURATION / 2);
+
+            let tx = await contracts.copy.connect(addr1)['revoke(uint256,uint16,string,uint64,bool)'](copyId, 3, REASON_URI, 0, true);
+            let refund = (expireAt - BigInt(await getTimestamp())) * PRICE.toBigInt() / BigInt(DURATION);
+            await expect(tx).to.emit(contracts.copy, 'Revoke').withArgs(copyId);
+            await expect(tx).to.emit(contracts.copy, 'RevokeReason').withArgs(copyId, 3, REASON_URI, refund);
+            await expect(tx).to.emit(contracts.mintable, 'Refund').withArgs(addr2.address, nativeHash, ZERO_ADDRESS, refund);
+
+            expect(await collectorClient.getBalance()).to.eq(refund);
+            expect(await creatorClient.getBalance()).to.eq(PRICE.toBigInt() - refund);
+            await expect(contracts.copy.ownerOf(copyId)).to.be.revertedWith('ERC721: invalid token ID');
+        })
+
+        it('Creator should pay the refund not covered by the escrow', async () => {
+            let copyId = await collectorClient.collect(erc20Hash, DURATION);
+            let withdrawn = await creatorClient.withdraw(contracts.test.mockFT.address);
+            expect(withdrawn).to.eq(PRICE.toBigInt());
+            let creatorTokens = await contracts.test.mockFT.balanceOf(addr1.address);
+
+            let expireAt = (await contracts.copy.expireAt(copyId)).toBigInt();
+            await creatorClient.revoke(copyId, { reason: 1, refund: true });
+            let refund = await collectorClient.getBalance(contracts.test.mockFT.address);
+            expect(refund).to.eq((expireAt - BigInt(await getTimestamp())) * PRICE.toBigInt() / BigInt(DURATION));
+            expect(await contracts.test.mockFT.balanceOf(addr1.address)).to.eq(creatorTokens.sub(refund));
+
+            // the native tokens sent for an unrefunded revocation would be stuck
+            let otherId = await collectorClient.collect(nativeHash, DURATION);
+            await expect(contracts.copy.connect(addr1)['revoke(uint256,uint16,string,uint64,bool)'](
+                otherId, 1, '', 0, false, { value: PRICE }
+            )).to.be.revertedWith('Copy: Unexpected Payment');
+        })
+
+        it('Refunds should be based on the fees paid for the copy', async () => {
+            // the second copy of the bonding curve costs twice the first one
+            await collectorClient.collect(curveHash, DURATION);
+            let curveId = await collectorClient.collect(curveHash, DURATION);
+            let expireAt = (await contracts.copy.expireAt(curveId)).toBigInt();
+            let tx = await contracts.copy.connect(addr1)['revoke(uint256,uint16,string,uint64,bool)'](curveId, 0, '', 0, true);
+            let refund = (expireAt - BigInt(await getTimestamp())) * PRICE.mul(2).toBigInt() / BigInt(DURATION);
+            await expect(tx).to.emit(contracts.bondingCurveMintable, 'Refund').withArgs(addr2.address, curveHash, ZERO_ADDRESS, refund);
+
+            // the mint amount of a rule that is not fragmented is paid for any duration, and the extensions at
+            // the extend amount, the latest payment being refunded first
+            let copyId = await collectorClient.collect(extendedHash, DURATION / 2);
+            await collectorClient.extend(copyId, DURATION);
+            await increaseTime(DAY);
+            expireAt = (await contracts.copy.expireAt(copyId)).toBigInt();
+            tx = await contracts.copy.connect(addr1)['revoke(uint256,uint16,string,uint64,bool)'](copyId, 0, '', 0, true);
+            let remaining = expireAt - BigInt(await getTimestamp());
+            refund = PRICE.mul(2).toBigInt() + (remaining - BigInt(DURATION)) * PRICE.toBigInt() / BigInt(DURATION / 2);
+            await expect(tx).to.emit(contracts.mintable, 'Refund').withArgs(addr2.address, extendedHash, ZERO_ADDRESS, refund);
+
+            // the payments of an expired copy are not refunded once it is extended
+            copyId = await collectorClient.collect(extendedHash, DAY);
+            await increaseTime(DAY * 2);
+            await collectorClient.extend(copyId, DURATION);
+            expireAt = (await contracts.copy.expireAt(copyId)).toBigInt();
+            let timestamp = BigInt(await getTimestamp());
+            expect(await contracts.mintable.getRefund(copyId, expireAt - timestamp))
+                .to.eq((expireAt - timestamp) * PRICE.mul(2).toBigInt() / BigInt(DURATION));
+            expect(await contracts.mintable.getRefund(copyId, expireAt - timestamp + BigInt(DAY)))
+                .to.eq(PRICE.mul(2));
+        })
+
+        it('Copies should be pending revocation during the grace period', async () => {
+            let copyId = await collectorClient.collect(nativeHash, DURATION);
+            await creatorClient.revoke(copyId, { reason: 2, reasonURI: REASON_URI, gracePeriod: DAY * 7 });
+            let effectiveAt = BigInt(await getTimestamp() + DAY * 7);
+
+            let revocation = { effectiveAt, refund: false, reason: 2, reasonURI: REASON_URI };
+            expect(await collectorClient.getRevocation(copyId)).to.deep.eq(revocation);
+            expect((await collectorClient.getCopy(copyId)).revocation).to.deep.eq(revocation);
+            expect(await contracts.copy.isTransferable(copyId)).to.eq(false);
+
+            await expect(collectorClient.extend(copyId, DURATION)).to.be.revertedWith('Copy: Pending Revocation');
+            await expect(contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, copyId))
+                .to.be.revertedWith('Copy: Pending Revocation');
+            await expect(creatorClient.revoke(copyId)).to.be.revertedWith('Copy: Pending Revocation');
+            await expect(creatorClient.executeRevocation(copyId)).to.be.revertedWith('Copy: Grace Period Not Over');
+            await expect(contracts.copy.connect(addr3).cancelRevocation(copyId))
+                .to.be.revertedWith('Copy: caller is not creator nor approved');
+
+            await creatorClient.cancelRevocation(copyId);
+            expect(await collectorClient.getRevocation(copyId)).to.eq(undefined);
+            expect((await collectorClient.getCopy(copyId)).revocation).to.eq(undefined);
+            await collectorClient.extend(copyId, DURATION);
+        })
+
+        it('Pending revocations should be executed with their refund after the grace period', async () => {
+            let copyId = await collectorClient.collect(nativeHash, DURATION);
+            await creatorClient.revoke(copyId, { reason: 4, reasonURI: REASON_URI, gracePeriod: DAY, refund: true });
+
+            // the creator has withdrawn the fees, so the refund is paid in full by the creator
+            await creatorClient.withdraw();
+            await increaseTime(DAY);
+            let balance = await collectorClient.getBalance();
+            let expireAt = (await contracts.copy.expireAt(copyId)).toBigInt();
+            await creatorClient.executeRevocation(copyId);
+            expect(await collectorClient.getBalance() - balance)
+                .to.eq((expireAt - BigInt(await getTimestamp())) * PRICE.toBigInt() / BigInt(DURATION));
+            expect(await contracts.copy.isPendingRevocation(copyId)).to.eq(false);
+            await expect(creatorClient.executeRevocation(copyId)).to.be.revertedWith('Copy: No Pending Revocation');
+        })
+    })
+})
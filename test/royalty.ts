@@ -0,0 +1,117 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    getNow,
+    Statement,
+    CopyValidationData,
+    getEncodedRoyaltyData,
+    decodeRoyaltyData,
+    getRoyaltyAmount
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+
+import { IContracts } from '../scripts/deploy.type';
+
+withSnapshot('ROYALTY', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DURATION = 60 * 60 * 24 * 30;
+    const SALE_PRICE = ethers.utils.parseEther('1');
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = getRuleMintInfo(contracts, { statement: Statement.COLLECT, updatable: false, extendable: false });
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: 0,
+            extendAmount: 0,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: getNow() - 1000,
+            time: 99999999999999
+        };
+    });
+
+    describe('function tests', async () => {
+
+        it('Copy should support the EIP-2981 interface', async () => {
+            expect(await contracts.copy.supportsInterface('0x2a55205a')).to.eq(true);
+        })
+
+        it('Royalty data should round-trip through the mintInfoAdditional', async () => {
+            expect(decodeRoyaltyData(getEncodedRoyaltyData(750))).to.eq(750);
+            expect(decodeRoyaltyData('0x')).to.eq(undefined);
+            expect(getRoyaltyAmount(SALE_PRICE, 750)).to.eq(SALE_PRICE.toBigInt() * 750n / 10000n);
+        })
+
+        it('Royalty of a rule should be paid to the holder of the creator token on resale', async () => {
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo: { ...mintInfo, mintInfoAdditional: getEncodedRoyaltyData(750) }, validation: valInfo }
+            ]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            expect(await creatorClient.getRoyalty(copyHashes[0])).to.eq(750);
+
+            let royalty = await collectorClient.getRoyaltyInfo(copyId, SALE_PRICE);
+            expect(royalty.receiver).to.eq(addr1.address);
+            expect(royalty.amount).to.eq(getRoyaltyAmount(SALE_PRICE, 750));
+
+            // the royalty does not depend on the holder of the copy
+            await contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, copyId);
+            expect(await collectorClient.getRoyaltyInfo(copyId, SALE_PRICE)).to.deep.eq(royalty);
+
+            // the receiver follows the creator token
+            await contracts.creator.connect(addr1).transferFrom(addr1.address, addr3.address, creatorId);
+            let resale = await collectorClient.getRoyaltyInfo(copyId, SALE_PRICE.mul(2));
+            expect(resale.receiver).to.eq(addr3.address);
+            expect(resale.amount).to.eq(getRoyaltyAmount(SALE_PRICE.mul(2), 750));
+        })
+
+        it('Rules without royalty should fall back to the royalty of the creator', async () => {
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: valInfo },
+                { mintInfo: { ...mintInfo, transferable: false, mintInfoAdditional: getEncodedRoyaltyData(0) }, validation: valInfo }
+            ]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            let freeCopyId = await collectorClient.collect(copyHashes[1], DURATION);
+            expect((await collectorClient.getRoyaltyInfo(copyId, SALE_PRICE)).amount).to.eq(0n);
+
+            await expect(contracts.copy.connect(addr2)['setCreatorRoyalty(uint256,uint96)'](creatorId, 500)).to.be.revertedWith('Copy: caller is not creator nor approved');
+            await expect(creatorClient.setCreatorRoyalty(creatorId, 10001)).to.be.revertedWith('Copy: Invalid Royalty');
+            await creatorClient.setCreatorRoyalty(creatorId, 500);
+
+            expect(await contracts.copy['getCreatorRoyalty(uint256)'](creatorId)).to.eq(500);
+            expect((await collectorClient.getRoyaltyInfo(copyId, SALE_PRICE)).amount).to.eq(getRoyaltyAmount(SALE_PRICE, 500));
+            expect((await collectorClient.getRoyaltyInfo(freeCopyId, SALE_PRICE)).amount).to.eq(0n);
+        })
+
+        it('Rules should not be set with a royalty above the sale price', async () => {
+            let { creatorId } = await creatorClient.publish(CONTENT.contentUri);
+            await expect(creatorClient.addRule(
+                { ...mintInfo, creatorId, mintInfoAdditional: getEncodedRoyaltyData(10001) },
+                valInfo
+            )).to.be.revertedWith('Copy: Invalid Royalty');
+            await expect(contracts.copy.royaltyInfo(1, SALE_PRICE)).to.be.revertedWith('Copy: royalty query for nonexistent token');
+        })
+    })
+})
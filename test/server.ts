@@ -0,0 +1,134 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    getNow,
+    Statement,
+    CopyValidationData
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+
+import { IContracts, IContractAddresses } from '../scripts/deploy.type';
+import { Indexer } from '../scripts/indexer';
+import { JsonStore } from '../scripts/indexer/store';
+import { createServer } from '../scripts/server';
+import { ChainSource, IndexSource, IViewSource } from '../scripts/server/source';
+
+const get = (server: http.Server, path: string): Promise<{ status: number, body: any }> => {
+    const { port } = server.address() as AddressInfo;
+    return new Promise((resolve, reject) => {
+        http.get(`http://127.0.0.1:${port}${path}`, (res) => {
+            let data = '';
+            res.on('data', (chunk) => data += chunk);
+            res.on('end', () => resolve({ status: res.statusCode!, body: JSON.parse(data) }));
+        }).on('error', reject);
+    });
+};
+
+const listen = (source: IViewSource): Promise<http.Server> => {
+    const server = createServer(source);
+    return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+};
+
+withSnapshot('SERVER', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let addresses: IContractAddresses;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DURATION = 60 * 60 * 24 * 30;
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, ...addrs], contracts, addresses, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = getRuleMintInfo(contracts, { statement: Statement.COLLECT, revokable: true });
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: 0,
+            extendAmount: 0,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: getNow() - 1000,
+            time: 99999999999999
+        };
+    });
+
+    describe('end-to-end tests', async () => {
+
+        it('Server should serve the same views from the chain and from the index', async () => {
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+
+            let chainServer = await listen(new ChainSource(creatorClient));
+            let indexServer = await listen(new IndexSource(new Indexer(ethers.provider, addresses, new JsonStore())));
+
+            try {
+                let paths = [
+                    '/creators',
+                    `/creators?holder=${addr1.address}&offset=0&limit=5`,
+                    `/creators/${creatorId}`,
+                    `/creators/${creatorId}/copies`,
+                    `/collectors/${addr2.address.toLowerCase()}/copies`,
+                    `/copies/${copyId}`,
+                    `/rules/${copyHashes[0]}`
+                ];
+                for (let path of paths) {
+                    let fromChain = await get(chainServer, path);
+                    let fromIndex = await get(indexServer, path);
+                    expect(fromChain.status).to.eq(200);
+                    expect(fromIndex).to.deep.eq(fromChain);
+                }
+
+                let { body } = await get(indexServer, `/creators/${creatorId}/copies?offset=0&limit=5`);
+                expect(body.meta).to.deep.eq({ offset: 0, limit: 5, count: 1 });
+                expect(body.copies[0].copyId).to.eq(copyId.toString());
+                expect(body.copies[0].holder).to.eq(addr2.address);
+                expect(body.copies[0].mintable.copyHash).to.eq(copyHashes[0]);
+
+                // the index source syncs before reading
+                await collectorClient.collect(copyHashes[0], DURATION);
+                expect((await get(indexServer, '/copies')).body.meta.count).to.eq(2);
+            } finally {
+                chainServer.close();
+                indexServer.close();
+            }
+        })
+
+        it('Server should reply with errors for missing tokens and invalid parameters', async () => {
+            let server = await listen(new ChainSource(creatorClient));
+
+            try {
+                expect((await get(server, '/creators/1')).status).to.eq(404);
+                expect((await get(server, '/copies/1')).status).to.eq(404);
+                expect((await get(server, `/rules/${ethers.constants.HashZero}`)).status).to.eq(404);
+                expect((await get(server, '/unknown')).status).to.eq(404);
+                expect((await get(server, '/creators/abc')).status).to.eq(400);
+                expect((await get(server, '/collectors/0x1234/copies')).status).to.eq(400);
+                expect((await get(server, '/copies?limit=-1')).status).to.eq(400);
+
+                let { body } = await get(server, '/copies?limit=1000');
+                expect(body.meta.limit).to.eq(100);
+            } finally {
+                server.close();
+            }
+        })
+    })
+})
@@ -0,0 +1,159 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    Statement,
+    TransferMode,
+    OrphanPolicy,
+    CopyValidationData,
+    getEncodedRoyaltyData,
+    getEncodedTransferData
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+
+import { getAddresses } from '../scripts/deploy';
+import { IContracts } from '../scripts/deploy.type';
+import { Indexer } from '../scripts/indexer';
+import { JsonStore } from '../scripts/indexer/store';
+
+withSnapshot('CREATOR SOURCE', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DURATION = 60 * 60 * 24 * 30;
+    const PRICE = ethers.utils.parseEther('0.0002');
+    const NFT_URI = 'ipfs://bafkreihdwdcefgh4dqkjv67uzcmw7ojee6xedzdetojuzjevtenxquvyku';
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+    let nftId: bigint;
+
+    const getTimestamp = async () => (await ethers.provider.getBlock('latest')).timestamp;
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+
+        // the copies of creator contracts that do not record the time of the burn cannot be frozen
+        mintInfo = getRuleMintInfo(contracts, {
+            creatorContract: contracts.test.mockNFT.address,
+            revokable: true,
+            mintInfoAdditional: getEncodedTransferData(0, TransferMode.FREE, 0, false, false, OrphanPolicy.EXPIRE)
+        });
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: PRICE,
+            extendAmount: PRICE,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: await getTimestamp() - 1000,
+            time: 99999999999999
+        };
+
+        nftId = (await contracts.test.mockNFT.connect(addr1).callStatic.mintToken(NFT_URI)).toBigInt();
+        await contracts.test.mockNFT.connect(addr1).mintToken(NFT_URI);
+    });
+
+    describe('function tests', async () => {
+
+        it('Holders of tokens of other ERC-721 contracts should set up rules', async () => {
+            await expect(collectorClient.addRule({ ...mintInfo, creatorId: nftId }, valInfo))
+                .to.be.revertedWith('Copy: caller is not creator nor approved');
+            await expect(creatorClient.addRule({ ...mintInfo, creatorContract: contracts.test.mockFT.address, creatorId: nftId }, valInfo))
+                .to.be.revertedWith('Copy: Invalid Creator Contract');
+            await expect(creatorClient.addRule({ ...mintInfo, creatorId: nftId, mintInfoAdditional: getEncodedRoyaltyData(0) }, valInfo))
+                .to.be.revertedWith('Copy: Orphan Policy Not Supported');
+
+            let copyHash = await creatorClient.addRule({ ...mintInfo, creatorId: nftId }, valInfo);
+            expect((await creatorClient.getMintable(copyHash)).mintInfo.creatorContract).to.eq(contracts.test.mockNFT.address);
+
+            // rules without a creator contract are based on the default creator contract
+            let { creatorId, copyHashes: [defaultHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo: { ...mintInfo, creatorContract: undefined }, validation: valInfo }
+            ]);
+            expect((await creatorClient.getMintable(defaultHash)).mintInfo.creatorContract).to.eq(contracts.creator.address);
+            expect(await contracts.copy['getCopyHashes(uint256)'](creatorId)).to.deep.eq([defaultHash]);
+            expect(await contracts.copy['getCopyHashes(address,uint256)'](contracts.test.mockNFT.address, nftId)).to.deep.eq([copyHash]);
+        })
+
+        it('Copies should be keyed by the creator contract and the creator token Id', async () => {
+            let { creatorId, copyHashes: [defaultHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo: { ...mintInfo, creatorContract: undefined, statement: Statement.COLLECT }, validation: valInfo }
+            ]);
+            let otherId = (await contracts.test.mockNFT.connect(addr1).callStatic.mintToken(NFT_URI)).toBigInt();
+            await contracts.test.mockNFT.connect(addr1).mintToken(NFT_URI);
+            let copyHash = await creatorClient.addRule({ ...mintInfo, creatorId: otherId }, valInfo);
+
+            let copyId = await collectorClient.collect(copyHash, DURATION);
+            expect((await contracts.copy.getCopyInfo(copyId)).copyURI).to.eq(NFT_URI);
+            let [creatorContract, creatorTokenId] = await contracts.copy.creatorTokenOf(copyId);
+            expect(creatorContract).to.eq(contracts.test.mockNFT.address);
+            expect(creatorTokenId).to.eq(otherId);
+            expect(await contracts.copy['getCopyCount(address,uint256)'](contracts.test.mockNFT.address, otherId)).to.eq(1);
+            expect(await contracts.copy['getCopyByIndex(address,uint256,uint256)'](contracts.test.mockNFT.address, otherId, 1)).to.eq(copyId);
+            expect(await contracts.copy['hasValidCopy(address,address,uint256)'](addr2.address, contracts.test.mockNFT.address, otherId)).to.eq(true);
+            expect(await collectorClient.getValidCopies(addr2.address, otherId, contracts.test.mockNFT.address)).to.deep.eq([copyId]);
+
+            // the copy does not count for a creator token of the default contract with the same token Id
+            expect(await contracts.copy['hasValidCopy(address,uint256)'](addr2.address, otherId)).to.eq(false);
+            let defaultId = await collectorClient.collect(defaultHash, DURATION);
+            expect(await collectorClient.getValidCopies(addr2.address, creatorId)).to.deep.eq([defaultId]);
+            expect(await contracts.copy['getCopyCount(uint256)'](creatorId)).to.eq(1);
+        })
+
+        it('Fees, royalties and the rule management should follow the holder of the external creator token', async () => {
+            let copyHash = await creatorClient.addRule({ ...mintInfo, creatorId: nftId, statement: Statement.MODIFY }, valInfo);
+            await creatorClient.setCreatorRoyalty(nftId, 500, contracts.test.mockNFT.address);
+            expect(await contracts.copy['getCreatorRoyalty(address,uint256)'](contracts.test.mockNFT.address, nftId)).to.eq(500);
+
+            let balance = await creatorClient.getBalance();
+            let copyId = await collectorClient.collect(copyHash, DURATION);
+            expect(await creatorClient.getBalance()).to.eq(balance + PRICE.toBigInt());
+            expect((await collectorClient.getRoyaltyInfo(copyId, 10000)).receiver).to.eq(addr1.address);
+
+            await contracts.test.mockNFT.connect(addr1).transferFrom(addr1.address, addr3.address, nftId);
+            expect((await collectorClient.getRoyaltyInfo(copyId, 10000)).receiver).to.eq(addr3.address);
+            await expect(creatorClient.pauseRule(copyHash)).to.be.revertedWith('Copy: caller is not creator nor approved');
+            await new ERC721CopyClient(addr3, getAddresses(contracts)).revoke(copyId);
+            await contracts.test.mockNFT.connect(addr3).transferFrom(addr3.address, addr1.address, nftId);
+        })
+
+        it('Helper and indexer views should include copies of other creator contracts', async () => {
+            let copyHash = await creatorClient.addRule({ ...mintInfo, creatorId: nftId, statement: Statement.DISTRIBUTE }, valInfo);
+            let copyId = await collectorClient.collect(copyHash, DURATION);
+
+            let creator = await creatorClient.getCreator(nftId, contracts.test.mockNFT.address);
+            expect(creator.creatorContract).to.eq(contracts.test.mockNFT.address);
+            expect(creator.holder).to.eq(addr1.address);
+            expect(creator.tokenURI).to.eq(NFT_URI);
+            let rules = await contracts.copy['getCopyHashes(address,uint256)'](contracts.test.mockNFT.address, nftId);
+            expect(creator.rules).to.eq(rules.length);
+            expect((await creatorClient.getMintInfoByCreator(nftId, contracts.test.mockNFT.address)).mintable.map((rule) => rule.copyHash))
+                .to.deep.eq(rules);
+
+            let { copies } = await creatorClient.getCopiesByCreator(nftId, 0, 10, contracts.test.mockNFT.address);
+            expect(copies.map((copy) => copy.copyId)).to.include(copyId);
+
+            let indexer = new Indexer(ethers.provider, getAddresses(contracts), new JsonStore());
+            await indexer.sync();
+            expect(indexer.getCopyTokenById(copyId)).to.deep.eq(await creatorClient.getCopy(copyId));
+            expect(indexer.getCopyTokensByCreator(nftId, 0, 10, contracts.test.mockNFT.address).copies.map((copy) => copy.copyId))
+                .to.deep.eq(copies.map((copy) => copy.copyId));
+            expect(indexer.getCopyTokensByCreator(nftId, 0, 10).copies.map((copy) => copy.copyId)).to.not.include(copyId);
+        })
+    })
+})
@@ -0,0 +1,227 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import { CopyValidationData } from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+
+import { getAddresses } from '../scripts/deploy';
+import { IContracts } from '../scripts/deploy.type';
+import { Keeper } from '../scripts/keeper';
+import { Indexer } from '../scripts/indexer';
+import { JsonStore } from '../scripts/indexer/store';
+
+withSnapshot('SUBSCRIPTION', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+    let keeperClient: ERC721CopyClient;
+
+    const DAY = 60 * 60 * 24;
+    const DURATION = DAY * 30;
+    const PRICE = ethers.utils.parseEther('0.0001');
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    const getTimestamp = async () => (await ethers.provider.getBlock('latest')).timestamp;
+
+    const increaseTime = async (seconds: number) => {
+        await ethers.provider.send('evm_increaseTime', [seconds]);
+        await ethers.provider.send('evm_mine', []);
+    };
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+        keeperClient = new ERC721CopyClient(addr3, getAddresses(contracts));
+
+        mintInfo = getRuleMintInfo(contracts, { updatable: false });
+
+        valInfo = {
+            feeToken: contracts.test.mockFT.address,
+            duration: DURATION,
+            fragmented: true,
+            mintAmount: PRICE,
+            extendAmount: PRICE,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: await getTimestamp() - 1000,
+            time: 99999999999999
+        };
+
+        await contracts.test.mockFT.connect(addr2).mint(addr2.address, PRICE.mul(100));
+    });
+
+    describe('function tests', async () => {
+
+        it('Keepers should renew subscribed copies one period at a time near their expiry', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            let expiry = (await contracts.copy.getCopyInfo(copyId)).expireAt.toBigInt();
+
+            await expect(keeperClient.renew(copyId)).to.be.revertedWith('Copy: No Subscription');
+            await collectorClient.subscribe(copyId, DURATION, 2);
+            expect(await keeperClient.getSubscription(copyId)).to.deep.eq({ duration: BigInt(DURATION), periods: 2 });
+            expect(await contracts.test.mockFT.allowance(addr2.address, contracts.mintable.address)).to.eq(PRICE.mul(2));
+
+            await expect(keeperClient.renew(copyId)).to.be.revertedWith('Copy: Renewal Window Not Open');
+            await increaseTime(DURATION - DAY / 2);
+
+            let balance = await contracts.test.mockFT.balanceOf(addr2.address);
+            await expect(contracts.copy.connect(addr3).renew(copyId))
+                .to.emit(contracts.copy, 'Renew').withArgs(copyId, expiry + BigInt(DURATION), 1);
+            expect(await contracts.test.mockFT.balanceOf(addr2.address)).to.eq(balance.sub(PRICE));
+            expect(await contracts.mintable.getBalance(addr1.address, contracts.test.mockFT.address)).to.eq(PRICE.mul(2));
+
+            // the renewed copy is out of the window again
+            await expect(keeperClient.renew(copyId)).to.be.revertedWith('Copy: Renewal Window Not Open');
+
+            // expired copies are renewed from the time of the renewal
+            await increaseTime(DURATION * 2);
+            let renewed = await keeperClient.renew(copyId);
+            expect(renewed).to.eq(BigInt(await getTimestamp() + DURATION));
+            expect((await keeperClient.getSubscription(copyId)).periods).to.eq(0);
+            await expect(keeperClient.renew(copyId)).to.be.revertedWith('Copy: No Subscription');
+        })
+
+        it('Subscriptions should only be set by the holder and be cleared on transfer', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: valInfo },
+                { mintInfo: { ...mintInfo, extendable: false }, validation: valInfo }
+            ]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            let fixedId = await collectorClient.collect(copyHashes[1], DURATION);
+
+            await expect(contracts.copy.connect(addr3).setSubscription(copyId, DURATION, 3))
+                .to.be.revertedWith('ERC721: caller is not token owner nor approved');
+            await expect(collectorClient.subscribe(fixedId, DURATION, 3)).to.be.revertedWith('Copy: Non-extendable');
+
+            await collectorClient.subscribe(copyId, DURATION, 3);
+            await contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, copyId);
+            expect(await keeperClient.getSubscription(copyId)).to.deep.eq({ duration: 0n, periods: 0 });
+
+            // cancelling
+            await keeperClient.subscribe(copyId, DURATION, 3);
+            await keeperClient.subscribe(copyId, DURATION, 0);
+            expect((await keeperClient.getSubscription(copyId)).periods).to.eq(0);
+        })
+
+        it('Subscriptions should keep their allowance through other subscriptions and payments', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let first = await collectorClient.collect(copyHashes[0], DURATION);
+            let second = await collectorClient.collect(copyHashes[0], DURATION);
+            let allowance = await contracts.test.mockFT.allowance(addr2.address, contracts.mintable.address);
+
+            await collectorClient.subscribe(first, DURATION, 1);
+            await collectorClient.subscribe(second, DURATION, 1);
+            expect(await contracts.test.mockFT.allowance(addr2.address, contracts.mintable.address)).to.eq(allowance.add(PRICE.mul(2)));
+
+            // payments of other copies are added to the allowance instead of taking it over
+            let other = await collectorClient.collect(copyHashes[0], DURATION);
+            await collectorClient.extend(other, DURATION);
+            expect(await contracts.test.mockFT.allowance(addr2.address, contracts.mintable.address)).to.eq(allowance.add(PRICE.mul(2)));
+
+            await increaseTime(DURATION - DAY / 2);
+            await keeperClient.renew(first);
+            await keeperClient.renew(second);
+            expect(await contracts.test.mockFT.allowance(addr2.address, contracts.mintable.address)).to.eq(allowance);
+        })
+
+        it('Others should not spend the allowance of a subscriber on their own rules', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            await collectorClient.subscribe(copyId, DURATION, 3);
+
+            let { copyHashes: [ownRule] } = await keeperClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: { ...valInfo, mintAmount: PRICE.mul(3) } }
+            ]);
+            await expect(contracts.copy.connect(addr3)['create(address,bytes32,uint64)'](addr2.address, ownRule, DURATION))
+                .to.be.revertedWith('Copy: Caller Is Not Payer');
+            await expect(contracts.helper.connect(addr3)['batchCollect(address,bytes32[],uint64[],uint256[])'](addr2.address, [ownRule], [DURATION], [0]))
+                .to.be.revertedWith('Helper: Caller Is Not Collector');
+            await expect(contracts.copy.connect(addr3)['extend(uint256,uint64)'](copyId, DURATION))
+                .to.be.revertedWith('Copy: Caller Is Not Payer');
+            expect(await contracts.test.mockFT.allowance(addr2.address, contracts.mintable.address)).to.eq(PRICE.mul(3));
+
+            // copies of free rules can still be minted for others
+            let { copyHashes: [freeRule] } = await keeperClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: { ...valInfo, mintAmount: 0, feeToken: ZERO_ADDRESS } }
+            ]);
+            await contracts.copy.connect(addr3)['create(address,bytes32,uint64)'](addr2.address, freeRule, DURATION);
+            expect(await contracts.copy.balanceOf(addr2.address)).to.eq(2);
+        })
+
+        it('Subscriptions should not be paid in native tokens', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: { ...valInfo, feeToken: ZERO_ADDRESS } }
+            ]);
+            let copyId = await collectorClient.collect(copyHashes[0], DURATION);
+            let error = await collectorClient.subscribe(copyId, DURATION, 1).catch((err) => err);
+            expect(error.message).to.eq('Subscription: Native Token Fees Not Supported');
+
+            await contracts.copy.connect(addr2).setSubscription(copyId, DURATION, 1);
+            await increaseTime(DURATION);
+            await expect(keeperClient.renew(copyId)).to.be.revertedWith('Mintable: Insufficient Native Tokens');
+        })
+    })
+
+    describe('keeper tests', async () => {
+
+        it('Keeper should renew the subscriptions due and report the failed ones', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let due = await collectorClient.collect(copyHashes[0], DURATION / 2);
+            let later = await collectorClient.collect(copyHashes[0], DURATION);
+            let unsubscribed = await collectorClient.collect(copyHashes[0], DURATION / 2);
+
+            // the allowance of this holder is used up by the mint
+            await contracts.test.mockFT.connect(addrs[0]).mint(addrs[0].address, PRICE);
+            let unpaid = await new ERC721CopyClient(addrs[0], getAddresses(contracts)).collect(copyHashes[0], DURATION / 2);
+
+            await collectorClient.subscribe(due, DURATION, 1);
+            await collectorClient.subscribe(later, DURATION, 1);
+            await contracts.copy.connect(addrs[0]).setSubscription(unpaid, DURATION, 1);
+            await increaseTime(DURATION / 2 - DAY / 2);
+
+            let keeper = new Keeper(keeperClient, new Indexer(ethers.provider, getAddresses(contracts), new JsonStore()));
+            expect((await keeper.findDue()).sort()).to.deep.eq([due, unpaid].sort());
+
+            let results = await keeper.run();
+            let renewed = results.find((result) => result.copyId == due)!;
+            expect(renewed.expiry).to.eq((await contracts.copy.getCopyInfo(due)).expireAt.toBigInt());
+            let failed = results.find((result) => result.copyId == unpaid)!;
+            expect(failed.error).to.match(/ERC20: insufficient allowance/);
+            expect(results.length).to.eq(2);
+
+            expect(await keeper.findDue()).to.deep.eq([unpaid]);
+            expect((await collectorClient.getSubscription(unsubscribed)).periods).to.eq(0);
+
+            // only the subscribed copies are indexed, and transfers clear their subscriptions
+            expect([...keeper.indexer.state.subscriptions.keys()].sort()).to.deep.eq([later, unpaid].map(String).sort());
+            await contracts.copy.connect(addrs[0]).transferFrom(addrs[0].address, addr3.address, unpaid);
+            expect(await keeper.findDue()).to.deep.eq([]);
+        })
+
+        it('Keeper should not poll again once stopped during a poll', async () => {
+            let keeper = new Keeper(keeperClient, new Indexer(ethers.provider, getAddresses(contracts), new JsonStore()), { pollInterval: 10 });
+            let polls = 0;
+            keeper.run = async () => {
+                polls++;
+                return [];
+            };
+            keeper.watch();
+            keeper.stop();
+            await new Promise((resolve) => setTimeout(resolve, 100));
+            expect(polls).to.eq(1);
+        })
+    })
+})
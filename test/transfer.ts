@@ -0,0 +1,160 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    TransferMode,
+    CopyValidationData,
+    getEncodedTransferData
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+
+import { IContracts } from '../scripts/deploy.type';
+
+withSnapshot('TRANSFER MODE', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DAY = 60 * 60 * 24;
+    const DURATION = DAY * 30;
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    const getTimestamp = async () => (await ethers.provider.getBlock('latest')).timestamp;
+
+    const increaseTime = async (seconds: number) => {
+        await ethers.provider.send('evm_increaseTime', [seconds]);
+        await ethers.provider.send('evm_mine', []);
+    };
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = getRuleMintInfo(contracts, { updatable: false, extendable: false });
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: 0,
+            extendAmount: 0,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: await getTimestamp() - 1000,
+            time: 99999999999999
+        };
+    });
+
+    describe('function tests', async () => {
+
+        it('Copy should support the EIP-5192 interface', async () => {
+            expect(await contracts.copy.supportsInterface('0xb45a3c0e')).to.eq(true);
+        })
+
+        it('Copies of non-transferable rules should be soulbound', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo: { ...mintInfo, transferable: false }, validation: valInfo },
+                { mintInfo, validation: valInfo }
+            ]);
+            expect(await creatorClient.getTransferRule(copyHashes[0])).to.deep.eq({ mode: TransferMode.SOULBOUND, coolingPeriod: 0n });
+            expect(await creatorClient.getTransferRule(copyHashes[1])).to.deep.eq({ mode: TransferMode.FREE, coolingPeriod: 0n });
+
+            let boundId = await collectorClient.collect(copyHashes[0], DURATION);
+            let freeId = await collectorClient.collect(copyHashes[1], DURATION);
+            let locks = await contracts.copy.queryFilter(contracts.copy.filters.Locked());
+            expect(locks.map((event) => event.args.tokenId.toBigInt())).to.deep.eq([boundId]);
+
+            expect(await collectorClient.isLocked(boundId)).to.eq(true);
+            expect(await collectorClient.isLocked(freeId)).to.eq(false);
+            expect(await collectorClient.getTransferableAt(boundId)).to.eq(undefined);
+            await expect(contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, boundId))
+                .to.be.revertedWith('Copy: Non-transferable');
+            await contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, freeId);
+            await expect(contracts.copy.locked(12345)).to.be.revertedWith('Copy: lock query for nonexistent token');
+        })
+
+        it('Transfer modes should be consistent with the transferable flag of the rule', async () => {
+            let { creatorId } = await creatorClient.publish(CONTENT.contentUri);
+            await expect(creatorClient.addRule(
+                { ...mintInfo, creatorId, mintInfoAdditional: getEncodedTransferData(0, TransferMode.SOULBOUND) },
+                valInfo
+            )).to.be.revertedWith('Copy: Invalid Transfer Mode');
+            await expect(creatorClient.addRule(
+                { ...mintInfo, creatorId, transferable: false, mintInfoAdditional: getEncodedTransferData(0, TransferMode.COOLING_PERIOD, DAY) },
+                valInfo
+            )).to.be.revertedWith('Copy: Invalid Transfer Mode');
+            await expect(creatorClient.addRule(
+                { ...mintInfo, creatorId, mintInfoAdditional: getEncodedTransferData(10001, TransferMode.FREE) },
+                valInfo
+            )).to.be.revertedWith('Copy: Invalid Royalty');
+
+            // the royalty is read from the first word of the transfer data
+            let copyHash = await creatorClient.addRule(
+                { ...mintInfo, creatorId, mintInfoAdditional: getEncodedTransferData(500, TransferMode.COOLING_PERIOD, DAY) },
+                valInfo
+            );
+            expect(await creatorClient.getRoyalty(copyHash)).to.eq(500);
+        })
+
+        it('Copies with a cooling period should only be transferred once held for the period', async () => {
+            let { copyHashes: [copyHash, longHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo: { ...mintInfo, mintInfoAdditional: getEncodedTransferData(0, TransferMode.COOLING_PERIOD, DAY * 2) }, validation: valInfo },
+                { mintInfo: { ...mintInfo, mintInfoAdditional: getEncodedTransferData(0, TransferMode.COOLING_PERIOD, DURATION * 2) }, validation: valInfo }
+            ]);
+            let copyId = await collectorClient.collect(copyHash, DURATION);
+            let acquiredAt = await getTimestamp();
+            expect(await collectorClient.getTransferableAt(copyId)).to.eq(BigInt(acquiredAt + DAY * 2));
+
+            expect(await contracts.copy.isTransferable(copyId)).to.eq(false);
+            await expect(contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, copyId))
+                .to.be.revertedWith('Copy: Cooling Period Not Over');
+
+            await increaseTime(DAY * 2);
+            expect(await contracts.copy.isTransferable(copyId)).to.eq(true);
+            await contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, copyId);
+            expect(await contracts.copy.acquiredAt(copyId)).to.eq(await getTimestamp());
+
+            // the cooling period starts over for the new holder
+            await expect(contracts.copy.connect(addr3).transferFrom(addr3.address, addr2.address, copyId))
+                .to.be.revertedWith('Copy: Cooling Period Not Over');
+
+            // a cooling period ending after the expiry never lets the copy be transferred
+            let longId = await collectorClient.collect(longHash, DURATION);
+            expect(await collectorClient.getTransferableAt(longId)).to.eq(undefined);
+        })
+
+        it('Copies of the token holders mode should only be transferred to holders of the required token', async () => {
+            let { copyHashes: [copyHash] } = await creatorClient.publish(CONTENT.contentUri, [{
+                mintInfo: { ...mintInfo, mintInfoAdditional: getEncodedTransferData(0, TransferMode.TOKEN_HOLDERS) },
+                validation: { ...valInfo, requiredERC721Token: contracts.test.mockNFT.address }
+            }]);
+            await contracts.test.mockNFT.connect(addr2).mintToken(CONTENT.contentUri);
+            let copyId = await collectorClient.collect(copyHash, DURATION);
+
+            expect(await contracts.copy.isTransferable(copyId)).to.eq(true);
+            await expect(contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, copyId))
+                .to.be.revertedWith('Copy: Recipient Not Token Holder');
+
+            await contracts.test.mockNFT.connect(addr3).mintToken(CONTENT.contentUri);
+            await contracts.copy.connect(addr2).transferFrom(addr2.address, addr3.address, copyId);
+            expect(await contracts.copy.ownerOf(copyId)).to.eq(addr3.address);
+
+            // expired copies cannot be transferred in any mode
+            await increaseTime(DURATION + 1);
+            await expect(contracts.copy.connect(addr3).transferFrom(addr3.address, addr2.address, copyId))
+                .to.be.revertedWith('Copy: Non-transferable');
+        })
+    })
+})
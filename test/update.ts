@@ -0,0 +1,188 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { BigNumberish } from 'ethers';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    Statement,
+    TransferMode,
+    OrphanPolicy,
+    CopyValidationData,
+    getEncodedTransferData
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+
+import { getAddresses } from '../scripts/deploy';
+import { IContracts } from '../scripts/deploy.type';
+import { Indexer } from '../scripts/indexer';
+import { JsonStore } from '../scripts/indexer/store';
+
+withSnapshot('COPY UPDATE', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DAY = 60 * 60 * 24;
+    const DURATION = DAY * 30;
+    const TAKEDOWN_URI = 'ipfs://bafkreigh2akiscaildcqabsyg3dfr6chu3fgpregiymsck7e7aqa4s52zy';
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    const getTimestamp = async () => (await ethers.provider.getBlock('latest')).timestamp;
+
+    const increaseTime = async (seconds: number) => {
+        await ethers.provider.send('evm_increaseTime', [seconds]);
+        await ethers.provider.send('evm_mine', []);
+    };
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = getRuleMintInfo(contracts, { extendable: false });
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: 0,
+            extendAmount: 0,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 20,
+            start: await getTimestamp() - 1000,
+            time: 99999999999999
+        };
+    });
+
+    describe('function tests', async () => {
+
+        it('Holders should update their copies to a chosen version of the content', async () => {
+            let { creatorId, copyHashes: [copyHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: valInfo }
+            ]);
+            await creatorClient.updateContent(creatorId, 'secondContentUri');
+            await creatorClient.updateContent(creatorId, 'thirdContentUri');
+            let copyId = await collectorClient.collect(copyHash, DURATION);
+
+            expect(await collectorClient.update(copyId, 2)).to.eq('secondContentUri');
+            expect((await collectorClient.getCopy(copyId)).version).to.eq(2);
+            await expect(contracts.copy.connect(addr2)['update(uint256,uint64)'](copyId, 1))
+                .to.emit(contracts.copy, 'UpdateVersion').withArgs(copyId, 1);
+            expect((await contracts.copy.getCopyInfo(copyId)).copyURI).to.eq(CONTENT.contentUri);
+            await expect(collectorClient.update(copyId, 4)).to.be.revertedWith('Copy: Invalid Version');
+            await expect(contracts.copy.connect(addr3)['update(uint256,uint64)'](copyId, 2))
+                .to.be.revertedWith('ERC721: caller is not token owner nor approved');
+
+            // version 0 is the latest content, the only one of creator contracts without versions
+            expect(await collectorClient.update(copyId)).to.eq('thirdContentUri');
+            expect((await collectorClient.getCopy(copyId)).version).to.eq(3);
+            await contracts.test.mockNFT.connect(addr1).mintToken(CONTENT.contentUri);
+            // the copies of creator contracts that do not record the time of the burn cannot be frozen
+            let nftHash = await creatorClient.addRule({
+                ...mintInfo,
+                creatorContract: contracts.test.mockNFT.address,
+                creatorId: 1,
+                mintInfoAdditional: getEncodedTransferData(0, TransferMode.FREE, 0, false, false, OrphanPolicy.EXPIRE)
+            }, valInfo);
+            let nftCopyId = await collectorClient.collect(nftHash, DURATION);
+            await expect(collectorClient.update(nftCopyId, 1)).to.be.revertedWith('Copy: Invalid Version');
+
+            let indexer = new Indexer(ethers.provider, getAddresses(contracts), new JsonStore());
+            await indexer.sync();
+            expect(indexer.getCopyTokenById(copyId)).to.deep.eq(await collectorClient.getCopy(copyId));
+        })
+
+        it('Creator should push mandatory updates to the live copies of pushable rules', async () => {
+            let pushable = { ...mintInfo, updatable: false, mintInfoAdditional: getEncodedTransferData(0, TransferMode.FREE, 0, false, true) };
+            let { creatorId, copyHashes: [pushHash, otherHash, shortHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo: pushable, validation: valInfo },
+                { mintInfo: { ...mintInfo, statement: Statement.COLLECT }, validation: valInfo },
+                { mintInfo: { ...pushable, statement: Statement.MODIFY }, validation: valInfo }
+            ]);
+            expect(await creatorClient.isPushable(pushHash)).to.eq(true);
+            expect(await creatorClient.isPushable(otherHash)).to.eq(false);
+
+            let pushIds = [];
+            for (let i = 0; i < 3; i++) {
+                pushIds.push(await collectorClient.collect(pushHash, DURATION));
+                await collectorClient.collect(otherHash, DURATION);
+            }
+            let expiredId = await collectorClient.collect(shortHash, DAY);
+            await creatorClient.updateContent(creatorId, TAKEDOWN_URI);
+            await increaseTime(DAY + 1);
+
+            await expect(collectorClient.pushUpdate(pushHash)).to.be.revertedWith('Copy: caller is not creator nor approved');
+            await expect(creatorClient.pushUpdate(otherHash)).to.be.revertedWith('Copy: Non-pushable');
+            await expect(contracts.copy.connect(addr1).pushUpdate(pushHash, 0, 1, 101)).to.be.revertedWith('Copy: Batch Too Large');
+
+            // each page of the job is a bounded batch on the Copy contract
+            let { updated, skipped } = await creatorClient.pushUpdate(pushHash, 0, 2);
+            expect(updated).to.have.members(pushIds);
+            expect(skipped).to.deep.eq([]);
+            for (let copyId of pushIds) {
+                let copy = await collectorClient.getCopy(copyId);
+                expect(copy.version).to.eq(2);
+                expect((await contracts.copy.getCopyInfo(copyId)).copyURI).to.eq(TAKEDOWN_URI);
+            }
+            expect(await creatorClient.pushUpdate(shortHash, 1)).to.deep.eq({ updated: [], skipped: [] });
+            expect((await contracts.copy.getCopyInfo(expiredId)).version).to.eq(1);
+
+            let count = await contracts.copy['getCopyCount(uint256)'](creatorId);
+            await expect(contracts.copy.connect(addr1).pushUpdate(pushHash, 1, 5, 100))
+                .to.emit(contracts.copy, 'PushUpdate').withArgs(pushHash, 1, 5, count.add(1));
+
+            let indexer = new Indexer(ethers.provider, getAddresses(contracts), new JsonStore());
+            await indexer.sync();
+            for (let copyId of pushIds) {
+                expect(indexer.getCopyTokenById(copyId)).to.deep.eq(await collectorClient.getCopy(copyId));
+            }
+        })
+
+        it('Pushes should not miss the copies moved by burns between their pages', async () => {
+            let pushable = { ...mintInfo, updatable: false, mintInfoAdditional: getEncodedTransferData(0, TransferMode.FREE, 0, false, true) };
+            let { creatorId, copyHashes: [pushHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo: pushable, validation: valInfo }
+            ]);
+            await creatorClient.updateContent(creatorId, TAKEDOWN_URI);
+            let copyIds: bigint[] = [];
+            for (let i = 0; i < 4; i++) {
+                copyIds.push(await collectorClient.collect(pushHash, DURATION));
+            }
+            let [first, second, third, last] = copyIds;
+            let minted: bigint | undefined;
+
+            // once the last page is pushed, the first and the third copies are burned and a copy is minted
+            class BurningClient extends ERC721CopyClient {
+                private pages = 0;
+
+                async getCopiesByCreator(creatorId: BigNumberish, skip: number, limit: number, creatorContract?: string) {
+                    if (this.pages++ == 1) {
+                        await collectorClient.destroy(first);
+                        minted = await collectorClient.collect(pushHash, DURATION);
+                        await collectorClient.destroy(third);
+                    }
+                    return super.getCopiesByCreator(creatorId, skip, limit, creatorContract);
+                }
+            }
+
+            // the last copy is moved to the index of the first one, and the minted copy to the index of the third one
+            let { updated, skipped } = await new BurningClient(addr1, getAddresses(contracts)).pushUpdate(pushHash, 1, 2);
+            expect(updated).to.have.members([second, third, last]);
+            expect(skipped).to.deep.eq([minted]);
+            for (let copyId of [second, last]) {
+                expect((await collectorClient.getCopy(copyId)).version).to.eq(1);
+            }
+            expect((await collectorClient.getCopy(minted!)).version).to.eq(2);
+        })
+    })
+})
@@ -0,0 +1,145 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    TransferMode,
+    OrphanPolicy,
+    CopyValidationData,
+    getEncodedTransferData
+} from '../utils';
+import { ERC721CopyClient } from '../utils/client';
+import { EMPTY_CONTENT_HASH, hashContent, hashFile, verifyFile } from '../utils/content';
+
+import { getAddresses } from '../scripts/deploy';
+import { IContracts } from '../scripts/deploy.type';
+import { Indexer } from '../scripts/indexer';
+import { JsonStore } from '../scripts/indexer/store';
+
+withSnapshot('CONTENT VERSION', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DURATION = 60 * 60 * 24 * 30;
+    const FIRST_CONTENT = 'first version of the content';
+    const SECOND_CONTENT = 'second version of the content';
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    const getTimestamp = async () => (await ethers.provider.getBlock('latest')).timestamp;
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = getRuleMintInfo(contracts, { extendable: false });
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: 0,
+            extendAmount: 0,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: await getTimestamp() - 1000,
+            time: 99999999999999
+        };
+    });
+
+    describe('function tests', async () => {
+
+        it('Creator should keep every version of the content with its hash', async () => {
+            let { creatorId } = await creatorClient.publish(CONTENT.contentUri, [], undefined, hashContent(FIRST_CONTENT));
+            let publishedAt = BigInt(await getTimestamp());
+            expect(await creatorClient.updateContent(creatorId, 'secondContentUri', hashContent(SECOND_CONTENT))).to.eq(2);
+            expect(await creatorClient.updateContent(creatorId, 'thirdContentUri')).to.eq(3);
+
+            let versions = await creatorClient.getVersions(creatorId);
+            expect(versions.map((version) => version.version)).to.deep.eq([1, 2, 3]);
+            expect(versions[0]).to.deep.eq({
+                version: 1,
+                contentUri: CONTENT.contentUri,
+                contentHash: hashContent(FIRST_CONTENT),
+                timestamp: publishedAt
+            });
+            expect(versions[2].contentHash).to.eq(EMPTY_CONTENT_HASH);
+            expect(await contracts.creator.getVersionCount(creatorId)).to.eq(3);
+            expect(await contracts.creator.versionURI(creatorId, 2)).to.eq('secondContentUri');
+            expect(await contracts.creator.tokenURI(creatorId)).to.eq('thirdContentUri');
+            await expect(contracts.creator.getVersion(creatorId, 0)).to.be.revertedWith('Invalid Version');
+            await expect(contracts.creator.getVersion(creatorId, 4)).to.be.revertedWith('Invalid Version');
+        })
+
+        it('Copies should record the version they were minted or updated against', async () => {
+            let { creatorId, copyHashes: [copyHash] } = await creatorClient.publish(CONTENT.contentUri, [
+                { mintInfo, validation: valInfo }
+            ], undefined, hashContent(FIRST_CONTENT));
+            let copyId = await collectorClient.collect(copyHash, DURATION);
+            expect((await contracts.copy.getCopyInfo(copyId)).version).to.eq(1);
+
+            await creatorClient.updateContent(creatorId, 'secondContentUri', hashContent(SECOND_CONTENT));
+            let laterId = await collectorClient.collect(copyHash, DURATION);
+            expect((await collectorClient.getCopy(laterId)).version).to.eq(2);
+
+            // the copy keeps its version until the holder updates it
+            expect((await collectorClient.getCopy(copyId)).version).to.eq(1);
+            await collectorClient.update(copyId);
+            let copy = await collectorClient.getCopy(copyId);
+            expect(copy.version).to.eq(2);
+            expect((await contracts.copy.getCopyInfo(copyId)).copyURI).to.eq('secondContentUri');
+
+            // copies of creator contracts without versions are at version 0
+            await contracts.test.mockNFT.connect(addr1).mintToken(CONTENT.contentUri);
+            // the copies of creator contracts that do not record the time of the burn cannot be frozen
+            let nftHash = await creatorClient.addRule({
+                ...mintInfo,
+                creatorContract: contracts.test.mockNFT.address,
+                creatorId: 1,
+                mintInfoAdditional: getEncodedTransferData(0, TransferMode.FREE, 0, false, false, OrphanPolicy.EXPIRE)
+            }, valInfo);
+            let nftCopyId = await collectorClient.collect(nftHash, DURATION);
+            expect((await collectorClient.getCopy(nftCopyId)).version).to.eq(0);
+
+            let indexer = new Indexer(ethers.provider, getAddresses(contracts), new JsonStore());
+            await indexer.sync();
+            for (let id of [copyId, laterId, nftCopyId]) {
+                expect(indexer.getCopyTokenById(id)).to.deep.eq(await collectorClient.getCopy(id));
+            }
+            expect(indexer.state.creators.get(creatorId.toString())!.version).to.eq(2);
+        })
+
+        it('Downloaded files should be verified against the hash of their version', async () => {
+            let file = path.join(os.tmpdir(), `content-${Date.now()}.txt`);
+            fs.writeFileSync(file, FIRST_CONTENT);
+            try {
+                expect(hashFile(file)).to.eq(hashContent(FIRST_CONTENT));
+                let { creatorId } = await creatorClient.publish(CONTENT.contentUri, [], undefined, hashFile(file));
+                await creatorClient.updateContent(creatorId, 'secondContentUri');
+
+                let { contentHash } = await collectorClient.getVersion(creatorId, 1);
+                expect(verifyFile(file, contentHash)).to.eq(true);
+                expect(await collectorClient.verifyVersion(creatorId, 1, fs.readFileSync(file))).to.eq(true);
+                expect(await collectorClient.verifyVersion(creatorId, 1, SECOND_CONTENT)).to.eq(false);
+
+                // a version published without a hash cannot be verified
+                expect(await collectorClient.verifyVersion(creatorId, 2, FIRST_CONTENT)).to.eq(false);
+            } finally {
+                fs.unlinkSync(file);
+            }
+        })
+    })
+})
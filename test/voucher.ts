@@ -0,0 +1,190 @@
+import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
+import { ethers } from 'hardhat';
+import { expect } from 'chai';
+import { CONTENT, ZERO_ADDRESS } from '../utils/constants';
+import { withSnapshot } from '../utils/helper';
+import { deployFixture, getRuleMintInfo, RuleMintInfo } from './fixture';
+
+import {
+    getNow,
+    CopyValidationData
+} from '../utils';
+import {
+    decodeVoucherData,
+    getEncodedVoucherData,
+    getVoucherDomain,
+    recoverVoucherSigner,
+    signVoucher,
+    verifyVoucher
+} from '../utils/voucher';
+import { ERC721CopyClient } from '../utils/client';
+
+import { getAddresses } from '../scripts/deploy';
+import { IContracts } from '../scripts/deploy.type';
+
+withSnapshot('VOUCHER MINTABLE Contract', () => {
+
+    let owner: SignerWithAddress;
+    let addr1: SignerWithAddress;
+    let addr2: SignerWithAddress;
+    let addr3: SignerWithAddress;
+    let addrs: SignerWithAddress[];
+
+    let contracts: IContracts;
+    let creatorClient: ERC721CopyClient;
+    let collectorClient: ERC721CopyClient;
+
+    const DAY = 60 * 60 * 24;
+    const DURATION = DAY * 30;
+    const PRICE = ethers.utils.parseEther('0.0001');
+
+    let mintInfo: RuleMintInfo;
+    let valInfo: CopyValidationData;
+
+    before(async function () {
+        ({ signers: [owner, addr1, addr2, addr3, ...addrs], contracts, creatorClient, collectorClient } = await deployFixture());
+
+        mintInfo = getRuleMintInfo(contracts, { mintable: contracts.voucherMintable.address, updatable: false });
+
+        valInfo = {
+            feeToken: ZERO_ADDRESS,
+            duration: DURATION,
+            fragmented: false,
+            mintAmount: PRICE.mul(10),
+            extendAmount: PRICE,
+            requiredERC721Token: ZERO_ADDRESS,
+            limit: 10,
+            start: getNow() - 1000,
+            time: 99999999999999
+        };
+    });
+
+    describe('voucher utility tests', async () => {
+
+        it('Vouchers should be signed and verified off-chain', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let signed = await signVoucher(addr1, contracts.voucherMintable, {
+                copyHash: copyHashes[0],
+                recipient: addr2.address,
+                duration: DURATION,
+                price: PRICE,
+                validFor: DAY * 7
+            });
+
+            expect(recoverVoucherSigner(await getVoucherDomain(contracts.voucherMintable), signed)).to.eq(addr1.address);
+            expect(await verifyVoucher(contracts.voucherMintable, contracts.copy, signed)).to.deep.eq({
+                signer: addr1.address,
+                valid: true
+            });
+
+            let mintData = getEncodedVoucherData(signed);
+            let decoded = decodeVoucherData(mintData, copyHashes[0], addr2.address, DURATION);
+            expect(decoded.signature).to.eq(signed.signature);
+            expect(decoded.voucher.nonce.toString()).to.eq(signed.voucher.nonce.toString());
+
+            // signed by someone other than the creator
+            let forged = await signVoucher(addr2, contracts.voucherMintable, { copyHash: copyHashes[0], duration: DURATION, validFor: DAY });
+            expect((await verifyVoucher(contracts.voucherMintable, contracts.copy, forged)).reason).to.eq('VoucherMintable: Invalid Signature');
+        })
+    })
+
+    describe('function tests', async () => {
+
+        it('Collectors should be able to mint copies with a voucher at its price', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let copyHash = copyHashes[0];
+
+            await expect(collectorClient.collect(copyHash, DURATION)).to.be.revertedWith('VoucherMintable: Voucher Required');
+
+            let signed = await signVoucher(addr1, contracts.voucherMintable, {
+                copyHash,
+                recipient: addr2.address,
+                duration: DURATION,
+                price: PRICE,
+                validFor: DAY * 7
+            });
+
+            // the voucher is bound to its recipient and duration
+            await expect(collectorClient.collect(copyHash, DURATION, addr3.address, getEncodedVoucherData(signed)))
+                .to.be.revertedWith('VoucherMintable: Invalid Signature');
+            await expect(collectorClient.collect(copyHash, DURATION / 2, undefined, getEncodedVoucherData(signed)))
+                .to.be.revertedWith('VoucherMintable: Invalid Signature');
+
+            let tx = contracts.copy.connect(addr2)['create(address,bytes32,uint64,bytes)'](
+                addr2.address, copyHash, DURATION, getEncodedVoucherData(signed), { value: PRICE }
+            );
+            await expect(tx).to.emit(contracts.voucherMintable, 'RedeemVoucher')
+                .withArgs(addr1.address, signed.voucher.nonce, copyHash, addr2.address);
+            expect(await contracts.voucherMintable.getBalance(addr1.address, ZERO_ADDRESS)).to.eq(PRICE);
+
+            // free vouchers for anyone
+            let free = await signVoucher(addr1, contracts.voucherMintable, { copyHash, duration: DURATION, validFor: DAY * 7 });
+            let copyId = await new ERC721CopyClient(addr3, getAddresses(contracts)).collect(
+                copyHash, DURATION, undefined, getEncodedVoucherData(free)
+            );
+            expect(await contracts.copy.ownerOf(copyId)).to.eq(addr3.address);
+            expect(await contracts.voucherMintable.getMintCount(copyHash)).to.eq(2);
+
+            // copies are extended with the extendAmount of the rule
+            await contracts.copy.connect(addr3)['extend(uint256,uint64)'](copyId, DURATION, { value: PRICE });
+            expect(await contracts.voucherMintable.getBalance(addr1.address, ZERO_ADDRESS)).to.eq(PRICE.mul(2));
+        })
+
+        it('Vouchers should not be replayed', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let signed = await signVoucher(addr1, contracts.voucherMintable, { copyHash: copyHashes[0], duration: DURATION, validFor: DAY * 7 });
+
+            await collectorClient.collect(copyHashes[0], DURATION, undefined, getEncodedVoucherData(signed));
+            expect(await contracts.voucherMintable.isNonceUsed(addr1.address, signed.voucher.nonce)).to.eq(true);
+            expect((await verifyVoucher(contracts.voucherMintable, contracts.copy, signed)).reason).to.eq('VoucherMintable: Voucher Used');
+            await expect(collectorClient.collect(copyHashes[0], DURATION, undefined, getEncodedVoucherData(signed)))
+                .to.be.revertedWith('VoucherMintable: Voucher Used');
+
+            // cancelled vouchers cannot be redeemed
+            let cancelled = await signVoucher(addr1, contracts.voucherMintable, { copyHash: copyHashes[0], duration: DURATION, validFor: DAY * 7 });
+            await expect(contracts.voucherMintable.connect(addr1).cancelVoucher(cancelled.voucher.nonce))
+                .to.emit(contracts.voucherMintable, 'CancelVoucher').withArgs(addr1.address, cancelled.voucher.nonce);
+            await expect(collectorClient.collect(copyHashes[0], DURATION, undefined, getEncodedVoucherData(cancelled)))
+                .to.be.revertedWith('VoucherMintable: Voucher Used');
+
+            // the rule still bounds the vouchers
+            let limited = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: { ...valInfo, limit: 1 } }]);
+            let first = await signVoucher(addr1, contracts.voucherMintable, { copyHash: limited.copyHashes[0], duration: DURATION, validFor: DAY * 7 });
+            let second = await signVoucher(addr1, contracts.voucherMintable, { copyHash: limited.copyHashes[0], duration: DURATION, validFor: DAY * 7 });
+            await collectorClient.collect(limited.copyHashes[0], DURATION, undefined, getEncodedVoucherData(first));
+            await expect(collectorClient.collect(limited.copyHashes[0], DURATION, undefined, getEncodedVoucherData(second)))
+                .to.be.revertedWith('Mintable: Minting Limit Reached');
+        })
+
+        it('Vouchers should not be redeemed after their expiry', async () => {
+            let { copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let signed = await signVoucher(addr1, contracts.voucherMintable, { copyHash: copyHashes[0], duration: DURATION, validFor: DAY });
+
+            await ethers.provider.send('evm_increaseTime', [DAY * 2]);
+            await ethers.provider.send('evm_mine', []);
+
+            expect((await verifyVoucher(contracts.voucherMintable, contracts.copy, signed)).reason).to.eq('VoucherMintable: Voucher Expired');
+            await expect(collectorClient.collect(copyHashes[0], DURATION, undefined, getEncodedVoucherData(signed)))
+                .to.be.revertedWith('VoucherMintable: Voucher Expired');
+        })
+
+        it('Transferring the creator token should invalidate the vouchers of the previous holder', async () => {
+            let { creatorId, copyHashes } = await creatorClient.publish(CONTENT.contentUri, [{ mintInfo, validation: valInfo }]);
+            let signed = await signVoucher(addr1, contracts.voucherMintable, { copyHash: copyHashes[0], duration: DURATION, validFor: DAY * 7 });
+
+            await contracts.creator.connect(addr1).transferFrom(addr1.address, addr3.address, creatorId);
+
+            expect(await verifyVoucher(contracts.voucherMintable, contracts.copy, signed)).to.deep.eq({
+                signer: addr1.address,
+                valid: false,
+                reason: 'VoucherMintable: Invalid Signature'
+            });
+            await expect(collectorClient.collect(copyHashes[0], DURATION, undefined, getEncodedVoucherData(signed)))
+                .to.be.revertedWith('VoucherMintable: Invalid Signature');
+
+            // the new holder signs its own vouchers
+            let renewed = await signVoucher(addr3, contracts.voucherMintable, { copyHash: copyHashes[0], duration: DURATION, validFor: DAY * 7 });
+            await collectorClient.collect(copyHashes[0], DURATION, undefined, getEncodedVoucherData(renewed));
+        })
+    })
+})
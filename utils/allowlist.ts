@@ -0,0 +1,139 @@
+import fs from 'fs';
+import path from 'path';
+import { BigNumberish, ethers } from 'ethers';
+import { CopyValidationTuple, VALIDATION_INFO_TYPE } from '.';
+
+export interface AllowlistEntry {
+  address: string;
+  // the number of copies the address can mint, 0 for no cap
+  cap: bigint;
+}
+
+export interface AllowlistProof {
+  cap: bigint;
+  proof: string[];
+}
+
+const hashPair = (a: string, b: string): string => {
+  return ethers.utils.keccak256(ethers.utils.concat(a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a]));
+};
+
+const toEntry = (address: string, cap: BigNumberish = 0): AllowlistEntry => {
+  if (!ethers.utils.isAddress(address)) {
+    throw new Error(`Allowlist: Invalid Address ${address}`);
+  }
+  return { address: ethers.utils.getAddress(address), cap: BigInt(cap.toString()) };
+};
+
+/**
+ * @notice Parses an allowlist with one `address[,cap]` per line. Empty lines, lines starting with # and a
+ * header line are skipped
+ */
+export const parseAllowlistCsv = (content: string): AllowlistEntry[] => {
+  return content
+    .split(/\r?\n/)
+    .map((line) => line.trim())
+    .filter((line, index) => line != '' && !line.startsWith('#') && !(index == 0 && /^address\b/i.test(line)))
+    .map((line) => {
+      const [address, cap] = line.split(',').map((cell) => cell.trim());
+      return toEntry(address, cap || 0);
+    });
+};
+
+/**
+ * @notice Parses an allowlist given as a JSON array of addresses, or of `{ address, cap }` objects
+ */
+export const parseAllowlistJson = (content: string): AllowlistEntry[] => {
+  const list: (string | { address: string, cap?: BigNumberish })[] = JSON.parse(content);
+  return list.map((item) => typeof item == 'string' ? toEntry(item) : toEntry(item.address, item.cap));
+};
+
+export const loadAllowlist = (file: string): AllowlistEntry[] => {
+  const content = fs.readFileSync(file).toString();
+  return path.extname(file).toLowerCase() == '.json' ? parseAllowlistJson(content) : parseAllowlistCsv(content);
+};
+
+/**
+ * @notice The leaf of an allowlist entry, as computed by the AllowlistMintable contract
+ */
+export const getAllowlistLeaf = (entry: AllowlistEntry): string => {
+  return ethers.utils.keccak256(
+    ethers.utils.keccak256(ethers.utils.defaultAbiCoder.encode(['address', 'uint256'], [entry.address, entry.cap]))
+  );
+};
+
+/**
+ * @notice The rule data of the AllowlistMintable contract, the validation info followed by the merkle root
+ */
+export const getEncodedAllowlistData = (validationInfo: CopyValidationTuple, merkleRoot: string): string => {
+  return ethers.utils.defaultAbiCoder.encode([VALIDATION_INFO_TYPE, 'bytes32'], [validationInfo, merkleRoot]);
+};
+
+/**
+ * @notice The mint data supplied to {Copy-create} for an allowlist rule
+ */
+export const getEncodedAllowlistProof = (proof: AllowlistProof): string => {
+  return ethers.utils.defaultAbiCoder.encode(['uint256', 'bytes32[]'], [proof.cap, proof.proof]);
+};
+
+/**
+ * @notice A merkle tree of an allowlist with sorted pairs, compatible with the OpenZeppelin MerkleProof library
+ */
+export class AllowlistTree {
+  readonly entries: Map<string, AllowlistEntry>;
+  readonly layers: string[][];
+
+  constructor(entries: AllowlistEntry[]) {
+    if (entries.length == 0) {
+      throw new Error('Allowlist: Empty List');
+    }
+    this.entries = new Map();
+    for (const entry of entries) {
+      const normalized = toEntry(entry.address, entry.cap);
+      if (this.entries.has(normalized.address)) {
+        throw new Error(`Allowlist: Duplicate Address ${normalized.address}`);
+      }
+      this.entries.set(normalized.address, normalized);
+    }
+
+    const leaves = [...this.entries.values()].map(getAllowlistLeaf).sort();
+    this.layers = [leaves];
+    while (this.layers[this.layers.length - 1].length > 1) {
+      const layer = this.layers[this.layers.length - 1];
+      const next: string[] = [];
+      for (let i = 0; i < layer.length; i += 2) {
+        // the last node of an odd layer is moved up as is
+        next.push(i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]);
+      }
+      this.layers.push(next);
+    }
+  }
+
+  static fromFile(file: string): AllowlistTree {
+    return new AllowlistTree(loadAllowlist(file));
+  }
+
+  get root(): string {
+    return this.layers[this.layers.length - 1][0];
+  }
+
+  getProof(address: string): AllowlistProof {
+    const entry = this.entries.get(ethers.utils.getAddress(address));
+    if (entry === undefined) {
+      throw new Error(`Allowlist: Address Not Listed ${address}`);
+    }
+
+    const proof: string[] = [];
+    let index = this.layers[0].indexOf(getAllowlistLeaf(entry));
+    for (const layer of this.layers.slice(0, -1)) {
+      const sibling = index % 2 == 0 ? index + 1 : index - 1;
+      if (sibling < layer.length) proof.push(layer[sibling]);
+      index = Math.floor(index / 2);
+    }
+    return { cap: entry.cap, proof };
+  }
+
+  getMintData(address: string): string {
+    return getEncodedAllowlistProof(this.getProof(address));
+  }
+}
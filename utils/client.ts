@@ -0,0 +1,908 @@
+import { BigNumber, BigNumberish, BytesLike, ContractReceipt, Signer } from 'ethers';
+import { TypedDataSigner } from '@ethersproject/abstract-signer';
+import {
+  Copy,
+  Copy__factory,
+  Creator,
+  Creator__factory,
+  ERC20__factory,
+  ERC20Permit__factory,
+  Forwarder,
+  Forwarder__factory,
+  Helper,
+  Helper__factory,
+  Mintable,
+  Mintable__factory
+} from '../typechain-types';
+import {
+  CopyPaginationViewStructOutput,
+  CopyViewStructOutput,
+  CreatorFullViewStructOutput,
+  CreatorPaginationViewStructOutput,
+  CreatorViewStructOutput,
+  MintableViewStructOutput,
+  MintInfoStructOutput,
+  PaginationMetaViewStructOutput,
+  RevocationStructOutput,
+  ValidationInfoStructOutput
+} from '../typechain-types/Helper';
+import { VersionStructOutput } from '../typechain-types/Creator';
+
+import { IContractAddresses } from '../scripts/deploy.type';
+import { CONTENT, ZERO_ADDRESS } from './constants';
+import {
+  CopyMintData,
+  CopyValidationData,
+  getCopyValidationData,
+  getEncodedValidationData,
+  getPermSig,
+  RuleState,
+  TransferMode
+} from '.';
+import {
+  ClaimableBalance,
+  ContentVersion,
+  CopyPaginationView,
+  CopyView,
+  CreatorFullView,
+  CreatorPaginationView,
+  CreatorView,
+  MintableView,
+  MintInfo,
+  OrphanRule,
+  PaginationMetaView,
+  Rental,
+  Revocation,
+  RevokeOptions,
+  RoyaltyInfo,
+  RuleVersion,
+  Subscription,
+  TransferRule,
+  ValidationInfo
+} from './client.type';
+import { Coauthor, CoauthorPayload } from './coauthors';
+import { SignedForwardRequest, signFeePermit, signForwardRequest } from './forwarder';
+import { CopyMetadata, decodeTokenURI } from './metadata';
+import { EMPTY_CONTENT_HASH, verifyContent } from './content';
+import { getMintQuote } from './pricing';
+
+// default validity of the copyright signature used by publish, in seconds
+const PERM_SIG_OFFSET = 60 * 60;
+// copy indexes walked by each transaction of pushUpdate
+const PUSH_PAGE_SIZE = 50;
+// Helper.createWithMintables declaring the content hash of the creator token
+const CREATE_WITH_MINTABLES =
+  'createWithMintables(address,string,bytes32,(uint256,uint8,bytes32,bytes32),(address,uint8,bool,bool,bool,bool,address,uint256,bytes)[],bytes[])';
+
+export interface MintableRuleInput {
+  mintInfo: Omit<CopyMintData, 'creatorId'>;
+  validation: CopyValidationData;
+  // the rule data for mintables other than Mintable, such as {getEncodedAllowlistData}. Defaults to the validation
+  ruleData?: BytesLike;
+}
+
+export interface CollectInput {
+  copyHash: string;
+  duration: BigNumberish;
+  // the data required by the mintable rule, such as {AllowlistTree-getMintData}
+  mintData?: BytesLike;
+}
+
+export interface PushUpdateResult {
+  updated: bigint[];
+  // the live copies of the rule left at another version, minted during the push and moved to walked indexes by burns
+  skipped: bigint[];
+}
+
+export const decodeMintInfo = (raw: MintInfoStructOutput): MintInfo => ({
+  mintable: raw.mintable,
+  statement: raw.statement,
+  transferable: raw.transferable,
+  updatable: raw.updatable,
+  revokable: raw.revokable,
+  extendable: raw.extendable,
+  creatorContract: raw.creatorContract,
+  creatorId: raw.creatorId.toBigInt(),
+  mintInfoAdditional: raw.mintInfoAdditional
+});
+
+export const decodeValidationInfo = (raw: ValidationInfoStructOutput): ValidationInfo => ({
+  feeToken: raw.feeToken,
+  duration: raw.duration.toBigInt(),
+  fragmented: raw.fragmented,
+  mintAmount: raw.mintAmount.toBigInt(),
+  extendAmount: raw.extendAmount.toBigInt(),
+  requiredERC721Token: raw.requiredERC721Token,
+  limit: raw.limit.toBigInt(),
+  start: raw.start.toBigInt(),
+  time: raw.time.toBigInt(),
+  maxValidity: raw.maxValidity.toBigInt(),
+  extendWindow: raw.extendWindow.toBigInt(),
+  extendRequiresToken: raw.extendRequiresToken,
+  guarded: raw.guarded
+});
+
+export const decodeCreatorView = (raw: CreatorViewStructOutput): CreatorView => ({
+  creatorContract: raw.creatorContract,
+  creatorId: raw.creatorId.toBigInt(),
+  holder: raw.holder,
+  tokenURI: raw.tokenURI,
+  copies: raw.copies.toNumber(),
+  rules: raw.rules.toNumber()
+});
+
+export const decodeMintableView = (raw: MintableViewStructOutput): MintableView => ({
+  mintInfo: decodeMintInfo(raw.mintInfo),
+  valInfo: decodeValidationInfo(raw.valInfo),
+  count: raw.count.toNumber(),
+  copyHash: raw.copyHash,
+  state: raw.state
+});
+
+export const decodeCopyView = (raw: CopyViewStructOutput): CopyView => ({
+  copyId: raw.copyId.toBigInt(),
+  creatorId: raw.creatorId.toBigInt(),
+  holder: raw.holder,
+  tokenURI: raw.tokenURI,
+  expireAt: raw.expireAt.toBigInt(),
+  version: raw.version.toNumber(),
+  mintable: decodeMintableView(raw.mintable),
+  revocation: raw.revocation.effectiveAt.isZero() ? undefined : decodeRevocation(raw.revocation)
+});
+
+export const decodeVersion = (raw: VersionStructOutput, version: number): ContentVersion => ({
+  version,
+  contentUri: raw.contentUri,
+  contentHash: raw.contentHash,
+  timestamp: raw.timestamp.toBigInt()
+});
+
+export const decodeRevocation = (raw: RevocationStructOutput): Revocation => ({
+  effectiveAt: raw.effectiveAt.toBigInt(),
+  refund: raw.refund,
+  reason: raw.reason,
+  reasonURI: raw.reasonURI
+});
+
+export const decodePaginationMeta = (raw: PaginationMetaViewStructOutput): PaginationMetaView => ({
+  offset: raw.offset.toNumber(),
+  limit: raw.limit.toNumber(),
+  count: raw.count.toNumber()
+});
+
+export const decodeCreatorFullView = (raw: CreatorFullViewStructOutput): CreatorFullView => ({
+  creation: decodeCreatorView(raw.creation),
+  mintable: raw.mintable.map(decodeMintableView)
+});
+
+export const decodeCreatorPaginationView = (raw: CreatorPaginationViewStructOutput): CreatorPaginationView => ({
+  creators: raw.creators.map(decodeCreatorView),
+  meta: decodePaginationMeta(raw.meta)
+});
+
+export const decodeCopyPaginationView = (raw: CopyPaginationViewStructOutput): CopyPaginationView => ({
+  copies: raw.copies.map(decodeCopyView),
+  meta: decodePaginationMeta(raw.meta)
+});
+
+/**
+ * @notice Computes the fee charged by the Mintable contract for a mint or an extension of the given duration
+ */
+export const getFee = (valInfo: ValidationInfo, amount: bigint, duration: BigNumberish): bigint => {
+  if (amount == 0n) return 0n;
+  return valInfo.fragmented ? BigInt(duration.toString()) * amount / valInfo.duration : amount;
+};
+
+/**
+ * @notice A typed client wrapping the Creator, Copy, Mintable and Helper contracts. Write methods wait for
+ * the transaction to be mined and return the ids parsed from the emitted events.
+ */
+export class ERC721CopyClient {
+  readonly signer: Signer & TypedDataSigner;
+  readonly creator: Creator;
+  readonly copy: Copy;
+  readonly mintable: Mintable;
+  readonly helper: Helper;
+  readonly forwarder: Forwarder;
+
+  constructor(signer: Signer & TypedDataSigner, addresses: IContractAddresses) {
+    this.signer = signer;
+    this.creator = Creator__factory.connect(addresses.creator, signer);
+    this.copy = Copy__factory.connect(addresses.copy, signer);
+    this.mintable = Mintable__factory.connect(addresses.mintable, signer);
+    this.helper = Helper__factory.connect(addresses.helper, signer);
+    this.forwarder = Forwarder__factory.connect(addresses.forwarder, signer);
+  }
+
+  /**
+   * @notice Mints a creator token for the signer and sets up the given mintable rules in one transaction
+   *
+   * @return the creatorId and the copyHashes of the rules
+   */
+  async publish(
+    contentUri: string,
+    rules: MintableRuleInput[] = [],
+    sigOffset: number = PERM_SIG_OFFSET,
+    contentHash: string = EMPTY_CONTENT_HASH
+  ): Promise<{ creatorId: bigint, copyHashes: string[] }> {
+    const to = await this.signer.getAddress();
+    const permSig = await getPermSig(this.signer, this.creator, contentUri, CONTENT.copyright, sigOffset, undefined, contentHash);
+    const tx = await this.helper[CREATE_WITH_MINTABLES](
+      to,
+      contentUri,
+      contentHash,
+      permSig,
+      rules.map((rule) => this._toMintInfo({ ...rule.mintInfo, creatorId: 0 })),
+      rules.map((rule) => rule.ruleData ?? getEncodedValidationData(getCopyValidationData(rule.validation)))
+    );
+    const receipt = await tx.wait();
+    const [publish] = this._parseLogs(receipt, this.creator, 'Publish');
+    return {
+      creatorId: publish.args.pubId.toBigInt(),
+      copyHashes: this._parseLogs(receipt, this.copy, 'SetMintableRule').map((log) => log.args.copyHash)
+    };
+  }
+
+  /**
+   * @notice Mints a co-authored creator token once every co-author has signed the payload, see {CoauthorPayload}.
+   * The signer only sends the transaction, the creator token goes to the holder of the statement
+   *
+   * @return the creatorId
+   */
+  async publishWithCoauthors(payload: CoauthorPayload): Promise<bigint> {
+    const tx = await this.creator.createWithCoauthors(...payload.assemble());
+    const [publish] = this._parseLogs(await tx.wait(), this.creator, 'Publish');
+    return publish.args.pubId.toBigInt();
+  }
+
+  /**
+   * @notice Adds a version of the content of a creator token held by the signer, see {hashContent}
+   *
+   * @return the new version number
+   */
+  async updateContent(
+    creatorId: BigNumberish,
+    contentUri: string,
+    contentHash: string = EMPTY_CONTENT_HASH
+  ): Promise<number> {
+    const permSig = await getPermSig(
+      this.signer, this.creator, contentUri, CONTENT.copyright, PERM_SIG_OFFSET, undefined, contentHash
+    );
+    const tx = await this.creator['update(uint256,string,bytes32,(uint256,uint8,bytes32,bytes32))'](
+      creatorId, contentUri, contentHash, permSig
+    );
+    const [log] = this._parseLogs(await tx.wait(), this.creator, 'AddVersion');
+    return log.args.version.toNumber();
+  }
+
+  /**
+   * @notice Sets up, or re-configures, a mintable rule for a creator token held or approved by the signer
+   *
+   * @return the copyHash of the rule
+   */
+  async addRule(mintInfo: CopyMintData, validation: CopyValidationData, ruleData?: BytesLike): Promise<string> {
+    const tx = await this.copy.setMintableRule(
+      this._toMintInfo(mintInfo),
+      ruleData ?? getEncodedValidationData(getCopyValidationData(validation))
+    );
+    const [log] = this._parseLogs(await tx.wait(), this.copy, 'SetMintableRule');
+    return log.args.copyHash;
+  }
+
+  async pauseRule(copyHash: string): Promise<void> {
+    await (await this.copy.pauseMintableRule(copyHash)).wait();
+  }
+
+  async resumeRule(copyHash: string): Promise<void> {
+    await (await this.copy.resumeMintableRule(copyHash)).wait();
+  }
+
+  /**
+   * @notice Closes a rule permanently, no more copies can be minted with it
+   */
+  async closeRule(copyHash: string): Promise<void> {
+    await (await this.copy.closeMintableRule(copyHash)).wait();
+  }
+
+  /**
+   * @notice Sets the royalty of the copies whose rule does not encode its own royalty, see {getEncodedRoyaltyData}
+   */
+  async setCreatorRoyalty(
+    creatorId: BigNumberish,
+    royaltyBps: BigNumberish,
+    creatorContract: string = this.creator.address
+  ): Promise<void> {
+    await (await this.copy['setCreatorRoyalty(address,uint256,uint96)'](creatorContract, creatorId, royaltyBps)).wait();
+  }
+
+  /**
+   * @notice Mints a copy. The fee is attached as msg.value for native tokens, or approved to the Mintable
+   * contract of the rule beforehand for ERC20 fee tokens
+   *
+   * @param mintData the data required by the mintable rule, if any
+   * @return the tokenId of the copy
+   */
+  async collect(copyHash: string, duration: BigNumberish, to?: string, mintData?: BytesLike): Promise<bigint> {
+    const recipient = to ?? await this.signer.getAddress();
+    const mintable = await this._getRuleMintable(copyHash);
+    const valInfo = decodeValidationInfo(await mintable.getValidationInfo(copyHash));
+    const fee = await getMintQuote(mintable, copyHash, duration);
+    const value = await this._payFee(mintable.address, valInfo.feeToken, fee);
+    const tx = mintData === undefined
+      ? await this.copy['create(address,bytes32,uint64)'](recipient, copyHash, duration, { value })
+      : await this.copy['create(address,bytes32,uint64,bytes)'](recipient, copyHash, duration, mintData, { value });
+    const [log] = this._parseLogs(await tx.wait(), this.copy, 'Create');
+    return log.args.tokenId.toBigInt();
+  }
+
+  /**
+   * @notice Mints several copies to the signer, or to the given address, in one transaction with the Helper
+   * contract. The mintData of each copy is only forwarded to mintable rules that take data
+   *
+   * @return the tokenIds of the copies
+   */
+  async batchCollect(inputs: CollectInput[], to?: string): Promise<bigint[]> {
+    const recipient = to ?? await this.signer.getAddress();
+    const values: BigNumber[] = [];
+    // mintable => fee token => total fee to approve
+    const allowances = new Map<string, Map<string, bigint>>();
+    for (const input of inputs) {
+      const mintable = await this._getRuleMintable(input.copyHash);
+      const valInfo = decodeValidationInfo(await mintable.getValidationInfo(input.copyHash));
+      const fee = await getMintQuote(mintable, input.copyHash, input.duration);
+      if (valInfo.feeToken == ZERO_ADDRESS) {
+        values.push(BigNumber.from(fee));
+      } else {
+        const fees = allowances.get(mintable.address) ?? new Map<string, bigint>();
+        fees.set(valInfo.feeToken, (fees.get(valInfo.feeToken) ?? 0n) + fee);
+        allowances.set(mintable.address, fees);
+        values.push(BigNumber.from(0));
+      }
+    }
+    for (const [mintable, fees] of allowances) {
+      for (const [feeToken, fee] of fees) {
+        await this._payFee(mintable, feeToken, fee);
+      }
+    }
+
+    const value = values.reduce((sum, item) => sum.add(item), BigNumber.from(0));
+    const copyHashes = inputs.map((input) => input.copyHash);
+    const durations = inputs.map((input) => input.duration);
+    const tx = inputs.some((input) => input.mintData !== undefined)
+      ? await this.helper['batchCollect(address,bytes32[],uint64[],uint256[],bytes[])'](
+        recipient, copyHashes, durations, values, inputs.map((input) => input.mintData ?? '0x'), { value }
+      )
+      : await this.helper['batchCollect(address,bytes32[],uint64[],uint256[])'](recipient, copyHashes, durations, values, { value });
+    return this._parseLogs(await tx.wait(), this.copy, 'Create').map((log) => log.args.tokenId.toBigInt());
+  }
+
+  /**
+   * @notice Signs a gasless batch collect for a relayer, see scripts/relayer. The signer is the collector, and
+   * approves the ERC20 fees of the rules with EIP-2612 permits instead of transactions
+   *
+   * @param validFor validity of the permits, in seconds
+   * @return the request to submit to the trusted forwarder
+   */
+  async signRelayedCollect(inputs: CollectInput[], validFor: number = PERM_SIG_OFFSET): Promise<SignedForwardRequest> {
+    const collector = await this.signer.getAddress();
+    // mintable => fee token => total fee to approve
+    const allowances = new Map<string, Map<string, bigint>>();
+    for (const input of inputs) {
+      const mintable = await this._getRuleMintable(input.copyHash);
+      const valInfo = decodeValidationInfo(await mintable.getValidationInfo(input.copyHash));
+      const fee = await getMintQuote(mintable, input.copyHash, input.duration);
+      if (fee == 0n) continue;
+      if (valInfo.feeToken == ZERO_ADDRESS) {
+        throw new Error('Forwarder: Native Token Fees Not Supported');
+      }
+      const fees = allowances.get(mintable.address) ?? new Map<string, bigint>();
+      fees.set(valInfo.feeToken, (fees.get(valInfo.feeToken) ?? 0n) + fee);
+      allowances.set(mintable.address, fees);
+    }
+
+    // the permits of a token are signed with consecutive nonces, in the order they are used
+    const nonces = new Map<string, bigint>();
+    const permits = [];
+    for (const [mintable, fees] of allowances) {
+      for (const [feeToken, fee] of fees) {
+        const token = ERC20__factory.connect(feeToken, this.signer);
+        if ((await token.allowance(collector, mintable)).gte(fee)) continue;
+        const nonce = nonces.get(feeToken)
+          ?? (await ERC20Permit__factory.connect(feeToken, this.signer).nonces(collector)).toBigInt();
+        permits.push(await signFeePermit(this.signer, feeToken, mintable, fee, validFor, nonce));
+        nonces.set(feeToken, nonce + 1n);
+      }
+    }
+
+    const data = this.helper.interface.encodeFunctionData('batchCollectWithPermits', [
+      collector,
+      inputs.map((input) => input.copyHash),
+      inputs.map((input) => input.duration),
+      inputs.map((input) => input.mintData ?? '0x'),
+      permits
+    ]);
+    return signForwardRequest(this.signer, this.forwarder, { to: this.helper.address, data });
+  }
+
+  /**
+   * @notice Mints a copy to each recipient in one transaction with the Helper contract, for instance to issue
+   * certificates. The fees are paid by the signer, in native tokens only, as ERC20 fees are pulled from the
+   * recipients and the Helper contract only charges them to its caller
+   *
+   * @param mintData the data required by the mintable rule for each recipient, if any
+   * @return the tokenIds of the copies
+   */
+  async batchCreate(
+    recipients: string[],
+    copyHash: string,
+    duration: BigNumberish,
+    mintData?: BytesLike[]
+  ): Promise<bigint[]> {
+    const mintable = await this._getRuleMintable(copyHash);
+    const valInfo = decodeValidationInfo(await mintable.getValidationInfo(copyHash));
+    const fee = valInfo.feeToken == ZERO_ADDRESS ? await getMintQuote(mintable, copyHash, duration) : 0n;
+    const values = recipients.map(() => BigNumber.from(fee));
+    const value = BigNumber.from(fee * BigInt(recipients.length));
+    const tx = mintData === undefined
+      ? await this.helper['batchCreate(address[],bytes32,uint64,uint256[])'](recipients, copyHash, duration, values, { value })
+      : await this.helper['batchCreate(address[],bytes32,uint64,uint256[],bytes[])'](
+        recipients, copyHash, duration, values, mintData, { value }
+      );
+    return this._parseLogs(await tx.wait(), this.copy, 'Create').map((log) => log.args.tokenId.toBigInt());
+  }
+
+  /**
+   * @param mintData the data required by the mintable rule, if any
+   * @return the new expiry timestamp of the copy
+   */
+  async extend(tokenId: BigNumberish, duration: BigNumberish, mintData?: BytesLike): Promise<bigint> {
+    const copyInfo = await this.copy.getCopyInfo(tokenId);
+    const mintable = await this._getRuleMintable(copyInfo.copyHash);
+    const valInfo = decodeValidationInfo(await mintable.getValidationInfo(copyInfo.copyHash));
+    const fee = getFee(valInfo, valInfo.extendAmount, duration);
+    const value = await this._payFee(mintable.address, valInfo.feeToken, fee);
+    const tx = mintData === undefined
+      ? await this.copy['extend(uint256,uint64)'](tokenId, duration, { value })
+      : await this.copy['extend(uint256,uint64,bytes)'](tokenId, duration, mintData, { value });
+    const [log] = this._parseLogs(await tx.wait(), this.copy, 'Extend');
+    return log.args.expiry.toBigInt();
+  }
+
+  /**
+   * @notice Revokes a copy immediately, or with a reason, grace period or refund. The refund not covered by
+   * the fees held in escrow for the creator is paid by the signer, see {IPaidMintable-refund}
+   */
+  async revoke(tokenId: BigNumberish, options?: RevokeOptions): Promise<void> {
+    if (options === undefined) {
+      await (await this.copy['revoke(uint256)'](tokenId)).wait();
+      return;
+    }
+    const gracePeriod = options.gracePeriod ?? 0;
+    const refund = options.refund ?? false;
+    const value = refund && BigNumber.from(gracePeriod).isZero()
+      ? await this._payRefund(tokenId)
+      : BigNumber.from(0);
+    await (await this.copy['revoke(uint256,uint16,string,uint64,bool)'](
+      tokenId,
+      options.reason ?? 0,
+      options.reasonURI ?? '',
+      gracePeriod,
+      refund,
+      { value }
+    )).wait();
+  }
+
+  /**
+   * @notice Revokes a copy pending revocation once its grace period is over
+   */
+  async executeRevocation(tokenId: BigNumberish): Promise<void> {
+    const { refund } = await this.copy.getRevocation(tokenId);
+    const value = refund ? await this._payRefund(tokenId) : BigNumber.from(0);
+    await (await this.copy.executeRevocation(tokenId, { value })).wait();
+  }
+
+  async cancelRevocation(tokenId: BigNumberish): Promise<void> {
+    await (await this.copy.cancelRevocation(tokenId)).wait();
+  }
+
+  /**
+   * @return the pending revocation of a copy, undefined if there is none
+   */
+  async getRevocation(tokenId: BigNumberish): Promise<Revocation | undefined> {
+    const raw = await this.copy.getRevocation(tokenId);
+    return raw.effectiveAt.isZero() ? undefined : decodeRevocation(raw);
+  }
+
+  async destroy(tokenId: BigNumberish): Promise<void> {
+    await (await this.copy.destroy(tokenId)).wait();
+  }
+
+  /**
+   * @notice Opts a copy in to automatic renewals by keepers. The fees of all the periods are added to the ERC20
+   * allowance of the Mintable contract of the rule
+   *
+   * @param duration the duration added at each renewal
+   * @param periods the maximum number of renewals, 0 to cancel the subscription
+   */
+  async subscribe(tokenId: BigNumberish, duration: BigNumberish, periods: number): Promise<void> {
+    if (periods > 0) {
+      const copyInfo = await this.copy.getCopyInfo(tokenId);
+      const mintable = await this._getRuleMintable(copyInfo.copyHash);
+      const valInfo = decodeValidationInfo(await mintable.getValidationInfo(copyInfo.copyHash));
+      const fee = getFee(valInfo, valInfo.extendAmount, duration);
+      if (valInfo.feeToken == ZERO_ADDRESS && fee > 0n) {
+        throw new Error('Subscription: Native Token Fees Not Supported');
+      }
+      await this._payFee(mintable.address, valInfo.feeToken, fee * BigInt(periods));
+    }
+    await (await this.copy.setSubscription(tokenId, duration, periods)).wait();
+  }
+
+  /**
+   * @notice Renews a subscribed copy by one period, the fee is paid by the holder of the copy
+   *
+   * @return the new expiry timestamp of the copy
+   */
+  async renew(tokenId: BigNumberish): Promise<bigint> {
+    const [log] = this._parseLogs(await (await this.copy.renew(tokenId)).wait(), this.copy, 'Renew');
+    return log.args.expiry.toBigInt();
+  }
+
+  /**
+   * @notice Updates a copy to a version of the content of its creator token, see {getVersions}
+   *
+   * @param version the version of the content, the latest content by default
+   * @return the updated tokenURI of the copy
+   */
+  async update(tokenId: BigNumberish, version: number = 0): Promise<string> {
+    const tx = version == 0
+      ? await this.copy['update(uint256)'](tokenId)
+      : await this.copy['update(uint256,uint64)'](tokenId, version);
+    const [log] = this._parseLogs(await tx.wait(), this.copy, 'Update');
+    return log.args.tokenUri;
+  }
+
+  /**
+   * @notice Pushes a version of the content to the live copies of a pushable rule, whether or not their holders
+   * allow updates. The copies of the creator token are walked page by page from the last index down, and a
+   * transaction is sent for each page holding live copies of the rule, see {Copy-pushUpdate}. Burning a copy moves
+   * the last copy to its index, so the copies not walked yet stay below the walked indexes. The copies minted
+   * during the push may still be moved to walked indexes, they are rescanned and returned as skipped
+   *
+   * @param version the version of the content, the latest content by default
+   * @param pageSize the number of copy indexes walked by each transaction, at most 100
+   * @return the ids of the updated copies, and of the live copies of the rule left at another version
+   */
+  async pushUpdate(copyHash: string, version: number = 0, pageSize: number = PUSH_PAGE_SIZE): Promise<PushUpdateResult> {
+    const { creatorContract, creatorId } = await this.copy.getMintInfo(copyHash);
+    const isLive = (copy: CopyView, now: number) => copy.mintable.copyHash == copyHash && copy.expireAt >= BigInt(now);
+    const updated = new Set<bigint>();
+    let toIndex = (await this.copy['getCopyCount(address,uint256)'](creatorContract, creatorId)).toNumber();
+    while (toIndex > 0) {
+      const fromIndex = Math.max(1, toIndex + 1 - pageSize);
+      const { copies } = await this.getCopiesByCreator(creatorId, fromIndex - 1, toIndex + 1 - fromIndex, creatorContract);
+      const now = (await this.copy.provider.getBlock('latest')).timestamp;
+      if (copies.some((copy) => isLive(copy, now))) {
+        const receipt = await (await this.copy.pushUpdate(copyHash, version, fromIndex, toIndex + 1 - fromIndex)).wait();
+        this._parseLogs(receipt, this.copy, 'Update').forEach((log) => updated.add(log.args.tokenId.toBigInt()));
+        // the following pages push the version resolved by the first one, even if the content is updated meanwhile
+        version = this._parseLogs(receipt, this.copy, 'PushUpdate')[0].args.version.toNumber();
+      }
+      toIndex = fromIndex - 1;
+    }
+
+    const skipped: bigint[] = [];
+    const count = (await this.copy['getCopyCount(address,uint256)'](creatorContract, creatorId)).toNumber();
+    const now = (await this.copy.provider.getBlock('latest')).timestamp;
+    for (let skip = 0; skip < count; skip += pageSize) {
+      const { copies } = await this.getCopiesByCreator(creatorId, skip, pageSize, creatorContract);
+      skipped.push(...copies
+        .filter((copy) => isLive(copy, now) && !updated.has(copy.copyId) && version != 0 && copy.version != version)
+        .map((copy) => copy.copyId));
+    }
+    return { updated: [...updated], skipped };
+  }
+
+  async isPushable(copyHash: string): Promise<boolean> {
+    return await this.copy.isPushable(copyHash);
+  }
+
+  /**
+   * @notice Claims the fees, or the refunded overpayments, held in escrow by the Mintable contract for the signer
+   *
+   * @param token the fee token, the native token by default
+   * @return the amount withdrawn
+   */
+  async withdraw(token: string = ZERO_ADDRESS): Promise<bigint> {
+    const [log] = this._parseLogs(await (await this.mintable.withdraw(token)).wait(), this.mintable, 'Withdraw');
+    return log.args.amount.toBigInt();
+  }
+
+  // view functions
+
+  /**
+   * @notice The validation info of a rule, read from the Mintable contract of the rule
+   */
+  async getValidationInfo(copyHash: string): Promise<ValidationInfo> {
+    const mintable = await this._getRuleMintable(copyHash);
+    return decodeValidationInfo(await mintable.getValidationInfo(copyHash));
+  }
+
+  /**
+   * @notice The fee of a mint at the latest block, see {getMintQuote}
+   */
+  async quote(copyHash: string, duration: BigNumberish, slippageBps: BigNumberish = 0): Promise<bigint> {
+    return getMintQuote(await this._getRuleMintable(copyHash), copyHash, duration, slippageBps);
+  }
+
+  async getBalance(token: string = ZERO_ADDRESS, account?: string): Promise<bigint> {
+    return (await this.mintable.getBalance(account ?? await this.signer.getAddress(), token)).toBigInt();
+  }
+
+  /**
+   * @return the non-zero balances of the account, the signer by default, among the given fee tokens
+   */
+  async getClaimableBalances(tokens: string[], account?: string): Promise<ClaimableBalance[]> {
+    const holder = account ?? await this.signer.getAddress();
+    const balances = await Promise.all(tokens.map(async (token) => ({
+      token,
+      amount: await this.getBalance(token, holder)
+    })));
+    return balances.filter((balance) => balance.amount > 0n);
+  }
+
+  async getRoyalty(copyHash: string): Promise<number> {
+    return (await this.copy.getRoyalty(copyHash)).toNumber();
+  }
+
+  async getRoyaltyInfo(copyId: BigNumberish, salePrice: BigNumberish): Promise<RoyaltyInfo> {
+    const [receiver, amount] = await this.copy.royaltyInfo(copyId, salePrice);
+    return { receiver, amount: amount.toBigInt() };
+  }
+
+  async getTransferRule(copyHash: string): Promise<TransferRule> {
+    const [mode, coolingPeriod] = await this.copy.getTransferMode(copyHash);
+    return { mode, coolingPeriod: coolingPeriod.toBigInt() };
+  }
+
+  async getOrphanRule(copyHash: string): Promise<OrphanRule> {
+    const [policy, fallbackRevoker] = await this.copy.getOrphanPolicy(copyHash);
+    return { policy, fallbackRevoker };
+  }
+
+  /**
+   * @return whether the creator token of the copy has been burned, see {getOrphanRule}
+   */
+  async isOrphaned(copyId: BigNumberish): Promise<boolean> {
+    return await this.copy.isOrphaned(copyId);
+  }
+
+  /**
+   * @return whether the copy is soulbound, see {IERC5192}
+   */
+  async isLocked(copyId: BigNumberish): Promise<boolean> {
+    return await this.copy.locked(copyId);
+  }
+
+  /**
+   * @return the timestamp from which the holder can transfer a copy of a rule with a cooling period, or
+   * undefined if the copy can never be transferred
+   */
+  async getTransferableAt(copyId: BigNumberish): Promise<bigint | undefined> {
+    const { copyHash, expireAt } = await this.copy.getCopyInfo(copyId);
+    const { mode, coolingPeriod } = await this.getTransferRule(copyHash);
+    if (mode == TransferMode.SOULBOUND) return undefined;
+
+    const transferableAt = mode == TransferMode.COOLING_PERIOD
+      ? (await this.copy.acquiredAt(copyId)).toBigInt() + coolingPeriod
+      : 0n;
+    return transferableAt > expireAt.toBigInt() ? undefined : transferableAt;
+  }
+
+  /**
+   * @notice Rents out a copy to a user until the expiry, which defaults to the expiry of the copy. The copy
+   * stays with its holder, see {IERC4907}
+   */
+  async rent(copyId: BigNumberish, user: string, expires?: BigNumberish): Promise<void> {
+    const until = expires ?? await this.copy.expireAt(copyId);
+    await (await this.copy.setUser(copyId, user, until)).wait();
+  }
+
+  async unrent(copyId: BigNumberish): Promise<void> {
+    await (await this.copy.setUser(copyId, ZERO_ADDRESS, 0)).wait();
+  }
+
+  async getRental(copyId: BigNumberish): Promise<Rental> {
+    const [user, expires] = await Promise.all([this.copy.userOf(copyId), this.copy.userExpires(copyId)]);
+    return { user, expires: user == ZERO_ADDRESS ? 0n : expires.toBigInt() };
+  }
+
+  /**
+   * @return the ids of the copies of the creator token held by the collector that have not expired
+   */
+  async getValidCopies(
+    collector: string,
+    creatorId: BigNumberish,
+    creatorContract: string = this.creator.address
+  ): Promise<bigint[]> {
+    const copyIds = await this.copy['validCopiesOf(address,address,uint256)'](collector, creatorContract, creatorId);
+    return copyIds.map((copyId) => copyId.toBigInt());
+  }
+
+  async getSubscription(tokenId: BigNumberish): Promise<Subscription> {
+    const { duration, periods } = await this.copy.getSubscription(tokenId);
+    return { duration: duration.toBigInt(), periods: periods.toNumber() };
+  }
+
+  async getRuleState(copyHash: string): Promise<RuleState> {
+    return await this.copy.getRuleState(copyHash);
+  }
+
+  async getRuleVersion(copyHash: string): Promise<number> {
+    return (await this.mintable.getRuleVersion(copyHash)).toNumber();
+  }
+
+  /**
+   * @notice Lists the versions of a rule from the SetupRule events of the Mintable contract, oldest first
+   */
+  async getRuleHistory(copyHash: string, fromBlock: number = 0): Promise<RuleVersion[]> {
+    const events = await this.mintable.queryFilter(this.mintable.filters.SetupRule(copyHash), fromBlock);
+    return events.map((event) => ({
+      version: event.args.version.toNumber(),
+      previous: decodeValidationInfo(event.args.previous),
+      validation: decodeValidationInfo(event.args.validationInfo),
+      blockNumber: event.blockNumber,
+      transactionHash: event.transactionHash
+    }));
+  }
+
+  /**
+   * @return the versions of the content of a creator token of the Creator contract, oldest first
+   */
+  async getVersions(creatorId: BigNumberish): Promise<ContentVersion[]> {
+    return (await this.creator.getVersions(creatorId)).map((version, index) => decodeVersion(version, index + 1));
+  }
+
+  /**
+   * @return the co-authors of a creator token of the Creator contract, empty for a single author
+   */
+  async getCoauthors(creatorId: BigNumberish): Promise<Coauthor[]> {
+    return (await this.creator.getCoauthors(creatorId)).map(({ account, weight }) => ({
+      account,
+      weight: weight.toBigInt()
+    }));
+  }
+
+  /**
+   * @return the payment splitter receiving the royalties of a co-authored creator token, the zero address otherwise
+   */
+  async getSplitter(creatorId: BigNumberish): Promise<string> {
+    return this.creator.getSplitter(creatorId);
+  }
+
+  async getVersion(creatorId: BigNumberish, version: number): Promise<ContentVersion> {
+    return decodeVersion(await this.creator.getVersion(creatorId, version), version);
+  }
+
+  /**
+   * @notice Checks downloaded content against the hash declared for a version of a creator token
+   */
+  async verifyVersion(creatorId: BigNumberish, version: number, content: Uint8Array | string): Promise<boolean> {
+    return verifyContent(content, (await this.getVersion(creatorId, version)).contentHash);
+  }
+
+  async getCopyMetadata(copyId: BigNumberish): Promise<CopyMetadata> {
+    return decodeTokenURI(await this.copy.tokenURI(copyId));
+  }
+
+  async getCreator(creatorId: BigNumberish, creatorContract: string = this.creator.address): Promise<CreatorView> {
+    return decodeCreatorView(await this.helper['getCreatorTokenById(address,uint256)'](creatorContract, creatorId));
+  }
+
+  async getCopy(copyId: BigNumberish): Promise<CopyView> {
+    return decodeCopyView(await this.helper.getCopyTokenById(copyId));
+  }
+
+  async getMintable(copyHash: string): Promise<MintableView> {
+    return decodeMintableView(await this.helper.getMintableByHash(copyHash));
+  }
+
+  async getMintInfoByCreator(
+    creatorId: BigNumberish,
+    creatorContract: string = this.creator.address
+  ): Promise<CreatorFullView> {
+    return decodeCreatorFullView(await this.helper['getMintInfoByCreator(address,uint256)'](creatorContract, creatorId));
+  }
+
+  async getCreators(skip: number, limit: number): Promise<CreatorPaginationView> {
+    return decodeCreatorPaginationView(await this.helper.getCreatorTokens(skip, limit));
+  }
+
+  async getCreatorsByAddress(creator: string, skip: number, limit: number): Promise<CreatorPaginationView> {
+    return decodeCreatorPaginationView(await this.helper.getCreatorTokensByAddress(creator, skip, limit));
+  }
+
+  async getCopies(skip: number, limit: number): Promise<CopyPaginationView> {
+    return decodeCopyPaginationView(await this.helper.getCopyTokens(skip, limit));
+  }
+
+  async getCopiesByAddress(collector: string, skip: number, limit: number): Promise<CopyPaginationView> {
+    return decodeCopyPaginationView(await this.helper.getCopyTokensByAddress(collector, skip, limit));
+  }
+
+  async getCopiesByCreator(
+    creatorId: BigNumberish,
+    skip: number,
+    limit: number,
+    creatorContract: string = this.creator.address
+  ): Promise<CopyPaginationView> {
+    return decodeCopyPaginationView(await this.helper['getCopyTokensByCreator(address,uint256,uint256,uint256)'](
+      creatorContract, creatorId, skip, limit
+    ));
+  }
+
+  private _toMintInfo(data: CopyMintData) {
+    return {
+      mintable: data.mintable,
+      statement: data.statement,
+      transferable: data.transferable,
+      updatable: data.updatable,
+      revokable: data.revokable,
+      extendable: data.extendable,
+      creatorContract: data.creatorContract ?? ZERO_ADDRESS,
+      creatorId: data.creatorId,
+      mintInfoAdditional: data.mintInfoAdditional ?? '0x'
+    };
+  }
+
+  /**
+   * @dev The Mintable contract of a rule. Rules of other mintables, such as the AllowlistMintable contract,
+   * share the validation info, quote and fee handling of the Mintable contract
+   */
+  private async _getRuleMintable(copyHash: string): Promise<Mintable> {
+    const { mintable } = await this.copy.getMintInfo(copyHash);
+    return mintable == this.mintable.address || mintable == ZERO_ADDRESS
+      ? this.mintable
+      : Mintable__factory.connect(mintable, this.signer);
+  }
+
+  /**
+   * @dev Pays the refund of a copy not covered by the escrow of the creator, estimated at the latest block.
+   * The refund only decreases over time
+   */
+  private async _payRefund(tokenId: BigNumberish): Promise<BigNumber> {
+    const { copyHash, expireAt } = await this.copy.getCopyInfo(tokenId);
+    const mintable = await this._getRuleMintable(copyHash);
+    const { feeToken } = await mintable.getValidationInfo(copyHash);
+    const { timestamp } = await this.copy.provider.getBlock('latest');
+    const remaining = expireAt.toBigInt() > BigInt(timestamp) ? expireAt.toBigInt() - BigInt(timestamp) : 0n;
+
+    const refund = (await mintable.getRefund(tokenId, remaining)).toBigInt();
+    const [creatorContract, creatorId] = await this.copy.creatorTokenOf(tokenId);
+    const { holder } = await this.getCreator(creatorId, creatorContract);
+    // nothing is held in escrow for a burned creator token
+    const escrowed = holder == ZERO_ADDRESS ? 0n : (await mintable.getBalance(holder, feeToken)).toBigInt();
+    return this._payFee(mintable.address, feeToken, refund > escrowed ? refund - escrowed : 0n);
+  }
+
+  /**
+   * @dev Returns the msg.value to attach for native token fees, or adds the fee to the ERC20 allowance of the
+   * Mintable contract and returns zero. The allowance left for the renewals of subscribed copies is kept
+   */
+  private async _payFee(spender: string, feeToken: string, fee: bigint): Promise<BigNumber> {
+    if (feeToken == ZERO_ADDRESS) return BigNumber.from(fee);
+    if (fee == 0n) return BigNumber.from(0);
+
+    const token = ERC20__factory.connect(feeToken, this.signer);
+    const allowance = await token.allowance(await this.signer.getAddress(), spender);
+    await (await token.approve(spender, allowance.add(fee))).wait();
+    return BigNumber.from(0);
+  }
+
+  private _parseLogs(receipt: ContractReceipt, contract: Creator | Copy | Mintable | Helper, name: string) {
+    return receipt.logs
+      .filter((log) => log.address == contract.address)
+      .map((log) => contract.interface.parseLog(log))
+      .filter((log) => log.name == name);
+  }
+}
@@ -0,0 +1,145 @@
+import { BigNumberish } from 'ethers';
+import { OrphanPolicy, RuleState, Statement, TransferMode } from '.';
+
+export interface MintInfo {
+  mintable: string;
+  statement: Statement;
+  transferable: boolean;
+  updatable: boolean;
+  revokable: boolean;
+  extendable: boolean;
+  creatorContract: string;
+  creatorId: bigint;
+  mintInfoAdditional: string;
+}
+
+export interface ValidationInfo {
+  feeToken: string;
+  duration: bigint;
+  fragmented: boolean;
+  mintAmount: bigint;
+  extendAmount: bigint;
+  requiredERC721Token: string;
+  limit: bigint;
+  start: bigint;
+  time: bigint;
+  maxValidity: bigint;
+  extendWindow: bigint;
+  extendRequiresToken: boolean;
+  guarded: boolean;
+}
+
+export interface RuleVersion {
+  version: number;
+  previous: ValidationInfo;
+  validation: ValidationInfo;
+  blockNumber: number;
+  transactionHash: string;
+}
+
+export interface CreatorView {
+  creatorContract: string;
+  creatorId: bigint;
+  holder: string;
+  tokenURI: string;
+  copies: number;
+  rules: number;
+}
+
+export interface MintableView {
+  mintInfo: MintInfo;
+  valInfo: ValidationInfo;
+  count: number;
+  copyHash: string;
+  state: RuleState;
+}
+
+export interface CopyView {
+  copyId: bigint;
+  creatorId: bigint;
+  holder: string;
+  tokenURI: string;
+  expireAt: bigint;
+  // the version of the creator token content the copy was minted or updated against, 0 if not versioned
+  version: number;
+  mintable: MintableView;
+  // undefined unless a revocation is pending
+  revocation?: Revocation;
+}
+
+export interface Revocation {
+  effectiveAt: bigint;
+  refund: boolean;
+  reason: number;
+  reasonURI: string;
+}
+
+export interface RevokeOptions {
+  reason?: number;
+  reasonURI?: string;
+  // seconds the copy is pending revocation before it can be revoked, immediately when omitted
+  gracePeriod?: BigNumberish;
+  refund?: boolean;
+}
+
+export interface CreatorFullView {
+  creation: CreatorView;
+  mintable: MintableView[];
+}
+
+export interface PaginationMetaView {
+  offset: number;
+  limit: number;
+  count: number;
+}
+
+export interface CreatorPaginationView {
+  creators: CreatorView[];
+  meta: PaginationMetaView;
+}
+
+export interface CopyPaginationView {
+  copies: CopyView[];
+  meta: PaginationMetaView;
+}
+
+export interface TransferRule {
+  mode: TransferMode;
+  // seconds a holder must hold a copy before transferring it, for the COOLING_PERIOD mode
+  coolingPeriod: bigint;
+}
+
+export interface OrphanRule {
+  policy: OrphanPolicy;
+  // the address revoking the copies once the creator token is burned, for the FALLBACK_REVOKER policy
+  fallbackRevoker: string;
+}
+
+export interface ContentVersion {
+  version: number;
+  contentUri: string;
+  // the zero hash when the creator did not declare a hash for the version
+  contentHash: string;
+  timestamp: bigint;
+}
+
+export interface Rental {
+  // the zero address when the copy is not rented out or the rental has ended
+  user: string;
+  expires: bigint;
+}
+
+export interface RoyaltyInfo {
+  receiver: string;
+  amount: bigint;
+}
+
+export interface ClaimableBalance {
+  token: string;
+  amount: bigint;
+}
+
+export interface Subscription {
+  duration: bigint;
+  periods: number;
+}
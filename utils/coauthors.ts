@@ -0,0 +1,182 @@
+import { BigNumberish, ethers, Signer } from 'ethers';
+import { TypedDataDomain, TypedDataField, TypedDataSigner } from '@ethersproject/abstract-signer';
+import { hexlify } from 'ethers/lib/utils';
+import { Creator } from '../typechain-types';
+import { CoauthorStruct, PermSigStruct } from '../typechain-types/Creator';
+import { CONTENT } from './constants';
+import { EMPTY_CONTENT_HASH } from './content';
+import { getDeadline, PermSig } from '.';
+
+export const COAUTHORED_COPYRIGHT_TYPES: Record<string, TypedDataField[]> = {
+  CoauthoredCopyright: [
+    { name: 'contentUri', type: 'string' },
+    { name: 'contentHash', type: 'bytes32' },
+    { name: 'notice', type: 'string' },
+    { name: 'to', type: 'address' },
+    { name: 'coauthors', type: 'Coauthor[]' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ],
+  Coauthor: [
+    { name: 'account', type: 'address' },
+    { name: 'weight', type: 'uint96' }
+  ]
+};
+
+export interface Coauthor {
+  account: string;
+  // the share of the fees and royalties, relative to the total weight of the co-authors
+  weight: bigint;
+}
+
+/**
+ * @notice The statement every co-author signs, shared as is with the co-authors so that they sign the same data
+ */
+export interface CoauthorshipStatement {
+  // the holder of the creator token
+  to: string;
+  contentUri: string;
+  // the hash of the content of the first version, see {hashContent}
+  contentHash: string;
+  // sorted by ascending address
+  coauthors: Coauthor[];
+  deadline: number;
+}
+
+/**
+ * @notice Checks the co-authors and sorts them by ascending address, the order required by
+ * {Creator-createWithCoauthors}
+ */
+export const sortCoauthors = (coauthors: { account: string, weight: BigNumberish }[]): Coauthor[] => {
+  if (coauthors.length == 0) {
+    throw new Error('Coauthors: No Coauthor');
+  }
+  const sorted = coauthors.map(({ account, weight }) => ({
+    account: ethers.utils.getAddress(account),
+    weight: ethers.BigNumber.from(weight).toBigInt()
+  })).sort((a, b) => a.account.toLowerCase() < b.account.toLowerCase() ? -1 : 1);
+  for (let i = 0; i < sorted.length; i++) {
+    if (sorted[i].weight <= 0n) {
+      throw new Error(`Coauthors: Invalid Weight ${sorted[i].account}`);
+    }
+    if (i > 0 && sorted[i].account == sorted[i - 1].account) {
+      throw new Error(`Coauthors: Duplicate Address ${sorted[i].account}`);
+    }
+  }
+  return sorted;
+};
+
+export const getCoauthorshipStatement = (
+  to: string,
+  contentUri: string,
+  coauthors: { account: string, weight: BigNumberish }[],
+  validFor: number,
+  contentHash: string = EMPTY_CONTENT_HASH
+): CoauthorshipStatement => {
+  return { to, contentUri, contentHash, coauthors: sortCoauthors(coauthors), deadline: getDeadline(validFor) };
+};
+
+export const getCoauthorDomain = async (creator: Creator): Promise<TypedDataDomain> => {
+  return {
+    name: await creator.name(),
+    version: '1',
+    chainId: (await creator.provider.getNetwork()).chainId,
+    verifyingContract: creator.address
+  };
+};
+
+const getCoauthorshipValue = (statement: CoauthorshipStatement, nonce: BigNumberish) => {
+  return {
+    contentUri: statement.contentUri,
+    contentHash: statement.contentHash,
+    notice: CONTENT.coauthorship,
+    to: statement.to,
+    coauthors: statement.coauthors,
+    nonce: nonce,
+    deadline: statement.deadline
+  };
+};
+
+/**
+ * @notice Signs the EIP-712 co-authorship statement for the Creator contract. The signer's current nonce is used
+ * unless given
+ */
+export const signCoauthorship = async (
+  signer: Signer & TypedDataSigner,
+  creator: Creator,
+  statement: CoauthorshipStatement,
+  nonce?: BigNumberish
+): Promise<PermSig> => {
+  const value = getCoauthorshipValue(statement, nonce ?? await creator.nonces(await signer.getAddress()));
+  const signature = await signer._signTypedData(await getCoauthorDomain(creator), COAUTHORED_COPYRIGHT_TYPES, value);
+  const { v, r, s } = ethers.utils.splitSignature(signature);
+  return { deadline: statement.deadline, v, r, s };
+};
+
+export const recoverCoauthorSig = (
+  domain: TypedDataDomain,
+  statement: CoauthorshipStatement,
+  nonce: BigNumberish,
+  permSig: PermSig
+): string => {
+  return ethers.utils.verifyTypedData(
+    domain,
+    COAUTHORED_COPYRIGHT_TYPES,
+    getCoauthorshipValue(statement, nonce),
+    { v: permSig.v, r: hexlify(permSig.r), s: hexlify(permSig.s) }
+  );
+};
+
+/**
+ * @notice Gathers the signatures of the co-authors of a creator token and assembles the arguments of
+ * {Creator-createWithCoauthors}. Signatures are checked against the current nonces of the co-authors when added,
+ * in any order
+ */
+export class CoauthorPayload {
+  readonly creator: Creator;
+  readonly statement: CoauthorshipStatement;
+  private readonly _sigs = new Map<string, PermSig>();
+
+  constructor(creator: Creator, statement: CoauthorshipStatement) {
+    this.creator = creator;
+    this.statement = { ...statement, coauthors: sortCoauthors(statement.coauthors) };
+  }
+
+  /**
+   * @notice Signs the statement as one of the co-authors
+   */
+  async sign(signer: Signer & TypedDataSigner): Promise<PermSig> {
+    const permSig = await signCoauthorship(signer, this.creator, this.statement);
+    await this.addSignature(await signer.getAddress(), permSig);
+    return permSig;
+  }
+
+  async addSignature(account: string, permSig: PermSig): Promise<void> {
+    account = ethers.utils.getAddress(account);
+    if (!this.statement.coauthors.some((coauthor) => coauthor.account == account)) {
+      throw new Error(`Coauthors: Unknown Coauthor ${account}`);
+    }
+    const nonce = await this.creator.nonces(account);
+    const domain = await getCoauthorDomain(this.creator);
+    if (permSig.deadline != this.statement.deadline || recoverCoauthorSig(domain, this.statement, nonce, permSig) != account) {
+      throw new Error(`Coauthors: Invalid Signature ${account}`);
+    }
+    this._sigs.set(account, permSig);
+  }
+
+  /**
+   * @notice The co-authors who have not signed yet
+   */
+  missing(): string[] {
+    return this.statement.coauthors.map((coauthor) => coauthor.account).filter((account) => !this._sigs.has(account));
+  }
+
+  assemble(): [string, string, string, CoauthorStruct[], PermSigStruct[]] {
+    const missing = this.missing();
+    if (missing.length > 0) {
+      throw new Error(`Coauthors: Missing Signature ${missing.join(', ')}`);
+    }
+    const { to, contentUri, contentHash, coauthors } = this.statement;
+    return [to, contentUri, contentHash, coauthors, coauthors.map((coauthor) => this._sigs.get(coauthor.account)!)];
+  }
+}
@@ -2,7 +2,8 @@ import { BigNumber } from "ethers";
 
 export const CONTENT = {
     contentUri: "sampleContentUri",
-    copyright: "By signing this statement, I confirm that I am the full copyright holder of the data pointed to by the contentUri included in this signature. I willingly give up all my copyright to the holder of the newly minted NFT, in the condition that the copyright will be forever bound to, and transfer together with that newly minted NFT."
+    copyright: "By signing this statement, I confirm that I am the full copyright holder of the data pointed to by the contentUri included in this signature. I willingly give up all my copyright to the holder of the newly minted NFT, in the condition that the copyright will be forever bound to, and transfer together with that newly minted NFT.",
+    coauthorship: "By signing this statement, I confirm that I am a joint copyright holder of the data pointed to by the contentUri included in this signature, with the co-authors and shares included in this signature. I willingly give up all my copyright to the holder of the newly minted NFT, in the condition that the copyright will be forever bound to, and transfer together with that newly minted NFT."
 }
 
 export const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
@@ -10,5 +11,7 @@ export const MAX_UINT64 = BigNumber.from('0xffffffffffffffff'); // 1844674407370
 
 export const DEPLOY_CACHE = 'deployedContracts.json';
 export const IMAGE_CACHE = 'generatedImages.json';
+export const INDEX_CACHE = 'indexedState.json';
+export const KEEPER_CACHE = 'keeperState.json';
 
 export const BUNDLR_URL = 'https://node1.bundlr.network';
@@ -0,0 +1,28 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+
+export const EMPTY_CONTENT_HASH = ethers.constants.HashZero;
+
+/**
+ * @notice The content hash declared on the Creator contract for a version, the keccak256 hash of the raw bytes
+ * of the content. Strings are hashed as their utf8 bytes
+ */
+export const hashContent = (content: Uint8Array | string): string => {
+  return ethers.utils.keccak256(typeof content === 'string' ? ethers.utils.toUtf8Bytes(content) : content);
+};
+
+export const hashFile = (path: string): string => {
+  return hashContent(fs.readFileSync(path));
+};
+
+/**
+ * @notice Checks downloaded content against the hash of a version. Versions published without a hash cannot
+ * be verified and never match
+ */
+export const verifyContent = (content: Uint8Array | string, contentHash: string): boolean => {
+  return contentHash != EMPTY_CONTENT_HASH && hashContent(content) == contentHash.toLowerCase();
+};
+
+export const verifyFile = (path: string, contentHash: string): boolean => {
+  return verifyContent(fs.readFileSync(path), contentHash);
+};
@@ -0,0 +1,126 @@
+import { BigNumberish, BytesLike, ethers, Signer } from 'ethers';
+import { TypedDataDomain, TypedDataField, TypedDataSigner } from '@ethersproject/abstract-signer';
+import { ERC20Permit__factory, Forwarder } from '../typechain-types';
+import { FeePermitStruct } from '../typechain-types/Helper';
+import { getDeadline } from '.';
+
+export const FORWARD_REQUEST_TYPES: Record<string, TypedDataField[]> = {
+  ForwardRequest: [
+    { name: 'from', type: 'address' },
+    { name: 'to', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'gas', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'data', type: 'bytes' }
+  ]
+};
+
+export const PERMIT_TYPES: Record<string, TypedDataField[]> = {
+  Permit: [
+    { name: 'owner', type: 'address' },
+    { name: 'spender', type: 'address' },
+    { name: 'value', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
+};
+
+export interface ForwardRequest {
+  from: string;
+  to: string;
+  // native tokens sent with the call, paid by the relayer
+  value: BigNumberish;
+  // gas limit of the call
+  gas: BigNumberish;
+  nonce: BigNumberish;
+  data: BytesLike;
+}
+
+export interface SignedForwardRequest {
+  request: ForwardRequest;
+  signature: string;
+}
+
+export interface ForwardRequestInput {
+  to: string;
+  data: BytesLike;
+  value?: BigNumberish;
+  // estimated from the call relayed by the forwarder unless given
+  gas?: BigNumberish;
+  nonce?: BigNumberish;
+}
+
+export const getForwarderDomain = async (forwarder: Forwarder): Promise<TypedDataDomain> => {
+  return {
+    name: 'MinimalForwarder',
+    version: '0.0.1',
+    chainId: (await forwarder.provider.getNetwork()).chainId,
+    verifyingContract: forwarder.address
+  };
+};
+
+/**
+ * @notice Builds and signs a request for the trusted forwarder, see {Forwarder}. The target contract reads the
+ * signer as the sender of the call, the address appended to the calldata by the forwarder
+ */
+export const signForwardRequest = async (
+  signer: Signer & TypedDataSigner,
+  forwarder: Forwarder,
+  input: ForwardRequestInput
+): Promise<SignedForwardRequest> => {
+  const from = await signer.getAddress();
+  const value = input.value ?? 0;
+  const gas = input.gas ?? await forwarder.provider.estimateGas({
+    from: forwarder.address,
+    to: input.to,
+    data: ethers.utils.hexConcat([input.data, from]),
+    value
+  });
+  const request = {
+    from,
+    to: input.to,
+    value: ethers.BigNumber.from(value).toString(),
+    gas: ethers.BigNumber.from(gas).toString(),
+    nonce: ethers.BigNumber.from(input.nonce ?? await forwarder.getNonce(from)).toString(),
+    data: ethers.utils.hexlify(input.data)
+  };
+  const signature = await signer._signTypedData(await getForwarderDomain(forwarder), FORWARD_REQUEST_TYPES, request);
+  return { request, signature };
+};
+
+export const recoverForwardRequestSigner = (domain: TypedDataDomain, signedRequest: SignedForwardRequest): string => {
+  return ethers.utils.verifyTypedData(domain, FORWARD_REQUEST_TYPES, signedRequest.request, signedRequest.signature);
+};
+
+/**
+ * @notice Signs an EIP-2612 permit of an ERC20 fee token, to approve the fee pulled by a mintable contract
+ * without a transaction, see {Helper-batchCollectWithPermits}. The signer's current nonce of the token is used
+ * unless given
+ */
+export const signFeePermit = async (
+  signer: Signer & TypedDataSigner,
+  token: string,
+  spender: string,
+  value: BigNumberish,
+  validFor: number,
+  nonce?: BigNumberish
+): Promise<FeePermitStruct> => {
+  const owner = await signer.getAddress();
+  const erc20 = ERC20Permit__factory.connect(token, signer);
+  const deadline = getDeadline(validFor);
+  const domain = {
+    name: await erc20.name(),
+    version: '1',
+    chainId: await signer.getChainId(),
+    verifyingContract: token
+  };
+  const signature = await signer._signTypedData(domain, PERMIT_TYPES, {
+    owner,
+    spender,
+    value,
+    nonce: nonce ?? await erc20.nonces(owner),
+    deadline
+  });
+  const { v, r, s } = ethers.utils.splitSignature(signature);
+  return { token, spender, value, deadline, v, r, s };
+};
@@ -1,10 +1,13 @@
 import { ethers } from 'ethers';
 import { BigNumberish, Signer } from 'ethers';
-import { keccak256, BytesLike } from 'ethers/lib/utils';
+import { TypedDataDomain, TypedDataField, TypedDataSigner } from '@ethersproject/abstract-signer';
+import { BytesLike, hexlify } from 'ethers/lib/utils';
+import { Creator } from '../typechain-types';
+import { EMPTY_CONTENT_HASH } from './content';
 
 
 export type CopyMintTuple = [string, BigNumberish, Statement, boolean, boolean, boolean, boolean];
-export type CopyValidationTuple = [string, BigNumberish, boolean, BigNumberish, BigNumberish, string, BigNumberish, BigNumberish, BigNumberish];
+export type CopyValidationTuple = [string, BigNumberish, boolean, BigNumberish, BigNumberish, string, BigNumberish, BigNumberish, BigNumberish, BigNumberish, BigNumberish, boolean, boolean];
 
 export enum Statement {
   COLLECT,
@@ -13,14 +16,39 @@ export enum Statement {
   DISTRIBUTE
 };
 
+// see {ICopy-TransferMode}
+export enum TransferMode {
+  FREE,
+  SOULBOUND,
+  COOLING_PERIOD,
+  TOKEN_HOLDERS
+};
+
+// see {ICopy-OrphanPolicy}
+export enum OrphanPolicy {
+  FREEZE,
+  EXPIRE,
+  FALLBACK_REVOKER
+};
+
+export enum RuleState {
+  NIL,
+  EXIST,
+  PAUSED,
+  CLOSED
+};
+
 export interface CopyMintData {
     mintable: string,
+    // the default creator contract of the Copy contract when omitted
+    creatorContract?: string;
     creatorId: BigNumberish;
     statement: Statement;
     transferable: boolean;
     updatable: boolean;
     revokable: boolean;
     extendable: boolean;
+    mintInfoAdditional?: BytesLike;
 }
 
 export interface CopyValidationData {
@@ -33,6 +61,12 @@ export interface CopyValidationData {
     limit: BigNumberish;
     start: BigNumberish;
     time: BigNumberish;
+    // extension policy, see {IPaidMintable-ValidationInfo}. Disabled when omitted
+    maxValidity?: BigNumberish;
+    extendWindow?: BigNumberish;
+    extendRequiresToken?: boolean;
+    // see {IPaidMintable-ValidationInfo}, unguarded when omitted
+    guarded?: boolean;
 }
 
 export interface PermSig {
@@ -55,9 +89,12 @@ export const getMintData = (data: CopyMintData): CopyMintTuple => {
     ];
   };
 
+// the abi type of {IPaidMintable-ValidationInfo}
+export const VALIDATION_INFO_TYPE = 'tuple(address, uint64, bool, uint256, uint256, address, uint256, uint64, uint64, uint64, uint64, bool, bool)';
+
 export const getEncodedValidationData = (validationInfo: CopyValidationTuple) => {
 return ethers.utils.defaultAbiCoder.encode(
-    ['tuple(address, uint64, bool, uint256, uint256, address, uint256, uint64, uint64)'],
+    [VALIDATION_INFO_TYPE],
     [validationInfo]
     );
 };
@@ -72,7 +109,11 @@ export const getCopyValidationData = (data: CopyValidationData): CopyValidationT
       data.requiredERC721Token,
       data.limit,
       data.start,
-      data.time
+      data.time,
+      data.maxValidity ?? 0,
+      data.extendWindow ?? 0,
+      data.extendRequiresToken ?? false,
+      data.guarded ?? false
     ];
 };
 
@@ -84,35 +125,134 @@ export const getDeadline = (seconds: number) => {
   return getNow() + seconds;
 };
 
-const getPermMessage = (contentUri: string, copyrightStatement: string, deadline: number) => {
-  return keccak256(
-    ethers.utils.defaultAbiCoder.encode(
-      ['string', 'string', 'uint256'],
-      [contentUri, copyrightStatement, deadline]
-    )
-  );
+export const COPYRIGHT_TYPES: Record<string, TypedDataField[]> = {
+  Copyright: [
+    { name: 'contentUri', type: 'string' },
+    { name: 'contentHash', type: 'bytes32' },
+    { name: 'notice', type: 'string' },
+    { name: 'nonce', type: 'uint256' },
+    { name: 'deadline', type: 'uint256' }
+  ]
 };
 
-const parseSignature = (signature: string) => {
-  let r = "0x" + signature.slice(2, 66);
-  let s = "0x" + signature.slice(66, 130);
-  let v = signature.slice(130, 132) == "1b" ? 27 : 28;
-  return {
-    v: v,
-    s: s,
-    r: r
-  }
+export interface CopyrightTypedData {
+  domain: TypedDataDomain;
+  types: Record<string, TypedDataField[]>;
+  value: {
+    contentUri: string;
+    contentHash: string;
+    notice: string;
+    nonce: BigNumberish;
+    deadline: number;
+  };
 }
 
-export const getPermSig = async (signer: Signer, contentUri: string, copyrightStatement: string, offset: number): Promise<PermSig> => {
+export const getPermTypedData = async (
+  signer: Signer,
+  creator: Creator,
+  contentUri: string,
+  copyrightStatement: string,
+  deadline: number,
+  nonce?: BigNumberish,
+  contentHash: string = EMPTY_CONTENT_HASH
+): Promise<CopyrightTypedData> => {
+  return {
+    domain: {
+      name: await creator.name(),
+      version: '1',
+      chainId: await signer.getChainId(),
+      verifyingContract: creator.address
+    },
+    types: COPYRIGHT_TYPES,
+    value: {
+      contentUri: contentUri,
+      contentHash: contentHash,
+      notice: copyrightStatement,
+      nonce: nonce ?? await creator.nonces(await signer.getAddress()),
+      deadline: deadline
+    }
+  };
+};
+
+export const recoverPermSig = (typedData: CopyrightTypedData, permSig: PermSig): string => {
+  return ethers.utils.verifyTypedData(
+    typedData.domain,
+    typedData.types,
+    typedData.value,
+    { v: permSig.v, r: hexlify(permSig.r), s: hexlify(permSig.s) }
+  );
+};
+
+/**
+ * @notice Signs the EIP-712 copyright statement for the Creator contract. The signer's current nonce is used
+ * unless given, pass the following nonces to sign several statements in advance. The hash of the content is
+ * signed along with its URI, see {hashContent}
+ */
+export const getPermSig = async (
+  signer: Signer & TypedDataSigner,
+  creator: Creator,
+  contentUri: string,
+  copyrightStatement: string,
+  offset: number,
+  nonce?: BigNumberish,
+  contentHash: string = EMPTY_CONTENT_HASH
+): Promise<PermSig> => {
   const deadline = getDeadline(offset);
-  const message = getPermMessage(contentUri, copyrightStatement, deadline);
-  let signature = await signer.signMessage(Buffer.from(message.slice(2), 'hex'));
-  const { v, r, s } = parseSignature(signature);
+  const { domain, types, value } = await getPermTypedData(
+    signer, creator, contentUri, copyrightStatement, deadline, nonce, contentHash
+  );
+  const signature = await signer._signTypedData(domain, types, value);
+  const { v, r, s } = ethers.utils.splitSignature(signature);
   return {
     deadline: deadline,
     v: v,
     r: r,
     s: s,
   };
-};
\ No newline at end of file
+};
+
+export const ROYALTY_DENOMINATOR = 10000;
+
+/**
+ * @notice Encodes the royalty of a rule in basis points, to be set as the mintInfoAdditional of the rule.
+ * Rules without mintInfoAdditional fall back to the royalty set by the creator on the Copy contract
+ */
+export const getEncodedRoyaltyData = (royaltyBps: BigNumberish): string => {
+  return ethers.utils.defaultAbiCoder.encode(['uint96'], [royaltyBps]);
+};
+
+/**
+ * @notice Encodes the royalty, the transfer mode, whether the copies can be rented out, whether the creator can
+ * push updates to the copies and the orphan policy of a rule, to be set as the mintInfoAdditional of the rule.
+ * The royalty is not taken from the creator when the mintInfoAdditional is set, see {Copy-getTransferMode}
+ *
+ * @param fallbackRevoker the address revoking the copies once the creator token is burned, required by the
+ * FALLBACK_REVOKER policy only
+ */
+export const getEncodedTransferData = (
+  royaltyBps: BigNumberish,
+  mode: TransferMode,
+  coolingPeriod: BigNumberish = 0,
+  rentable = false,
+  pushable = false,
+  orphanPolicy: OrphanPolicy = OrphanPolicy.FREEZE,
+  fallbackRevoker: string = ethers.constants.AddressZero
+): string => {
+  return ethers.utils.defaultAbiCoder.encode(
+    ['uint96', 'uint8', 'uint64', 'bool', 'bool', 'uint8', 'address'],
+    [royaltyBps, mode, coolingPeriod, rentable, pushable, orphanPolicy, fallbackRevoker]
+  );
+};
+
+export const decodeRoyaltyData = (mintInfoAdditional: BytesLike): number | undefined => {
+  if (ethers.utils.arrayify(mintInfoAdditional).length == 0) return undefined;
+  const [royaltyBps] = ethers.utils.defaultAbiCoder.decode(['uint96'], mintInfoAdditional);
+  return royaltyBps.toNumber();
+};
+
+/**
+ * @notice Computes the royalty of a sale the same way as {Copy-royaltyInfo}
+ */
+export const getRoyaltyAmount = (salePrice: BigNumberish, royaltyBps: BigNumberish): bigint => {
+  return BigInt(salePrice.toString()) * BigInt(royaltyBps.toString()) / BigInt(ROYALTY_DENOMINATOR);
+};
@@ -0,0 +1,58 @@
+import { Statement } from '.';
+
+const DATA_URI_PREFIX = 'data:application/json;base64,';
+
+export interface MetadataAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: string;
+}
+
+export interface CopyMetadata {
+  name: string;
+  description: string;
+  external_url: string;
+  content_uri: string;
+  attributes: MetadataAttribute[];
+}
+
+/**
+ * @notice The attributes of a copy NFT rendered by the CopyRenderer contract
+ */
+export interface CopyAttributes {
+  statement: Statement;
+  status: string;
+  expireAt: number;
+  transferable: boolean;
+  updatable: boolean;
+  revokable: boolean;
+  extendable: boolean;
+  copyHash: string;
+}
+
+/**
+ * @notice Decodes the base64 JSON data URI returned by {Copy-tokenURI} when a renderer is set
+ */
+export const decodeTokenURI = (tokenURI: string): CopyMetadata => {
+  if (!tokenURI.startsWith(DATA_URI_PREFIX)) {
+    throw new Error('Metadata: Not a base64 JSON data URI');
+  }
+  return JSON.parse(Buffer.from(tokenURI.slice(DATA_URI_PREFIX.length), 'base64').toString('utf8'));
+};
+
+export const getAttribute = (metadata: CopyMetadata, traitType: string): string | number | undefined => {
+  return metadata.attributes.find((attribute) => attribute.trait_type == traitType)?.value;
+};
+
+export const getCopyAttributes = (metadata: CopyMetadata): CopyAttributes => {
+  return {
+    statement: Statement[getAttribute(metadata, 'Statement') as keyof typeof Statement],
+    status: getAttribute(metadata, 'Status') as string,
+    expireAt: getAttribute(metadata, 'Expire At') as number,
+    transferable: getAttribute(metadata, 'Transferable') == 'Yes',
+    updatable: getAttribute(metadata, 'Updatable') == 'Yes',
+    revokable: getAttribute(metadata, 'Revokable') == 'Yes',
+    extendable: getAttribute(metadata, 'Extendable') == 'Yes',
+    copyHash: getAttribute(metadata, 'Copy Hash') as string
+  };
+};
@@ -0,0 +1,59 @@
+import { BigNumberish, ethers } from 'ethers';
+import { Mintable } from '../typechain-types';
+import { CopyValidationTuple, VALIDATION_INFO_TYPE } from '.';
+import { ValidationInfo } from './client.type';
+
+const BPS_DENOMINATOR = 10000n;
+
+/**
+ * @notice The rule data of the DutchAuctionMintable contract, the validation info followed by the floor price.
+ * The mintAmount of the validation info is the start price of the auction
+ */
+export const getEncodedAuctionData = (validationInfo: CopyValidationTuple, floorPrice: BigNumberish): string => {
+  return ethers.utils.defaultAbiCoder.encode([VALIDATION_INFO_TYPE, 'uint256'], [validationInfo, floorPrice]);
+};
+
+/**
+ * @notice The rule data of the BondingCurveMintable contract, the validation info followed by the price
+ * increment per copy minted. The mintAmount of the validation info is the price of the first copy
+ */
+export const getEncodedCurveData = (validationInfo: CopyValidationTuple, increment: BigNumberish): string => {
+  return ethers.utils.defaultAbiCoder.encode([VALIDATION_INFO_TYPE, 'uint256'], [validationInfo, increment]);
+};
+
+/**
+ * @notice Computes the price of a Dutch auction rule at the given timestamp the same way as
+ * {DutchAuctionMintable-getPrice}
+ */
+export const getAuctionPrice = (valInfo: ValidationInfo, floorPrice: BigNumberish, timestamp: BigNumberish): bigint => {
+  const floor = BigInt(floorPrice.toString());
+  const now = BigInt(timestamp.toString());
+  if (now <= valInfo.start) return valInfo.mintAmount;
+
+  const elapsed = now - valInfo.start;
+  if (elapsed >= valInfo.time) return floor;
+  return valInfo.mintAmount - (valInfo.mintAmount - floor) * elapsed / valInfo.time;
+};
+
+/**
+ * @notice Computes the price of the next copy of a bonding curve rule the same way as
+ * {BondingCurveMintable-getPrice}
+ */
+export const getCurvePrice = (valInfo: ValidationInfo, increment: BigNumberish, mintCount: BigNumberish): bigint => {
+  return valInfo.mintAmount + BigInt(increment.toString()) * BigInt(mintCount.toString());
+};
+
+/**
+ * @notice Quotes the fee of a mint with the quote function of the mintable rule, which prices flat, Dutch
+ * auction and bonding curve rules alike. The slippage, in basis points, covers the price rising before the
+ * transaction is mined. Native tokens paid above the fee are credited back to the collector by the mintable
+ */
+export const getMintQuote = async (
+  mintable: Mintable,
+  copyHash: string,
+  duration: BigNumberish,
+  slippageBps: BigNumberish = 0
+): Promise<bigint> => {
+  const fee = (await mintable.quote(copyHash, duration)).toBigInt();
+  return fee * (BPS_DENOMINATOR + BigInt(slippageBps.toString())) / BPS_DENOMINATOR;
+};
@@ -0,0 +1,146 @@
+import { BigNumberish, BytesLike, ethers, Signer } from 'ethers';
+import { TypedDataDomain, TypedDataField, TypedDataSigner } from '@ethersproject/abstract-signer';
+import { Copy, Creator__factory, VoucherMintable } from '../typechain-types';
+import { ZERO_ADDRESS } from './constants';
+import { getDeadline } from '.';
+
+export const VOUCHER_TYPES: Record<string, TypedDataField[]> = {
+  Voucher: [
+    { name: 'copyHash', type: 'bytes32' },
+    { name: 'recipient', type: 'address' },
+    { name: 'duration', type: 'uint64' },
+    { name: 'price', type: 'uint256' },
+    { name: 'expiry', type: 'uint256' },
+    { name: 'nonce', type: 'uint256' }
+  ]
+};
+
+export interface Voucher {
+  copyHash: string;
+  // the address the copy is minted to, the zero address for anyone
+  recipient: string;
+  duration: BigNumberish;
+  // the price in the fee token of the rule
+  price: BigNumberish;
+  expiry: BigNumberish;
+  nonce: BigNumberish;
+}
+
+export interface SignedVoucher {
+  voucher: Voucher;
+  signature: string;
+}
+
+export interface VoucherInput {
+  copyHash: string;
+  recipient?: string;
+  duration: BigNumberish;
+  price?: BigNumberish;
+  // validity of the voucher, in seconds
+  validFor: number;
+  nonce?: BigNumberish;
+}
+
+export interface VoucherCheck {
+  signer: string;
+  valid: boolean;
+  // the revert reason of the VoucherMintable contract for invalid vouchers
+  reason?: string;
+}
+
+export const getVoucherDomain = async (mintable: VoucherMintable): Promise<TypedDataDomain> => {
+  return {
+    name: 'VoucherMintable',
+    version: '1',
+    chainId: (await mintable.provider.getNetwork()).chainId,
+    verifyingContract: mintable.address
+  };
+};
+
+/**
+ * @notice A random nonce, so that vouchers signed from different places do not collide
+ */
+export const getVoucherNonce = (): string => {
+  return ethers.BigNumber.from(ethers.utils.randomBytes(32)).toString();
+};
+
+/**
+ * @notice Builds and signs a voucher for the VoucherMintable contract. The signer should hold the creator token
+ * of the rule at the time the voucher is redeemed
+ */
+export const signVoucher = async (
+  signer: Signer & TypedDataSigner,
+  mintable: VoucherMintable,
+  input: VoucherInput
+): Promise<SignedVoucher> => {
+  const voucher: Voucher = {
+    copyHash: input.copyHash,
+    recipient: input.recipient ?? ZERO_ADDRESS,
+    duration: input.duration,
+    price: input.price ?? 0,
+    expiry: getDeadline(input.validFor),
+    nonce: input.nonce ?? getVoucherNonce()
+  };
+  const signature = await signer._signTypedData(await getVoucherDomain(mintable), VOUCHER_TYPES, voucher);
+  return { voucher, signature };
+};
+
+export const recoverVoucherSigner = (domain: TypedDataDomain, signedVoucher: SignedVoucher): string => {
+  return ethers.utils.verifyTypedData(domain, VOUCHER_TYPES, signedVoucher.voucher, signedVoucher.signature);
+};
+
+/**
+ * @notice The mint data supplied to {Copy-create} for a voucher rule
+ */
+export const getEncodedVoucherData = (signedVoucher: SignedVoucher): string => {
+  const { voucher, signature } = signedVoucher;
+  return ethers.utils.defaultAbiCoder.encode(
+    ['uint256', 'uint256', 'uint256', 'bytes'],
+    [voucher.price, voucher.expiry, voucher.nonce, signature]
+  );
+};
+
+export const decodeVoucherData = (
+  mintData: BytesLike,
+  copyHash: string,
+  recipient: string,
+  duration: BigNumberish
+): SignedVoucher => {
+  const [price, expiry, nonce, signature] = ethers.utils.defaultAbiCoder.decode(
+    ['uint256', 'uint256', 'uint256', 'bytes'],
+    mintData
+  );
+  return {
+    voucher: { copyHash, recipient, duration, price, expiry, nonce },
+    signature
+  };
+};
+
+/**
+ * @notice Checks a voucher the same way as the VoucherMintable contract at the latest block, except for the
+ * validation info of the rule. Vouchers with a zero recipient can be redeemed by anyone
+ */
+export const verifyVoucher = async (
+  mintable: VoucherMintable,
+  copy: Copy,
+  signedVoucher: SignedVoucher
+): Promise<VoucherCheck> => {
+  const { voucher } = signedVoucher;
+  const signer = recoverVoucherSigner(await getVoucherDomain(mintable), signedVoucher);
+
+  const block = await mintable.provider.getBlock('latest');
+  if (ethers.BigNumber.from(voucher.expiry).lte(block.timestamp)) {
+    return { signer, valid: false, reason: 'VoucherMintable: Voucher Expired' };
+  }
+
+  const mintInfo = await copy.getMintInfo(voucher.copyHash);
+  const creator = Creator__factory.connect(await copy.getCreatorContract(), copy.provider);
+  if (mintInfo.mintable != mintable.address || signer != await creator.ownerOf(mintInfo.creatorId)) {
+    return { signer, valid: false, reason: 'VoucherMintable: Invalid Signature' };
+  }
+
+  if (await mintable.isNonceUsed(signer, voucher.nonce)) {
+    return { signer, valid: false, reason: 'VoucherMintable: Voucher Used' };
+  }
+  return { signer, valid: true };
+};